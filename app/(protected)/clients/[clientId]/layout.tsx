@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, usePathname } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { ClientViewProvider } from '@/lib/contexts/client-view-context';
+
+export default function ClientViewLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const params = useParams();
+  const pathname = usePathname();
+  const clientId = params.clientId as string;
+  const [clientName, setClientName] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const supabase = createClient();
+
+  useEffect(() => {
+    if (clientId) {
+      fetchClient();
+    }
+  }, [clientId]);
+
+  const fetchClient = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('full_name')
+        .eq('user_id', clientId)
+        .single();
+
+      if (error) throw error;
+      setClientName(data.full_name);
+    } catch (err) {
+      console.error('Error fetching client:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center">Loading...</div>;
+  }
+
+  if (!clientName) {
+    return (
+      <div className="space-y-6">
+        <p className="text-red-600">Client not found</p>
+        <Link
+          href="/clients"
+          className="inline-block rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          Back to Clients
+        </Link>
+      </div>
+    );
+  }
+
+  const tabs = [
+    { href: `/clients/${clientId}/dashboard`, label: 'Dashboard' },
+    { href: `/clients/${clientId}/meals`, label: 'Meals' },
+    { href: `/clients/${clientId}/planner`, label: 'Planner' },
+    { href: `/clients/${clientId}/weight`, label: 'Weight' },
+  ];
+
+  return (
+    <ClientViewProvider clientId={clientId} clientName={clientName}>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-green-200 bg-green-50 px-4 py-3">
+          <div className="flex items-center gap-3">
+            <Link href="/clients" className="text-sm text-zinc-600 hover:text-zinc-900">
+              ← Clients
+            </Link>
+            <span className="text-sm font-medium text-green-800">
+              Viewing as {clientName} (read-only)
+            </span>
+          </div>
+          <div className="flex gap-2">
+            {tabs.map((tab) => (
+              <Link
+                key={tab.href}
+                href={tab.href}
+                className={`px-3 py-1 rounded-md text-sm font-medium ${
+                  pathname === tab.href
+                    ? 'bg-zinc-900 text-white'
+                    : 'bg-white text-zinc-600 hover:bg-zinc-100'
+                }`}
+              >
+                {tab.label}
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {children}
+      </div>
+    </ClientViewProvider>
+  );
+}
@@ -0,0 +1,10 @@
+import { redirect } from 'next/navigation';
+
+export default async function ClientPage({
+  params,
+}: {
+  params: Promise<{ clientId: string }>;
+}) {
+  const { clientId } = await params;
+  redirect(`/clients/${clientId}/dashboard`);
+}
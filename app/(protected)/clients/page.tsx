@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { subDays } from 'date-fns';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { createClient } from '@/lib/supabase/client';
+import { UserProfile, UserRole, WeightLog } from '@/lib/types';
+import { formatDateForDB, formatDateForDisplay } from '@/lib/utils/date';
+import { calculateGoalPercentage } from '@/lib/utils/nutrition';
+
+interface ClientSummary {
+  profile: UserProfile;
+  lastLoggedDate: string | null;
+  averageCalories: number | null;
+  loggedDays: number;
+  latestWeight: Pick<WeightLog, 'weight' | 'log_date'> | null;
+}
+
+export default function ClientsPage() {
+  const { user } = useAuth();
+  const [userRole, setUserRole] = useState<UserRole | null>(null);
+  const [clients, setClients] = useState<ClientSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const supabase = createClient();
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const { data: ownProfile, error: roleError } = await supabase
+        .from('user_profiles')
+        .select('role')
+        .eq('user_id', user?.id)
+        .single();
+
+      if (roleError) throw roleError;
+      setUserRole(ownProfile.role);
+      if (ownProfile.role !== 'dietitian') return;
+
+      const { data: assignments, error: assignmentsError } = await supabase
+        .from('dietitian_clients')
+        .select('client_id')
+        .eq('dietitian_id', user?.id)
+        .eq('status', 'active');
+
+      if (assignmentsError) throw assignmentsError;
+
+      const clientIds = (assignments || []).map((a) => a.client_id);
+      if (clientIds.length === 0) {
+        setClients([]);
+        return;
+      }
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .in('user_id', clientIds)
+        .order('full_name');
+
+      if (profilesError) throw profilesError;
+
+      const summaries = await Promise.all((profiles || []).map(fetchClientSummary));
+      setClients(summaries);
+    } catch (err) {
+      console.error('Error fetching clients:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClientSummary = async (profile: UserProfile): Promise<ClientSummary> => {
+    const today = new Date();
+    const weekAgo = formatDateForDB(subDays(today, 6));
+
+    const [lastLogResult, recentLogsResult, weightResult] = await Promise.all([
+      supabase
+        .from('daily_logs')
+        .select('log_date')
+        .eq('user_id', profile.user_id)
+        .gt('total_calories', 0)
+        .order('log_date', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('daily_logs')
+        .select('total_calories')
+        .eq('user_id', profile.user_id)
+        .gte('log_date', weekAgo)
+        .lte('log_date', formatDateForDB(today))
+        .gt('total_calories', 0),
+      supabase
+        .from('weight_logs')
+        .select('weight, log_date')
+        .eq('user_id', profile.user_id)
+        .order('log_date', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    // Only days with something logged count toward the average
+    const recentLogs = recentLogsResult.data || [];
+    const averageCalories = recentLogs.length > 0
+      ? Math.round(recentLogs.reduce((sum, log) => sum + log.total_calories, 0) / recentLogs.length)
+      : null;
+
+    return {
+      profile,
+      lastLoggedDate: lastLogResult.data?.log_date ?? null,
+      averageCalories,
+      loggedDays: recentLogs.length,
+      latestWeight: weightResult.data ?? null,
+    };
+  };
+
+  if (loading) {
+    return <div className="text-center">Loading...</div>;
+  }
+
+  if (userRole !== 'dietitian') {
+    return (
+      <div className="rounded-lg border border-zinc-200 bg-white p-12 text-center">
+        <p className="text-zinc-600">The client roster is only available to dietitians.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">Clients</h1>
+        <p className="mt-1 text-zinc-600">Recent logging and progress for each of your clients</p>
+      </div>
+
+      {clients.length === 0 ? (
+        <div className="rounded-lg border border-zinc-200 bg-white p-12 text-center">
+          <p className="text-zinc-600">
+            No clients yet. Invite clients by username from your{' '}
+            <Link href="/profile" className="font-medium text-pink-600 hover:text-pink-700">
+              profile
+            </Link>
+            .
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {clients.map(({ profile, lastLoggedDate, averageCalories, loggedDays, latestWeight }) => {
+            const calorieGoal = profile.daily_goals?.calories;
+            const percentage = averageCalories != null && calorieGoal
+              ? calculateGoalPercentage(averageCalories, calorieGoal)
+              : null;
+            const isOver = percentage != null && percentage > 100;
+
+            return (
+              <div
+                key={profile.user_id}
+                className="rounded-lg border border-zinc-200 bg-white p-6"
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold">{profile.full_name}</h3>
+                    {profile.username && (
+                      <p className="text-sm text-zinc-500">@{profile.username}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Link
+                      href={`/clients/${profile.user_id}/dashboard`}
+                      className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-pink-500 transition-colors"
+                    >
+                      Dashboard
+                    </Link>
+                    <Link
+                      href={`/clients/${profile.user_id}/meals`}
+                      className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                    >
+                      Meals
+                    </Link>
+                    <Link
+                      href={`/clients/${profile.user_id}/weight`}
+                      className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                    >
+                      Weight
+                    </Link>
+                  </div>
+                </div>
+
+                <div className="mt-4 grid grid-cols-1 gap-4 text-sm sm:grid-cols-3">
+                  <div>
+                    <p className="text-zinc-600">Last Logged</p>
+                    <p className="font-medium">
+                      {lastLoggedDate ? formatDateForDisplay(lastLoggedDate) : 'Never'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-zinc-600">7-Day Avg Calories</p>
+                    {averageCalories != null ? (
+                      <p className={isOver ? 'font-bold text-red-600' : 'font-medium'}>
+                        {averageCalories}
+                        {calorieGoal ? ` / ${calorieGoal}` : ''}
+                        {percentage != null && (
+                          <span className="ml-1 text-xs font-normal text-zinc-500">
+                            ({percentage}% · {loggedDays} {loggedDays === 1 ? 'day' : 'days'})
+                          </span>
+                        )}
+                      </p>
+                    ) : (
+                      <p className="font-medium text-zinc-500">No logs this week</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-zinc-600">Latest Weight</p>
+                    {latestWeight ? (
+                      <p className="font-medium">
+                        {latestWeight.weight} lbs
+                        <span className="ml-1 text-xs font-normal text-zinc-500">
+                          ({formatDateForDisplay(latestWeight.log_date)})
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="font-medium text-zinc-500">No weigh-ins</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useAuth } from '@/lib/contexts/auth-context';
+import { useViewedUser } from '@/lib/contexts/client-view-context';
 import { createClient } from '@/lib/supabase/client';
-import { DailyLog, DailyGoals } from '@/lib/types';
+import { DailyLog, DailyGoals, MealPlanEntry, NutrientVector } from '@/lib/types';
 import {
   getWeekStart,
   getDaysInWeek,
@@ -11,6 +11,7 @@ import {
   formatDateForDisplay,
   getWeekRangeString,
 } from '@/lib/utils/date';
+import { roundNutrients, sumNutrients } from '@/lib/utils/nutrition';
 import { addDays, subDays } from 'date-fns';
 import Link from 'next/link';
 
@@ -18,10 +19,18 @@ interface DailyData {
   date: Date;
   dateString: string;
   log?: DailyLog;
+  planned?: NutrientVector;
 }
 
+const PLAN_COMPARISON: { key: 'calories' | 'protein' | 'carbs' | 'fat'; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: '' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+];
+
 export default function DashboardPage() {
-  const { user } = useAuth();
+  const { userId, readOnly, basePath } = useViewedUser();
   const [currentWeekStart, setCurrentWeekStart] = useState(getWeekStart());
   const [dailyData, setDailyData] = useState<DailyData[]>([]);
   const [dailyGoals, setDailyGoals] = useState<DailyGoals | null>(null);
@@ -29,18 +38,18 @@ export default function DashboardPage() {
   const supabase = createClient();
 
   useEffect(() => {
-    if (user) {
+    if (userId) {
       fetchDailyGoals();
       fetchWeekData();
     }
-  }, [user, currentWeekStart]);
+  }, [userId, currentWeekStart]);
 
   const fetchDailyGoals = async () => {
     try {
       const { data, error } = await supabase
         .from('user_profiles')
         .select('daily_goals')
-        .eq('user_id', user?.id)
+        .eq('user_id', userId)
         .single();
 
       if (error) throw error;
@@ -60,19 +69,29 @@ export default function DashboardPage() {
       const { data: logs, error } = await supabase
         .from('daily_logs')
         .select('*')
-        .eq('user_id', user?.id)
+        .eq('user_id', userId)
         .gte('log_date', startDate)
         .lte('log_date', endDate)
         .order('log_date');
 
       if (error) throw error;
 
+      const { data: planEntries, error: planError } = await supabase
+        .from('meal_plan_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('plan_date', startDate)
+        .lte('plan_date', endDate);
+
+      if (planError) throw planError;
+
       const logsMap = new Map(logs?.map(log => [log.log_date, log]) || []);
 
       const data: DailyData[] = daysInWeek.map(date => ({
         date,
         dateString: formatDateForDB(date),
         log: logsMap.get(formatDateForDB(date)),
+        planned: getPlannedTotals(planEntries || [], formatDateForDB(date)),
       }));
 
       setDailyData(data);
@@ -95,6 +114,16 @@ export default function DashboardPage() {
     setCurrentWeekStart(getWeekStart());
   };
 
+  const getPlannedTotals = (entries: MealPlanEntry[], dateString: string) => {
+    const dayEntries = entries.filter(e => e.plan_date === dateString);
+    return dayEntries.length > 0 ? roundNutrients(sumNutrients(dayEntries)) : undefined;
+  };
+
+  const getActual = (log: DailyLog | undefined, key: 'calories' | 'protein' | 'carbs' | 'fat') => {
+    if (!log) return 0;
+    return Number(log[`total_${key}`]) || 0;
+  };
+
   const calculateProgress = (actual: number, goal: number) => {
     if (!goal) return 0;
     return Math.min((actual / goal) * 100, 100);
@@ -169,7 +198,7 @@ export default function DashboardPage() {
       )}
 
       <div className="space-y-4">
-        {dailyData.map(({ date, dateString, log }) => (
+        {dailyData.map(({ date, dateString, log, planned }) => (
           <div
             key={dateString}
             className="rounded-lg border border-zinc-200 bg-white p-6"
@@ -209,13 +238,37 @@ export default function DashboardPage() {
                 ) : (
                   <p className="mt-2 text-sm text-zinc-500">No meals logged yet</p>
                 )}
+                {planned && (
+                  <div className="mt-4">
+                    <p className="text-xs text-zinc-500">Actual vs. planned</p>
+                    <div className="mt-1 grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+                      {PLAN_COMPARISON.map(({ key, label, unit }) => {
+                        const actual = getActual(log, key);
+                        const difference = Math.round((actual - planned[key]) * 10) / 10;
+                        return (
+                          <div key={key}>
+                            <p className="text-zinc-600">{label}</p>
+                            <p className="font-medium">
+                              {actual}{unit} <span className="text-zinc-400">/ {planned[key]}{unit}</span>
+                            </p>
+                            {difference !== 0 && (
+                              <p className={`text-xs ${difference > 0 ? 'text-red-600' : 'text-zinc-500'}`}>
+                                {difference > 0 ? '+' : ''}{difference}{unit} vs. plan
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
               </div>
 
               <Link
-                href={`/meals?date=${dateString}`}
+                href={`${basePath}/meals?date=${dateString}`}
                 className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-pink-500 transition-colors"
               >
-                {log ? 'View / Edit' : 'Log Meals'}
+                {readOnly ? 'View' : log ? 'View / Edit' : 'Log Meals'}
               </Link>
             </div>
           </div>
@@ -6,6 +6,11 @@ import { createClient } from '@/lib/supabase/client';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { MICRONUTRIENTS } from '@/lib/utils/nutrition';
+import { GROCERY_CATEGORIES, GroceryCategory, NutritionLabel } from '@/lib/types';
+import { normalizeBarcode } from '@/lib/utils/barcode';
+import { formatLabelServing, labelToFoodFields } from '@/lib/utils/nutrition-label';
+import { NutritionLabelForm } from '@/components/nutrition-label-form';
 
 const foodSchema = z.object({
   name: z.string().min(1, 'Food name is required'),
@@ -16,6 +21,16 @@ const foodSchema = z.object({
   fat_per_serving: z.number().min(0).optional(),
   fiber_per_serving: z.number().min(0).optional(),
   water_per_serving: z.number().min(0).optional(),
+  sodium_per_serving: z.number().min(0).optional(),
+  sugar_per_serving: z.number().min(0).optional(),
+  saturated_fat_per_serving: z.number().min(0).optional(),
+  potassium_per_serving: z.number().min(0).optional(),
+  cholesterol_per_serving: z.number().min(0).optional(),
+  category: z.string().optional(),
+  upc: z.string().optional().refine(
+    (value) => !value || normalizeBarcode(value) !== null,
+    'Enter a valid UPC or EAN barcode'
+  ),
 });
 
 type FoodFormData = z.infer<typeof foodSchema>;
@@ -30,15 +45,33 @@ interface Food {
   fat_per_serving?: number;
   fiber_per_serving?: number;
   water_per_serving?: number;
+  sodium_per_serving?: number;
+  sugar_per_serving?: number;
+  saturated_fat_per_serving?: number;
+  potassium_per_serving?: number;
+  cholesterol_per_serving?: number;
+  category?: GroceryCategory | null;
+  upc?: string | null;
+  nutrition_label?: NutritionLabel | null;
   usage_count: number;
 }
 
+// Values filled from a Nutrition Facts label; editing any of them by hand drops the label
+const LABEL_FIELDS = [
+  'default_amount', 'calories_per_serving', 'protein_per_serving', 'carbs_per_serving',
+  'fat_per_serving', 'fiber_per_serving', 'water_per_serving', 'sodium_per_serving',
+  'sugar_per_serving', 'saturated_fat_per_serving', 'potassium_per_serving', 'cholesterol_per_serving',
+] as const;
+
 export default function FoodsPage() {
   const { user } = useAuth();
   const [foods, setFoods] = useState<Food[]>([]);
   const [loading, setLoading] = useState(true);
   const [adding, setAdding] = useState(false);
   const [editing, setEditing] = useState<string | null>(null);
+  // Adding from a Nutrition Facts label instead of typing per-serving values
+  const [addFromLabel, setAddFromLabel] = useState(false);
+  const [editingLabel, setEditingLabel] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const supabase = createClient();
 
@@ -56,6 +89,13 @@ export default function FoodsPage() {
       fat_per_serving: 0,
       fiber_per_serving: 0,
       water_per_serving: 0,
+      sodium_per_serving: 0,
+      sugar_per_serving: 0,
+      saturated_fat_per_serving: 0,
+      potassium_per_serving: 0,
+      cholesterol_per_serving: 0,
+      category: '',
+      upc: '',
     },
   });
 
@@ -97,6 +137,13 @@ export default function FoodsPage() {
           fat_per_serving: data.fat_per_serving || 0,
           fiber_per_serving: data.fiber_per_serving || 0,
           water_per_serving: data.water_per_serving || 0,
+          sodium_per_serving: data.sodium_per_serving || 0,
+          sugar_per_serving: data.sugar_per_serving || 0,
+          saturated_fat_per_serving: data.saturated_fat_per_serving || 0,
+          potassium_per_serving: data.potassium_per_serving || 0,
+          cholesterol_per_serving: data.cholesterol_per_serving || 0,
+          category: data.category || null,
+          upc: data.upc ? normalizeBarcode(data.upc) : null,
         });
 
       if (error) throw error;
@@ -111,6 +158,9 @@ export default function FoodsPage() {
   };
 
   const handleUpdate = async (foodId: string, data: FoodFormData) => {
+    const food = foods.find(f => f.id === foodId);
+    const labelChanged = LABEL_FIELDS.some(field => (data[field] ?? 0) !== (food?.[field] ?? 0));
+
     try {
       const { error } = await supabase
         .from('foods')
@@ -123,6 +173,14 @@ export default function FoodsPage() {
           fat_per_serving: data.fat_per_serving || 0,
           fiber_per_serving: data.fiber_per_serving || 0,
           water_per_serving: data.water_per_serving || 0,
+          sodium_per_serving: data.sodium_per_serving || 0,
+          sugar_per_serving: data.sugar_per_serving || 0,
+          saturated_fat_per_serving: data.saturated_fat_per_serving || 0,
+          potassium_per_serving: data.potassium_per_serving || 0,
+          cholesterol_per_serving: data.cholesterol_per_serving || 0,
+          category: data.category || null,
+          upc: data.upc ? normalizeBarcode(data.upc) : null,
+          ...(labelChanged ? { nutrition_label: null } : {}),
         })
         .eq('id', foodId);
 
@@ -137,6 +195,25 @@ export default function FoodsPage() {
     }
   };
 
+  const handleSaveLabel = async (foodId: string | null, name: string, label: NutritionLabel) => {
+    const fields = { name, ...labelToFoodFields(label), nutrition_label: label };
+
+    try {
+      const { error } = foodId
+        ? await supabase.from('foods').update(fields).eq('id', foodId)
+        : await supabase.from('foods').insert({ user_id: user?.id, ...fields });
+
+      if (error) throw error;
+
+      setAdding(false);
+      setEditingLabel(null);
+      await fetchFoods();
+    } catch (err) {
+      console.error('Error saving food label:', err);
+      alert('Failed to save food');
+    }
+  };
+
   const handleDelete = async (foodId: string) => {
     if (!confirm('Are you sure you want to delete this food?')) return;
 
@@ -156,6 +233,7 @@ export default function FoodsPage() {
 
   const startEdit = (food: Food) => {
     setEditing(food.id);
+    setEditingLabel(null);
     reset({
       name: food.name,
       default_amount: food.default_amount,
@@ -165,6 +243,13 @@ export default function FoodsPage() {
       fat_per_serving: food.fat_per_serving || 0,
       fiber_per_serving: food.fiber_per_serving || 0,
       water_per_serving: food.water_per_serving || 0,
+      sodium_per_serving: food.sodium_per_serving || 0,
+      sugar_per_serving: food.sugar_per_serving || 0,
+      saturated_fat_per_serving: food.saturated_fat_per_serving || 0,
+      potassium_per_serving: food.potassium_per_serving || 0,
+      cholesterol_per_serving: food.cholesterol_per_serving || 0,
+      category: food.category || '',
+      upc: food.upc || '',
     });
   };
 
@@ -184,21 +269,46 @@ export default function FoodsPage() {
           <p className="mt-1 text-zinc-600">Manage your food library</p>
         </div>
 
-        <button
-          onClick={() => {
-            setAdding(!adding);
-            if (!adding) {
-              setEditing(null);
-              reset();
-            }
-          }}
-          className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
-        >
-          {adding ? 'Cancel' : '+ New Food'}
-        </button>
+        <div className="flex gap-2">
+          {!adding && (
+            <button
+              onClick={() => {
+                setAdding(true);
+                setAddFromLabel(true);
+                setEditing(null);
+                setEditingLabel(null);
+              }}
+              className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+            >
+              + From Label
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setAdding(!adding);
+              setAddFromLabel(false);
+              if (!adding) {
+                setEditing(null);
+                setEditingLabel(null);
+                reset();
+              }
+            }}
+            className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
+          >
+            {adding ? 'Cancel' : '+ New Food'}
+          </button>
+        </div>
       </div>
 
-      {adding && (
+      {adding && addFromLabel && (
+        <NutritionLabelForm
+          submitLabel="Add Food"
+          onSave={(name, label) => handleSaveLabel(null, name, label)}
+          onCancel={() => setAdding(false)}
+        />
+      )}
+
+      {adding && !addFromLabel && (
         <form
           onSubmit={handleSubmit(handleAdd)}
           className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4"
@@ -228,6 +338,31 @@ export default function FoodsPage() {
               {errors.default_amount && <p className="mt-1 text-sm text-red-600">{errors.default_amount.message}</p>}
             </div>
 
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-zinc-900">Grocery Aisle</label>
+              <select
+                {...register('category')}
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+              >
+                <option value="">Guess from name</option>
+                {GROCERY_CATEGORIES.map(({ category, label }) => (
+                  <option key={category} value={category}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-zinc-900">Barcode (optional)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                {...register('upc')}
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+                placeholder="UPC or EAN from the package"
+              />
+              {errors.upc && <p className="mt-1 text-sm text-red-600">{errors.upc.message}</p>}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-zinc-900">Calories</label>
               <input
@@ -287,6 +422,18 @@ export default function FoodsPage() {
                 className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
               />
             </div>
+
+            {MICRONUTRIENTS.map(({ key, label, unit }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-zinc-900">{label} ({unit})</label>
+                <input
+                  type="number"
+                  step={unit === 'mg' ? '1' : '0.1'}
+                  {...register(`${key}_per_serving`, { valueAsNumber: true })}
+                  className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+                />
+              </div>
+            ))}
           </div>
 
           <button
@@ -316,7 +463,15 @@ export default function FoodsPage() {
           <div className="space-y-2">
             {filteredFoods.map((food) => (
               <div key={food.id}>
-                {editing === food.id ? (
+                {editingLabel === food.id ? (
+                  <NutritionLabelForm
+                    initialName={food.name}
+                    initialLabel={food.nutrition_label}
+                    submitLabel="Save"
+                    onSave={(name, label) => handleSaveLabel(food.id, name, label)}
+                    onCancel={() => setEditingLabel(null)}
+                  />
+                ) : editing === food.id ? (
                   <form
                     onSubmit={handleSubmit((data) => handleUpdate(food.id, data))}
                     className="rounded-lg border border-zinc-300 bg-zinc-50 p-4 space-y-3"
@@ -336,6 +491,28 @@ export default function FoodsPage() {
                           className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
                         />
                       </div>
+                      <div className="col-span-2">
+                        <label className="block text-xs text-zinc-600">Grocery Aisle</label>
+                        <select
+                          {...register('category')}
+                          className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+                        >
+                          <option value="">Guess from name</option>
+                          {GROCERY_CATEGORIES.map(({ category, label }) => (
+                            <option key={category} value={category}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="col-span-2">
+                        <label className="block text-xs text-zinc-600">Barcode</label>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          {...register('upc')}
+                          className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+                        />
+                        {errors.upc && <p className="mt-1 text-sm text-red-600">{errors.upc.message}</p>}
+                      </div>
                       <div>
                         <label className="block text-xs text-zinc-600">Calories</label>
                         <input
@@ -389,6 +566,17 @@ export default function FoodsPage() {
                           className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
                         />
                       </div>
+                      {MICRONUTRIENTS.map(({ key, label, unit }) => (
+                        <div key={key}>
+                          <label className="block text-xs text-zinc-600">{label} ({unit})</label>
+                          <input
+                            type="number"
+                            step={unit === 'mg' ? '1' : '0.1'}
+                            {...register(`${key}_per_serving`, { valueAsNumber: true })}
+                            className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+                          />
+                        </div>
+                      ))}
                     </div>
                     <div className="flex gap-2">
                       <button
@@ -414,6 +602,9 @@ export default function FoodsPage() {
                     <div className="flex-1">
                       <p className="font-medium">{food.name}</p>
                       <p className="text-sm text-zinc-600">{food.default_amount}</p>
+                      {food.nutrition_label && (
+                        <p className="text-xs text-zinc-500">Label serving: {formatLabelServing(food.nutrition_label)}</p>
+                      )}
                       <p className="text-xs text-zinc-500 mt-1">
                         {food.calories_per_serving} cal
                         {food.protein_per_serving ? ` | P: ${food.protein_per_serving}g` : ''}
@@ -421,6 +612,8 @@ export default function FoodsPage() {
                         {food.fat_per_serving ? ` | F: ${food.fat_per_serving}g` : ''}
                         {food.fiber_per_serving ? ` | Fiber: ${food.fiber_per_serving}g` : ''}
                         {food.water_per_serving ? ` | Water: ${food.water_per_serving}oz` : ''}
+                        {food.sodium_per_serving ? ` | Sodium: ${food.sodium_per_serving}mg` : ''}
+                        {food.sugar_per_serving ? ` | Sugar: ${food.sugar_per_serving}g` : ''}
                       </p>
                     </div>
                     <div className="flex gap-2">
@@ -430,6 +623,15 @@ export default function FoodsPage() {
                       >
                         Edit
                       </button>
+                      <button
+                        onClick={() => {
+                          setEditingLabel(food.id);
+                          setEditing(null);
+                        }}
+                        className="text-sm text-zinc-600 hover:text-zinc-900"
+                      >
+                        {food.nutrition_label ? 'Edit Label' : 'Enter Label'}
+                      </button>
                       <button
                         onClick={() => handleDelete(food.id)}
                         className="text-sm text-red-600 hover:text-red-800"
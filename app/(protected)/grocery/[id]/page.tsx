@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import type { GroceryList, GroceryListItem } from '@/lib/types';
+import { guessGroceryCategory, groupByCategory } from '@/lib/utils/grocery';
+import Link from 'next/link';
+
+export default function GroceryListPage() {
+  const router = useRouter();
+  const params = useParams();
+  const listId = params.id as string;
+  const [list, setList] = useState<GroceryList | null>(null);
+  const [items, setItems] = useState<GroceryListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hideChecked, setHideChecked] = useState(false);
+  const [newItemName, setNewItemName] = useState('');
+  const [newItemAmount, setNewItemAmount] = useState('');
+  const supabase = createClient();
+
+  useEffect(() => {
+    if (listId) {
+      fetchList();
+    }
+  }, [listId]);
+
+  const fetchList = async () => {
+    try {
+      const { data: listData, error: listError } = await supabase
+        .from('grocery_lists')
+        .select('*')
+        .eq('id', listId)
+        .single();
+
+      if (listError) throw listError;
+
+      const { data: itemsData, error: itemsError } = await supabase
+        .from('grocery_list_items')
+        .select('*')
+        .eq('list_id', listId)
+        .order('order');
+
+      if (itemsError) throw itemsError;
+
+      setList(listData);
+      setItems(itemsData || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load list');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleItem = async (item: GroceryListItem) => {
+    // Optimistic update: ticking items off in the shop shouldn't wait on the network
+    setItems(prev => prev.map(i => (i.id === item.id ? { ...i, checked: !item.checked } : i)));
+
+    try {
+      const { error } = await supabase
+        .from('grocery_list_items')
+        .update({ checked: !item.checked })
+        .eq('id', item.id);
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Error updating grocery item:', err);
+      setItems(prev => prev.map(i => (i.id === item.id ? { ...i, checked: item.checked } : i)));
+    }
+  };
+
+  const uncheckAll = async () => {
+    try {
+      const { error } = await supabase
+        .from('grocery_list_items')
+        .update({ checked: false })
+        .eq('list_id', listId);
+
+      if (error) throw error;
+      setItems(prev => prev.map(i => ({ ...i, checked: false })));
+    } catch (err) {
+      console.error('Error unchecking grocery items:', err);
+    }
+  };
+
+  const handleAddItem = async () => {
+    if (!newItemName.trim()) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('grocery_list_items')
+        .insert({
+          list_id: listId,
+          name: newItemName.trim(),
+          amount: newItemAmount.trim(),
+          category: guessGroceryCategory(newItemName),
+          order: items.length + 1,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setItems(prev => [...prev, data]);
+      setNewItemName('');
+      setNewItemAmount('');
+    } catch (err) {
+      console.error('Error adding grocery item:', err);
+      alert('Failed to add item');
+    }
+  };
+
+  const handleRemoveItem = async (itemId: string) => {
+    try {
+      const { error } = await supabase
+        .from('grocery_list_items')
+        .delete()
+        .eq('id', itemId);
+
+      if (error) throw error;
+      setItems(prev => prev.filter(i => i.id !== itemId));
+    } catch (err) {
+      console.error('Error removing grocery item:', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Are you sure you want to delete this list?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('grocery_lists')
+        .delete()
+        .eq('id', listId);
+
+      if (error) throw error;
+      router.push('/grocery');
+    } catch (err) {
+      console.error('Error deleting grocery list:', err);
+      alert('Failed to delete list');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center">Loading...</div>;
+  }
+
+  if (error || !list) {
+    return (
+      <div className="space-y-6">
+        <p className="text-red-600">{error || 'List not found'}</p>
+        <Link
+          href="/grocery"
+          className="inline-block rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          Back to Grocery Lists
+        </Link>
+      </div>
+    );
+  }
+
+  const checkedCount = items.filter(i => i.checked).length;
+  const visibleItems = hideChecked ? items.filter(i => !i.checked) : items;
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <div>
+        <Link href="/grocery" className="text-sm text-zinc-600 hover:text-zinc-900">
+          ← Grocery Lists
+        </Link>
+        <div className="mt-2 flex items-start justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">{list.name}</h1>
+            <p className="mt-1 text-sm text-zinc-600">
+              {checkedCount} of {items.length} items checked
+            </p>
+            {list.sources.length > 0 && (
+              <p className="mt-1 text-xs text-zinc-500">
+                From {list.sources.map(s => (s.recipe_id ? `${s.name} (${s.servings} servings)` : s.name)).join(', ')}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={handleDelete}
+            className="text-sm text-red-600 hover:text-red-800"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setHideChecked(!hideChecked)}
+          className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+        >
+          {hideChecked ? 'Show checked' : 'Hide checked'}
+        </button>
+        {checkedCount > 0 && (
+          <button
+            onClick={uncheckAll}
+            className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+          >
+            Uncheck all
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {groupByCategory(visibleItems).map(({ category, label, items: groupItems }) => (
+          <div key={category} className="rounded-lg border border-zinc-200 bg-white">
+            <h2 className="border-b border-zinc-200 px-4 py-2 text-xs font-medium uppercase text-zinc-500">{label}</h2>
+            <ul className="divide-y divide-zinc-100">
+              {groupItems.map(item => (
+                <li key={item.id} className="flex items-center gap-3 px-4">
+                  <label className="flex flex-1 cursor-pointer items-center gap-3 py-3">
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      onChange={() => toggleItem(item)}
+                      className="h-5 w-5 accent-green-600"
+                    />
+                    <span className={`flex-1 ${item.checked ? 'text-zinc-400 line-through' : ''}`}>
+                      {item.name}
+                    </span>
+                    <span className={`text-sm ${item.checked ? 'text-zinc-400' : 'text-zinc-600'}`}>
+                      {item.amount}
+                    </span>
+                  </label>
+                  <button
+                    onClick={() => handleRemoveItem(item.id)}
+                    title="Remove item"
+                    className="p-2 text-red-600 hover:text-red-800"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {visibleItems.length === 0 && (
+          <p className="text-center text-sm text-zinc-500">
+            {items.length === 0 ? 'This list is empty.' : 'Everything is checked off!'}
+          </p>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-zinc-200 bg-white p-4">
+        <p className="text-sm font-medium text-zinc-900 mb-2">Add an item</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newItemName}
+            onChange={(e) => setNewItemName(e.target.value)}
+            placeholder="e.g., Paper towels"
+            className="flex-1 min-w-0 rounded-md border border-zinc-300 px-3 py-2 text-sm"
+          />
+          <input
+            type="text"
+            value={newItemAmount}
+            onChange={(e) => setNewItemAmount(e.target.value)}
+            placeholder="Amount"
+            className="w-24 rounded-md border border-zinc-300 px-3 py-2 text-sm"
+          />
+          <button
+            onClick={handleAddItem}
+            disabled={!newItemName.trim()}
+            className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { createClient } from '@/lib/supabase/client';
+import { createGroceryList } from '@/lib/supabase/grocery-lists';
+import { Food, GroceryList, GroceryListSource, Recipe } from '@/lib/types';
+import { buildGroceryList, foodIngredient, groupByCategory, recipeIngredients } from '@/lib/utils/grocery';
+import { formatDateForDisplay } from '@/lib/utils/date';
+import Link from 'next/link';
+
+export default function GroceryListsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [lists, setLists] = useState<GroceryList[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [foods, setFoods] = useState<Food[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [building, setBuilding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [foodSearch, setFoodSearch] = useState('');
+  // Servings chosen for each selected recipe and food, by id
+  const [recipeServings, setRecipeServings] = useState<Record<string, number>>({});
+  const [foodServings, setFoodServings] = useState<Record<string, number>>({});
+  const supabase = createClient();
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [listsResult, recipesResult, foodsResult] = await Promise.all([
+        supabase
+          .from('grocery_lists')
+          .select(`
+            *,
+            grocery_list_items (id, checked)
+          `)
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('recipes')
+          .select(`
+            *,
+            recipe_items (*)
+          `)
+          .eq('user_id', user?.id)
+          .order('name'),
+        supabase.from('foods').select('*').eq('user_id', user?.id).order('name'),
+      ]);
+
+      if (listsResult.error) throw listsResult.error;
+      if (recipesResult.error) throw recipesResult.error;
+      if (foodsResult.error) throw foodsResult.error;
+
+      setLists(listsResult.data || []);
+      setRecipes(recipesResult.data || []);
+      setFoods(foodsResult.data || []);
+    } catch (err) {
+      console.error('Error fetching grocery lists:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startBuilding = () => {
+    setBuilding(true);
+    setName(`Groceries ${formatDateForDisplay(new Date())}`);
+    setRecipeServings({});
+    setFoodServings({});
+    setFoodSearch('');
+    setError(null);
+  };
+
+  const toggleRecipe = (recipe: Recipe) => {
+    setRecipeServings(prev => {
+      const next = { ...prev };
+      if (recipe.id in next) delete next[recipe.id];
+      else next[recipe.id] = recipe.servings;
+      return next;
+    });
+  };
+
+  const toggleFood = (food: Food) => {
+    setFoodServings(prev => {
+      const next = { ...prev };
+      if (food.id in next) delete next[food.id];
+      else next[food.id] = 1;
+      return next;
+    });
+  };
+
+  const selectedRecipes = recipes.filter(r => r.id in recipeServings);
+  const selectedFoods = foods.filter(f => f.id in foodServings);
+
+  const lines = buildGroceryList([
+    ...selectedRecipes.flatMap(recipe => recipeIngredients(recipe, recipeServings[recipe.id], foods)),
+    ...selectedFoods.map(food => foodIngredient(food, foodServings[food.id])),
+  ]);
+
+  const handleSave = async () => {
+    if (!user || !name.trim() || lines.length === 0) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const sources: GroceryListSource[] = [
+        ...selectedRecipes.map(r => ({ recipe_id: r.id, name: r.name, servings: recipeServings[r.id] })),
+        ...selectedFoods.map(f => ({ food_id: f.id, name: f.name, servings: foodServings[f.id] })),
+      ];
+      const list = await createGroceryList(supabase, user.id, name.trim(), sources, lines);
+      router.push(`/grocery/${list.id}`);
+    } catch (err) {
+      console.error('Error saving grocery list:', err);
+      setError('Failed to save list. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this list?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('grocery_lists')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setLists(prev => prev.filter(l => l.id !== id));
+    } catch (err) {
+      console.error('Error deleting grocery list:', err);
+      alert('Failed to delete list');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Grocery Lists</h1>
+          <p className="mt-1 text-zinc-600">Build a shopping list from your recipes and foods</p>
+        </div>
+
+        <button
+          onClick={() => (building ? setBuilding(false) : startBuilding())}
+          className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
+        >
+          {building ? 'Cancel' : '+ New List'}
+        </button>
+      </div>
+
+      {building && (
+        <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-5">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-zinc-900">List Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div>
+              <h2 className="text-sm font-medium text-zinc-900 mb-2">Recipes</h2>
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {recipes.length === 0 ? (
+                  <p className="text-sm text-zinc-500">No recipes yet.</p>
+                ) : (
+                  recipes.map(recipe => {
+                    const selected = recipe.id in recipeServings;
+                    return (
+                      <div
+                        key={recipe.id}
+                        className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${
+                          selected ? 'border-pink-300 bg-pink-50' : 'border-zinc-200'
+                        }`}
+                      >
+                        <label className="flex flex-1 items-center gap-2 text-sm">
+                          <input type="checkbox" checked={selected} onChange={() => toggleRecipe(recipe)} />
+                          {recipe.name}
+                        </label>
+                        {selected && (
+                          <label className="flex items-center gap-1 text-xs text-zinc-600">
+                            <input
+                              type="number"
+                              min="1"
+                              step="1"
+                              value={recipeServings[recipe.id]}
+                              onChange={(e) => setRecipeServings(prev => ({ ...prev, [recipe.id]: parseFloat(e.target.value) || 1 }))}
+                              className="w-16 rounded-md border border-zinc-300 px-2 py-1 text-sm"
+                            />
+                            servings
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-sm font-medium text-zinc-900 mb-2">Foods</h2>
+              <input
+                type="text"
+                placeholder="Search foods..."
+                value={foodSearch}
+                onChange={(e) => setFoodSearch(e.target.value)}
+                className="mb-2 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+              />
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {foods
+                  .filter(food => food.id in foodServings || food.name.toLowerCase().includes(foodSearch.toLowerCase()))
+                  .map(food => {
+                    const selected = food.id in foodServings;
+                    return (
+                      <div
+                        key={food.id}
+                        className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${
+                          selected ? 'border-pink-300 bg-pink-50' : 'border-zinc-200'
+                        }`}
+                      >
+                        <label className="flex flex-1 items-center gap-2 text-sm">
+                          <input type="checkbox" checked={selected} onChange={() => toggleFood(food)} />
+                          {food.name}
+                          <span className="text-xs text-zinc-500">({food.default_amount})</span>
+                        </label>
+                        {selected && (
+                          <label className="flex items-center gap-1 text-xs text-zinc-600">
+                            ×
+                            <input
+                              type="number"
+                              min="0.25"
+                              step="0.25"
+                              value={foodServings[food.id]}
+                              onChange={(e) => setFoodServings(prev => ({ ...prev, [food.id]: parseFloat(e.target.value) || 1 }))}
+                              className="w-16 rounded-md border border-zinc-300 px-2 py-1 text-sm"
+                            />
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })}
+              </div>
+            </div>
+          </div>
+
+          <div className="border-t border-zinc-200 pt-4">
+            <h2 className="text-sm font-medium text-zinc-900 mb-2">Preview</h2>
+            {lines.length === 0 ? (
+              <p className="text-sm text-zinc-500">Select recipes or foods to build the list.</p>
+            ) : (
+              <div className="space-y-3">
+                {groupByCategory(lines).map(({ category, label, items }) => (
+                  <div key={category}>
+                    <p className="text-xs font-medium uppercase text-zinc-500">{label}</p>
+                    <ul className="mt-1 space-y-1 text-sm">
+                      {items.map(line => (
+                        <li key={line.name} className="flex justify-between gap-3">
+                          <span>{line.name}</span>
+                          <span className="text-zinc-600">{line.amount}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim() || lines.length === 0}
+            className="w-full rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save List'}
+          </button>
+        </div>
+      )}
+
+      {lists.length === 0 ? (
+        !building && (
+          <div className="rounded-lg border border-zinc-200 bg-white p-12 text-center">
+            <p className="text-zinc-600">No grocery lists yet. Create your first list!</p>
+          </div>
+        )
+      ) : (
+        <div className="space-y-2">
+          {lists.map(list => {
+            const items = list.grocery_list_items || [];
+            const checked = items.filter(item => item.checked).length;
+            return (
+              <div
+                key={list.id}
+                className="flex items-center justify-between rounded-lg border border-zinc-200 bg-white p-4"
+              >
+                <Link href={`/grocery/${list.id}`} className="flex-1 hover:text-pink-600">
+                  <p className="font-medium">{list.name}</p>
+                  <p className="text-sm text-zinc-500">
+                    {checked} of {items.length} items checked
+                  </p>
+                </Link>
+                <button
+                  onClick={() => handleDelete(list.id)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Delete
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
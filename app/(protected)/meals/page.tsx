@@ -2,27 +2,24 @@
 
 import { useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { useAuth } from '@/lib/contexts/auth-context';
+import { useViewedUser } from '@/lib/contexts/client-view-context';
 import { createClient } from '@/lib/supabase/client';
-import { Meal, MealType, DailyLog, DailyGoals } from '@/lib/types';
-import { formatDateForDB, formatDateFull, getWeekStart } from '@/lib/utils/date';
+import { Meal, MealType, DailyLog, DailyGoals, DietitianNote, DayLockEvent, MEAL_TYPES } from '@/lib/types';
+import { formatDateForDB, formatDateFull } from '@/lib/utils/date';
+import { copyMealsToDate, findDailyLog, findOrCreateDailyLog } from '@/lib/supabase/daily-logs';
 import { addDays } from 'date-fns';
 import { MealSection } from '@/components/meal-section';
-import { calculateDailyTotals } from '@/lib/utils/nutrition';
-
-const MEAL_TYPES: { type: MealType; label: string }[] = [
-  { type: 'breakfast', label: 'Breakfast' },
-  { type: 'lunch', label: 'Lunch' },
-  { type: 'snack', label: 'Snack' },
-  { type: 'dinner', label: 'Dinner' },
-  { type: 'bt_snack', label: 'Bedtime Snack' },
-];
+import { NoteThreadPopover } from '@/components/note-thread-popover';
+import { CopyToDateForm } from '@/components/copy-to-date-form';
+import { MealSuggestions } from '@/components/meal-suggestions';
+import { MICRONUTRIENTS } from '@/lib/utils/nutrition';
+import { getRemainingMacros } from '@/lib/utils/meal-suggestions';
 
 export default function MealsPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const dateParam = searchParams.get('date');
-  const { user } = useAuth();
+  const { userId, readOnly, basePath } = useViewedUser();
   const initialDate = dateParam || formatDateForDB(new Date());
   const [selectedDate, setSelectedDate] = useState(initialDate);
   const [pendingDate, setPendingDate] = useState(initialDate);
@@ -30,142 +27,114 @@ export default function MealsPage() {
   const [meals, setMeals] = useState<Meal[]>([]);
   const [loading, setLoading] = useState(true);
   const [dailyGoals, setDailyGoals] = useState<DailyGoals | null>(null);
+  const [notes, setNotes] = useState<DietitianNote[]>([]);
+  const [dietitianUnlockOnly, setDietitianUnlockOnly] = useState(false);
+  const [lastLockEvent, setLastLockEvent] = useState<DayLockEvent | null>(null);
+  const [lockError, setLockError] = useState<string | null>(null);
+  // Meals being copied to another date (one meal, or the whole day)
+  const [copySource, setCopySource] = useState<{ title: string; meals: Meal[] } | null>(null);
+  const [copiedTo, setCopiedTo] = useState<{ date: string; count: number } | null>(null);
   const supabase = createClient();
 
   useEffect(() => {
-    if (user?.id) {
+    if (userId) {
       supabase
         .from('user_profiles')
         .select('daily_goals')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .single()
         .then(({ data }) => {
           if (data?.daily_goals) setDailyGoals(data.daily_goals);
         });
+
+      supabase
+        .from('dietitian_clients')
+        .select('dietitian_unlock_only')
+        .eq('client_id', userId)
+        .eq('status', 'active')
+        .maybeSingle()
+        .then(({ data }) => {
+          setDietitianUnlockOnly(data?.dietitian_unlock_only ?? false);
+        });
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLockError(null);
+    if (dailyLog?.id) {
+      fetchLastLockEvent(dailyLog.id);
+    } else {
+      setLastLockEvent(null);
     }
-  }, [user?.id]);
+  }, [dailyLog?.id]);
 
   const applyDate = (date?: string) => {
     const newDate = date || pendingDate;
     if (newDate && newDate !== selectedDate) {
       setSelectedDate(newDate);
       setPendingDate(newDate);
-      router.replace(`/meals?date=${newDate}`, { scroll: false });
+      router.replace(`${basePath}/meals?date=${newDate}`, { scroll: false });
     }
   };
 
   useEffect(() => {
-    if (user && selectedDate) {
+    if (userId && selectedDate) {
       // Keep URL in sync so refresh stays on this date
       if (searchParams.get('date') !== selectedDate) {
-        router.replace(`/meals?date=${selectedDate}`, { scroll: false });
+        router.replace(`${basePath}/meals?date=${selectedDate}`, { scroll: false });
       }
       fetchDayData();
+      fetchNotes();
     }
-  }, [user, selectedDate]);
-
-  const findOrCreateWeek = async () => {
-    const weekStartDate = getWeekStart(new Date(selectedDate + 'T00:00:00'));
-    const weekStartStr = formatDateForDB(weekStartDate);
-    const weekEndStr = formatDateForDB(addDays(weekStartDate, 6));
-
-    // Try exact start_date match first
-    const { data: exactWeek } = await supabase
-      .from('weeks')
-      .select('*')
-      .eq('user_id', user?.id)
-      .eq('start_date', weekStartStr)
-      .single();
-
-    if (exactWeek) return exactWeek;
+  }, [userId, selectedDate]);
+
+  const fetchNotes = async () => {
+    const { data, error } = await supabase
+      .from('dietitian_notes')
+      .select('*, note_replies(*)')
+      .eq('client_id', userId)
+      .eq('log_date', selectedDate)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching notes:', error);
+      return;
+    }
+    setNotes(data || []);
+  };
 
-    // Try range match (handles weeks created with different start day)
-    const { data: rangeWeek } = await supabase
-      .from('weeks')
+  const fetchLastLockEvent = async (dailyLogId: string) => {
+    const { data, error } = await supabase
+      .from('day_lock_events')
       .select('*')
-      .eq('user_id', user?.id)
-      .lte('start_date', selectedDate)
-      .gte('end_date', selectedDate)
-      .single();
-
-    if (rangeWeek) return rangeWeek;
-
-    // Create new week
-    const { data: newWeek, error: createError } = await supabase
-      .from('weeks')
-      .insert({
-        user_id: user?.id,
-        start_date: weekStartStr,
-        end_date: weekEndStr,
-      })
-      .select()
-      .single();
-
-    if (createError) {
-      // Race condition: another call already created it — re-fetch
-      if (createError.code === '23505') {
-        const { data: existingWeek } = await supabase
-          .from('weeks')
-          .select('*')
-          .eq('user_id', user?.id)
-          .eq('start_date', weekStartStr)
-          .single();
-        if (existingWeek) return existingWeek;
-      }
-      throw createError;
+      .eq('daily_log_id', dailyLogId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching lock history:', error);
+      return;
     }
-    return newWeek;
+    setLastLockEvent(data);
   };
 
   const fetchDayData = async () => {
     setLoading(true);
     try {
       // 1. Look up existing daily log first (most reliable — keyed by user_id + log_date)
-      let { data: log, error: logError } = await supabase
-        .from('daily_logs')
-        .select('*')
-        .eq('user_id', user?.id)
-        .eq('log_date', selectedDate)
-        .single();
+      let log = await findDailyLog(supabase, userId!, selectedDate);
 
-      if (logError && logError.code !== 'PGRST116') throw logError;
+      // Read-only viewers never create logs on the client's behalf
+      if (!log && readOnly) {
+        setDailyLog(null);
+        setMeals([]);
+        return;
+      }
 
       // 2. Create daily log only if none exists
       if (!log) {
-        const week = await findOrCreateWeek();
-
-        const { data: newLog, error: createError } = await supabase
-          .from('daily_logs')
-          .insert({
-            week_id: week.id,
-            user_id: user?.id,
-            log_date: selectedDate,
-            total_calories: 0,
-            total_carbs: 0,
-            total_fat: 0,
-            total_fiber: 0,
-            total_protein: 0,
-            water_intake: 0,
-          })
-          .select()
-          .single();
-
-        if (createError) {
-          // Race condition: another call already created it — just re-fetch
-          if (createError.code === '23505') {
-            const { data: existingLog } = await supabase
-              .from('daily_logs')
-              .select('*')
-              .eq('user_id', user?.id)
-              .eq('log_date', selectedDate)
-              .single();
-            log = existingLog;
-          } else {
-            throw createError;
-          }
-        } else {
-          log = newLog;
-        }
+        log = await findOrCreateDailyLog(supabase, userId!, selectedDate);
       }
 
       setDailyLog(log);
@@ -190,142 +159,128 @@ export default function MealsPage() {
     }
   };
 
-  const updateDailyTotals = async () => {
+  // Totals are maintained by database triggers; read them back with the meals
+  const refreshMealsAndTotals = async () => {
     if (!dailyLog) return;
 
     try {
       // Fetch all meals with items (no loading spinner — avoids scroll jump)
-      const { data: mealsData, error } = await supabase
-        .from('meals')
-        .select(`
-          *,
-          meal_items (*)
-        `)
-        .eq('daily_log_id', dailyLog.id)
-        .order('meal_order');
+      const [mealsResult, logResult] = await Promise.all([
+        supabase
+          .from('meals')
+          .select(`
+            *,
+            meal_items (*)
+          `)
+          .eq('daily_log_id', dailyLog.id)
+          .order('meal_order'),
+        supabase
+          .from('daily_logs')
+          .select('*')
+          .eq('id', dailyLog.id)
+          .single(),
+      ]);
 
-      if (error) throw error;
-
-      const freshMeals = mealsData || [];
-      const totals = calculateDailyTotals(freshMeals);
-
-      // Update local state without triggering loading spinner
-      setMeals(freshMeals);
-      setDailyLog({
-        ...dailyLog,
-        total_calories: totals.calories,
-        total_carbs: totals.carbs,
-        total_fat: totals.fat,
-        total_fiber: totals.fiber,
-        total_protein: totals.protein,
-        water_intake: totals.water,
-      });
+      if (mealsResult.error) throw mealsResult.error;
+      if (logResult.error) throw logResult.error;
 
-      // Persist totals to DB in background
-      supabase
-        .from('daily_logs')
-        .update({
-          total_calories: totals.calories,
-          total_carbs: totals.carbs,
-          total_fat: totals.fat,
-          total_fiber: totals.fiber,
-          total_protein: totals.protein,
-          water_intake: totals.water,
-        })
-        .eq('id', dailyLog.id)
-        .then(({ error: updateError }) => {
-          if (updateError) console.error('Error updating daily totals:', updateError);
-        });
+      setMeals(mealsResult.data || []);
+      setDailyLog(logResult.data);
     } catch (err) {
-      console.error('Error updating daily totals:', err);
-    }
-  };
-
-  const recalcAndUpdateTotals = (updatedMeals: Meal[]) => {
-    const totals = calculateDailyTotals(updatedMeals);
-    setMeals(updatedMeals);
-
-    if (dailyLog) {
-      setDailyLog({
-        ...dailyLog,
-        total_calories: totals.calories,
-        total_carbs: totals.carbs,
-        total_fat: totals.fat,
-        total_fiber: totals.fiber,
-        total_protein: totals.protein,
-        water_intake: totals.water,
-      });
-
-      // Persist totals to DB in background
-      supabase
-        .from('daily_logs')
-        .update({
-          total_calories: totals.calories,
-          total_carbs: totals.carbs,
-          total_fat: totals.fat,
-          total_fiber: totals.fiber,
-          total_protein: totals.protein,
-          water_intake: totals.water,
-        })
-        .eq('id', dailyLog.id)
-        .then(({ error }) => {
-          if (error) console.error('Error updating daily totals:', error);
-        });
+      console.error('Error refreshing daily totals:', err);
     }
   };
 
   const handleDeleteItem = (mealId: string, itemId: string) => {
-    const updatedMeals = meals.map(meal => {
+    setMeals(prev => prev.map(meal => {
       if (meal.id !== mealId) return meal;
       return {
         ...meal,
         meal_items: (meal.meal_items || []).filter(item => item.id !== itemId),
       };
-    });
-    recalcAndUpdateTotals(updatedMeals);
+    }));
   };
 
   const handleDeleteMeal = (mealId: string) => {
-    const updatedMeals = meals.filter(meal => meal.id !== mealId);
-    recalcAndUpdateTotals(updatedMeals);
+    setMeals(prev => prev.filter(meal => meal.id !== mealId));
   };
 
   const handleAddMealToState = (newMeal: Meal) => {
     setMeals(prev => [...prev, newMeal]);
   };
 
-  const toggleLock = () => {
+  const toggleLock = async () => {
     if (!dailyLog) return;
+    const previousLog = dailyLog;
     const newLocked = !dailyLog.is_locked;
     setDailyLog({ ...dailyLog, is_locked: newLocked });
+    setLockError(null);
 
-    supabase
-      .from('daily_logs')
-      .update({ is_locked: newLocked })
-      .eq('id', dailyLog.id)
-      .then(({ error }) => {
-        if (error) console.error('Error toggling lock:', error);
-      });
+    // The database enforces who may unlock and records the change
+    const { data, error } = await supabase.rpc('set_daily_log_lock', {
+      p_daily_log_id: dailyLog.id,
+      p_locked: newLocked,
+    });
+
+    if (error) {
+      console.error('Error toggling lock:', error);
+      setDailyLog(previousLog);
+      setLockError(error.message);
+      return;
+    }
+
+    setDailyLog(data);
+    fetchLastLockEvent(dailyLog.id);
   };
 
   const isLocked = dailyLog?.is_locked ?? false;
+  // The rule also sticks to days locked while it applied
+  const needsDietitianUnlock = isLocked && (dietitianUnlockOnly || !!dailyLog?.unlock_dietitian_id);
+  // Dietitians may only unlock; clients may not unlock when their dietitian requires it
+  const canToggleLock = readOnly ? isLocked : !needsDietitianUnlock;
+
+  const getLockActorLabel = (actorId: string | null) => {
+    if (!actorId) return null;
+    if (actorId === userId) return readOnly ? 'client' : 'you';
+    return readOnly ? 'you' : 'your dietitian';
+  };
 
   const updateWaterIntake = (newAmount: number) => {
     if (!dailyLog || newAmount < 0) return;
-    const rounded = Math.round(newAmount * 10) / 10;
 
-    setDailyLog({ ...dailyLog, water_intake: rounded });
+    // Water from meal items is fixed here; only the hand-logged part changes
+    const itemWater = dailyLog.water_intake - (dailyLog.extra_water || 0);
+    const extraWater = Math.max(Math.round((newAmount - itemWater) * 10) / 10, 0);
 
-    // Persist to DB in background
+    setDailyLog({ ...dailyLog, water_intake: itemWater + extraWater, extra_water: extraWater });
+
+    // Persist to DB in background and read back the total the database keeps
     supabase
       .from('daily_logs')
-      .update({ water_intake: rounded })
+      .update({ extra_water: extraWater })
       .eq('id', dailyLog.id)
-      .then(({ error }) => {
+      .select()
+      .single()
+      .then(({ data, error }) => {
         if (error) console.error('Error updating water intake:', error);
+        else if (data) setDailyLog(data);
       });
   };
 
+  const handleCopyMeals = async (targetDate: string) => {
+    if (!copySource) return;
+    const count = await copyMealsToDate(supabase, userId!, copySource.meals, targetDate);
+
+    setCopySource(null);
+    setCopiedTo({ date: targetDate, count });
+    if (targetDate === selectedDate) await refreshMealsAndTotals();
+  };
+
+  const startCopy = (title: string, mealsToCopy: Meal[]) => {
+    setCopiedTo(null);
+    setCopySource({ title, meals: mealsToCopy });
+  };
+
   const getMealsForType = (mealType: MealType) => {
     return meals.filter(meal => meal.meal_type === mealType);
   };
@@ -368,23 +323,103 @@ export default function MealsPage() {
       {dailyLog && (
         <div className="flex items-center justify-between rounded-lg border border-zinc-200 bg-white px-4 py-3">
           <div className="flex items-center gap-3">
-            <span className={`text-sm font-medium ${isLocked ? 'text-green-700' : 'text-zinc-500'}`}>
-              {isLocked ? 'Day Locked' : 'Done Logging?'}
-            </span>
+            <div>
+              <span className={`text-sm font-medium ${isLocked ? 'text-green-700' : 'text-zinc-500'}`}>
+                {isLocked ? 'Day Locked' : readOnly ? 'Still logging' : 'Done Logging?'}
+              </span>
+              {lastLockEvent && (
+                <p className="text-xs text-zinc-500">
+                  {lastLockEvent.action === 'locked' ? 'Locked' : 'Unlocked'}
+                  {getLockActorLabel(lastLockEvent.actor_id) && ` by ${getLockActorLabel(lastLockEvent.actor_id)}`}
+                  {' · '}
+                  {new Date(lastLockEvent.created_at).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </p>
+              )}
+              {!readOnly && needsDietitianUnlock && (
+                <p className="text-xs text-zinc-500">Only your dietitian can unlock this day</p>
+              )}
+              {lockError && <p className="text-xs text-red-600">{lockError}</p>}
+            </div>
+            {userId && (
+              <NoteThreadPopover
+                clientId={userId}
+                notes={notes.filter((n) => !n.meal_id)}
+                reference={{ log_date: selectedDate, meal_id: null, meal_item_id: null }}
+                defaultTitle={formatDateFull(selectedDate)}
+                onChange={fetchNotes}
+                align="left"
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            {!readOnly && meals.length > 0 && (
+              <button
+                type="button"
+                onClick={() => startCopy(`Copy all of ${formatDateFull(selectedDate)} to…`, meals)}
+                className="text-sm text-zinc-600 hover:text-pink-500 transition-colors"
+              >
+                Copy day to…
+              </button>
+            )}
+            {canToggleLock && (
+              <button
+                type="button"
+                onClick={toggleLock}
+                title={isLocked ? 'Unlock day' : 'Lock day'}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  isLocked ? 'bg-green-500' : 'bg-zinc-300'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    isLocked ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            )}
           </div>
-          <button
-            type="button"
-            onClick={toggleLock}
-            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-              isLocked ? 'bg-green-500' : 'bg-zinc-300'
-            }`}
-          >
-            <span
-              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                isLocked ? 'translate-x-6' : 'translate-x-1'
-              }`}
-            />
-          </button>
+        </div>
+      )}
+
+      {copySource && (
+        <CopyToDateForm
+          title={copySource.title}
+          defaultDate={formatDateForDB(addDays(new Date(selectedDate + 'T00:00:00'), 1))}
+          onCopy={handleCopyMeals}
+          onCancel={() => setCopySource(null)}
+        />
+      )}
+
+      {copiedTo && (
+        <div className="flex items-center justify-between rounded-md bg-green-50 p-3 text-sm text-green-700">
+          <span>
+            Copied {copiedTo.count} {copiedTo.count === 1 ? 'meal' : 'meals'} to {formatDateFull(copiedTo.date)}
+          </span>
+          <div className="flex items-center gap-3">
+            {copiedTo.date !== selectedDate && (
+              <button
+                type="button"
+                onClick={() => { applyDate(copiedTo.date); setCopiedTo(null); }}
+                className="font-medium hover:text-green-900"
+              >
+                Go to day →
+              </button>
+            )}
+            <button type="button" onClick={() => setCopiedTo(null)} className="hover:text-green-900">
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!dailyLog && readOnly && (
+        <div className="rounded-lg border border-zinc-200 bg-white p-6">
+          <p className="text-center text-zinc-500">No meals logged for this day</p>
         </div>
       )}
 
@@ -420,29 +455,79 @@ export default function MealsPage() {
               );
             })}
           </div>
+          <div className="mt-4 grid grid-cols-2 gap-4 border-t border-zinc-100 pt-4 text-sm md:grid-cols-5">
+            {MICRONUTRIENTS.map(({ key, label, unit, isLimit }) => {
+              const value = Number(dailyLog[`total_${key}` as const]) || 0;
+              const goal = dailyGoals?.[key];
+              // Only limits (sodium, sugar, ...) are flagged when exceeded
+              const isOver = isLimit && goal != null && value > goal;
+              const progress = goal ? Math.min((value / goal) * 100, 100) : 0;
+              return (
+                <div key={key}>
+                  <p className="text-zinc-600">{label}</p>
+                  <p className={isOver ? 'font-bold text-red-600' : 'font-semibold'}>
+                    {value}{unit}
+                    {goal != null && (
+                      <span className="ml-1 text-xs font-normal text-zinc-500">
+                        / {goal}{unit}{isLimit ? ' max' : ''}
+                      </span>
+                    )}
+                  </p>
+                  {goal != null && (
+                    <div className="mt-1 h-1.5 w-full rounded-full bg-zinc-100">
+                      <div
+                        className={`h-1.5 rounded-full ${isOver ? 'bg-red-500' : 'bg-zinc-400'}`}
+                        style={{ width: `${progress}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
         </div>
       )}
 
+      {userId && dailyGoals && !readOnly && !isLocked && (
+        <MealSuggestions
+          key={selectedDate}
+          userId={userId}
+          remaining={getRemainingMacros(dailyGoals, {
+            calories: dailyLog?.total_calories,
+            protein: dailyLog?.total_protein,
+            carbs: dailyLog?.total_carbs,
+            fat: dailyLog?.total_fat,
+            fiber: dailyLog?.total_fiber,
+          })}
+        />
+      )}
+
       <div className="space-y-6">
-        {MEAL_TYPES.map(({ type, label }) => (
+        {(dailyLog || !readOnly) && MEAL_TYPES.map(({ type, label }) => (
           <MealSection
             key={type}
             mealType={type}
             mealLabel={label}
             meals={getMealsForType(type)}
             dailyLogId={dailyLog?.id || ''}
-            onUpdate={updateDailyTotals}
+            onUpdate={refreshMealsAndTotals}
             onDeleteItem={handleDeleteItem}
             onDeleteMeal={handleDeleteMeal}
             onAddMeal={handleAddMealToState}
-            isLocked={isLocked}
+            isLocked={isLocked || readOnly}
+            clientId={userId}
+            logDate={dailyLog ? selectedDate : undefined}
+            notes={notes}
+            onNotesChange={fetchNotes}
+            onCopyMeal={readOnly ? undefined : (meal) => startCopy(`Copy this ${label.toLowerCase()} to…`, [meal])}
+            canSaveTemplates={!readOnly}
           />
         ))}
 
         {dailyLog && (
           <div className="rounded-lg border border-zinc-200 bg-white p-4">
             <h3 className="font-semibold mb-3">Water Intake</h3>
-            {isLocked ? (
+            {isLocked || readOnly ? (
               <p className="text-sm text-zinc-600">{dailyLog.water_intake} oz</p>
             ) : (
               <>
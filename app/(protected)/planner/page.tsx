@@ -0,0 +1,376 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useViewedUser } from '@/lib/contexts/client-view-context';
+import { createClient } from '@/lib/supabase/client';
+import { addPlanEntry, logPlanEntry, planFood, planRecipe, planTemplate, PlannedItem } from '@/lib/supabase/meal-plans';
+import { Food, MEAL_TYPES, MealPlanEntry, MealTemplate, MealType, Recipe } from '@/lib/types';
+import {
+  getWeekStart,
+  getDaysInWeek,
+  formatDateForDB,
+  formatDateForDisplay,
+  getShortDayName,
+  getWeekRangeString,
+} from '@/lib/utils/date';
+import { roundNutrients, sumNutrients } from '@/lib/utils/nutrition';
+import { addDays, format, subDays } from 'date-fns';
+import Link from 'next/link';
+
+type PlanSource = 'food' | 'recipe' | 'template';
+
+const PLAN_SOURCES: { source: PlanSource; label: string }[] = [
+  { source: 'recipe', label: '📖 Recipes' },
+  { source: 'food', label: '🍎 Foods' },
+  { source: 'template', label: '📋 Templates' },
+];
+
+export default function PlannerPage() {
+  const { userId, readOnly, basePath } = useViewedUser();
+  const [currentWeekStart, setCurrentWeekStart] = useState(getWeekStart());
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [foods, setFoods] = useState<Food[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The day and meal being planned, while the picker is open
+  const [addTarget, setAddTarget] = useState<{ date: string; mealType: MealType } | null>(null);
+  const [addSource, setAddSource] = useState<PlanSource>('recipe');
+  const [search, setSearch] = useState('');
+  const [servings, setServings] = useState(1);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const days = getDaysInWeek(currentWeekStart);
+
+  useEffect(() => {
+    if (userId) {
+      fetchEntries();
+    }
+  }, [userId, currentWeekStart]);
+
+  useEffect(() => {
+    if (userId && !readOnly) {
+      fetchPlannable();
+    }
+  }, [userId, readOnly]);
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('meal_plan_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('plan_date', formatDateForDB(days[0]))
+        .lte('plan_date', formatDateForDB(days[6]))
+        .order('order');
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (err) {
+      console.error('Error fetching meal plan:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPlannable = async () => {
+    try {
+      const [foodsResult, recipesResult, templatesResult] = await Promise.all([
+        supabase.from('foods').select('*').eq('user_id', userId).order('name'),
+        supabase.from('recipes').select('*').eq('user_id', userId).order('name'),
+        supabase
+          .from('meal_templates')
+          .select(`
+            *,
+            meal_template_items (*)
+          `)
+          .eq('user_id', userId)
+          .order('name'),
+      ]);
+
+      if (foodsResult.error) throw foodsResult.error;
+      if (recipesResult.error) throw recipesResult.error;
+      if (templatesResult.error) throw templatesResult.error;
+
+      setFoods(foodsResult.data || []);
+      setRecipes(recipesResult.data || []);
+      setTemplates(templatesResult.data || []);
+    } catch (err) {
+      console.error('Error fetching foods, recipes and templates:', err);
+    }
+  };
+
+  const openPicker = (date: string, mealType: MealType) => {
+    setAddTarget({ date, mealType });
+    setSearch('');
+    setServings(1);
+    setError(null);
+  };
+
+  const handleAdd = async (item: PlannedItem) => {
+    if (!addTarget) return;
+    setError(null);
+
+    try {
+      const entry = await addPlanEntry(supabase, userId!, addTarget.date, addTarget.mealType, item);
+      setEntries(prev => [...prev, entry]);
+      setAddTarget(null);
+    } catch (err) {
+      console.error('Error adding to meal plan:', err);
+      setError('Failed to add to plan. Please try again.');
+    }
+  };
+
+  const handleLog = async (entry: MealPlanEntry) => {
+    setBusyId(entry.id);
+    setError(null);
+
+    try {
+      const logged = await logPlanEntry(supabase, entry);
+      setEntries(prev => prev.map(e => (e.id === logged.id ? logged : e)));
+    } catch (err) {
+      console.error('Error logging planned entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to log entry. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    // Optimistically remove from UI immediately
+    setEntries(prev => prev.filter(e => e.id !== id));
+
+    try {
+      const { error } = await supabase
+        .from('meal_plan_entries')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Error removing planned entry:', err);
+      await fetchEntries();
+    }
+  };
+
+  const getEntries = (date: string, mealType: MealType) =>
+    entries.filter(e => e.plan_date === date && e.meal_type === mealType);
+
+  const matchesSearch = (name: string) => name.toLowerCase().includes(search.trim().toLowerCase());
+
+  const getPlannableItems = (): { key: string; name: string; detail: string; item: PlannedItem }[] => {
+    if (addSource === 'food') {
+      return foods.filter(f => matchesSearch(f.name)).map(food => {
+        const item = planFood(food, servings);
+        return { key: food.id, name: food.name, detail: `${item.amount} • ${item.calories} cal`, item };
+      });
+    }
+    if (addSource === 'recipe') {
+      return recipes.filter(r => matchesSearch(r.name)).map(recipe => {
+        const item = planRecipe(recipe, servings);
+        return { key: recipe.id, name: recipe.name, detail: `${item.amount} • ${item.calories} cal`, item };
+      });
+    }
+    return templates.filter(t => matchesSearch(t.name)).map(template => {
+      const item = planTemplate(template);
+      const count = template.meal_template_items?.length || 0;
+      return { key: template.id, name: template.name, detail: `${count} item${count !== 1 ? 's' : ''} • ${item.calories} cal`, item };
+    });
+  };
+
+  if (loading) {
+    return <div className="text-center">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Meal Planner</h1>
+          <p className="mt-1 text-zinc-600">
+            {getWeekRangeString(currentWeekStart)}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => setCurrentWeekStart(prev => subDays(prev, 7))}
+            className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setCurrentWeekStart(getWeekStart())}
+            className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setCurrentWeekStart(prev => addDays(prev, 7))}
+            className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {addTarget && (
+        <div className="rounded-lg border border-pink-200 bg-pink-50 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-zinc-900">
+              Plan {MEAL_TYPES.find(m => m.type === addTarget.mealType)?.label.toLowerCase()} for {formatDateForDisplay(addTarget.date)}
+            </p>
+            <button
+              type="button"
+              onClick={() => setAddTarget(null)}
+              className="text-sm text-zinc-600 hover:text-zinc-900"
+            >
+              Cancel
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {PLAN_SOURCES.map(({ source, label }) => (
+              <button
+                key={source}
+                type="button"
+                onClick={() => setAddSource(source)}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                  addSource === source
+                    ? 'bg-zinc-900 text-white'
+                    : 'border border-zinc-300 bg-white text-zinc-700 hover:bg-zinc-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search..."
+              className="flex-1 min-w-[8rem] rounded-md border border-zinc-300 bg-white px-3 py-1.5 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+            />
+            {addSource !== 'template' && (
+              <label className="flex items-center gap-2 text-sm text-zinc-700">
+                Servings
+                <input
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={servings}
+                  onChange={(e) => setServings(parseFloat(e.target.value) || 1)}
+                  className="w-20 rounded-md border border-zinc-300 bg-white px-2 py-1.5 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {getPlannableItems().length === 0 ? (
+              <p className="text-sm text-zinc-500">Nothing to plan here yet.</p>
+            ) : (
+              getPlannableItems().map(({ key, name, detail, item }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => handleAdd(item)}
+                  className="w-full text-left rounded-lg border border-zinc-200 bg-white p-3 hover:bg-zinc-50"
+                >
+                  <p className="font-medium text-zinc-900">{name}</p>
+                  <p className="text-xs text-zinc-500 mt-1">{detail}</p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-zinc-200 bg-white">
+        <table className="w-full min-w-[56rem] table-fixed text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200">
+              <th className="w-28 p-3" />
+              {days.map(date => {
+                const dateString = formatDateForDB(date);
+                const planned = roundNutrients(sumNutrients(entries.filter(e => e.plan_date === dateString)));
+                return (
+                  <th key={dateString} className="p-3 text-left font-medium">
+                    <Link href={`${basePath}/meals?date=${dateString}`} className="hover:text-pink-500">
+                      {getShortDayName(date)} <span className="text-zinc-500 font-normal">{format(date, 'MMM d')}</span>
+                    </Link>
+                    <p className="text-xs font-normal text-zinc-500">{planned.calories} cal planned</p>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {MEAL_TYPES.map(({ type, label }) => (
+              <tr key={type} className="border-b border-zinc-100 last:border-0 align-top">
+                <th className="p-3 text-left font-medium text-zinc-700">{label}</th>
+                {days.map(date => {
+                  const dateString = formatDateForDB(date);
+                  return (
+                    <td key={dateString} className="p-2 space-y-1">
+                      {getEntries(dateString, type).map(entry => (
+                        <div
+                          key={entry.id}
+                          className={`rounded p-2 text-xs ${entry.logged_meal_id ? 'bg-green-50' : 'bg-zinc-50'}`}
+                        >
+                          <div className="flex items-start justify-between gap-1">
+                            <p className="font-medium text-zinc-900 break-words">{entry.name}</p>
+                            {!readOnly && !entry.logged_meal_id && (
+                              <button
+                                onClick={() => handleRemove(entry.id)}
+                                title="Remove from plan"
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                ×
+                              </button>
+                            )}
+                          </div>
+                          <p className="text-zinc-500">
+                            {entry.amount ? `${entry.amount} • ` : ''}{entry.calories} cal
+                          </p>
+                          {entry.logged_meal_id ? (
+                            <p className="mt-1 text-green-700">✓ Logged</p>
+                          ) : !readOnly && (
+                            <button
+                              onClick={() => handleLog(entry)}
+                              disabled={busyId === entry.id}
+                              className="mt-1 text-pink-600 hover:text-pink-700 disabled:opacity-50"
+                            >
+                              {busyId === entry.id ? 'Logging...' : 'Log as eaten'}
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      {!readOnly && (
+                        <button
+                          onClick={() => openPicker(dateString, type)}
+                          className="w-full rounded text-xs text-zinc-500 hover:bg-pink-50 hover:text-pink-600 py-1 transition-colors"
+                        >
+                          + Plan
+                        </button>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
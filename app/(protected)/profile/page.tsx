@@ -7,6 +7,10 @@ import * as z from 'zod';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { createClient } from '@/lib/supabase/client';
 import { DailyGoals, UserProfile } from '@/lib/types';
+import { DietitianAssignments } from '@/components/dietitian-assignments';
+import { MICRONUTRIENTS } from '@/lib/utils/nutrition';
+
+const optionalGoal = z.number().min(0, 'Goal must be positive').nullable().optional();
 
 const dailyGoalsSchema = z.object({
   calories: z.number().min(0, 'Calories must be positive'),
@@ -15,6 +19,11 @@ const dailyGoalsSchema = z.object({
   fat: z.number().min(0, 'Fat must be positive'),
   fiber: z.number().min(0, 'Fiber must be positive'),
   water: z.number().min(0, 'Water must be positive'),
+  sodium: optionalGoal,
+  sugar: optionalGoal,
+  saturated_fat: optionalGoal,
+  potassium: optionalGoal,
+  cholesterol: optionalGoal,
 });
 
 const profileInfoSchema = z.object({
@@ -295,6 +304,8 @@ export default function ProfilePage() {
         </form>
       </div>
 
+      {profile && <DietitianAssignments profile={profile} />}
+
       <div className="rounded-lg border border-zinc-200 bg-white p-6">
         <h2 className="text-lg font-semibold mb-4">Daily Nutrition Goals</h2>
 
@@ -433,6 +444,40 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-900">Daily Limits (optional)</h3>
+            <p className="mt-1 text-xs text-zinc-500">
+              Leave blank to track without a goal. Potassium is a target; the others are maximums.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {MICRONUTRIENTS.map(({ key, label, unit }) => (
+              <div key={key}>
+                <label htmlFor={key} className="block text-sm font-medium text-zinc-900">
+                  {label} ({unit})
+                </label>
+                <input
+                  id={key}
+                  type="number"
+                  {...registerGoals(key, {
+                    setValueAs: (value) => (value === '' || value == null ? null : Number(value)),
+                  })}
+                  readOnly={!isEditingGoals}
+                  placeholder={isEditingGoals ? 'No goal' : '—'}
+                  className={`mt-1 block w-full rounded-md border px-3 py-2 text-sm ${
+                    isEditingGoals
+                      ? 'border-zinc-300 focus:border-pink-500 focus:outline-none focus:ring-1 focus:ring-pink-500'
+                      : 'border-transparent bg-zinc-50 cursor-default'
+                  }`}
+                />
+                {goalsErrors[key] && (
+                  <p className="mt-1 text-sm text-red-600">{goalsErrors[key]?.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
           {isEditingGoals ? (
             <div className="flex gap-2">
               <button
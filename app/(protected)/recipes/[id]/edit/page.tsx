@@ -7,12 +7,15 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { createClient } from '@/lib/supabase/client';
+import { createRecipeVersion } from '@/lib/supabase/recipe-versions';
 import { RecipeItemForm } from '@/components/recipe-item-form';
-import type { Recipe, RecipeItem } from '@/lib/types';
+import type { QuantityUnit, Recipe, RecipeItem } from '@/lib/types';
+import { roundNutrients, sumNutrients } from '@/lib/utils/nutrition';
 
 const recipeSchema = z.object({
   name: z.string().min(1, 'Recipe name is required'),
   servings: z.number().min(1, 'Must make at least 1 serving'),
+  cooked_weight_grams: z.number().positive('Weight must be positive').nullable().optional(),
   notes: z.string().optional(),
 });
 
@@ -22,12 +25,20 @@ interface RecipeIngredient {
   id?: string;
   food_name: string;
   amount: string;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  grams?: number | null;
   calories: number;
   protein?: number;
   carbs?: number;
   fat?: number;
   fiber?: number;
   water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
 }
 
 export default function EditRecipePage() {
@@ -97,6 +108,7 @@ export default function EditRecipePage() {
             reset({
               name: draft.name || recipeData.name,
               servings: draft.servings || recipeData.servings,
+              cooked_weight_grams: draft.cooked_weight_grams !== undefined ? draft.cooked_weight_grams : recipeData.cooked_weight_grams ?? null,
               notes: draft.notes ?? recipeData.notes ?? '',
             });
             draftRestored = true;
@@ -109,6 +121,7 @@ export default function EditRecipePage() {
         reset({
           name: recipeData.name,
           servings: recipeData.servings,
+          cooked_weight_grams: recipeData.cooked_weight_grams ?? null,
           notes: recipeData.notes || '',
         });
       }
@@ -127,10 +140,11 @@ export default function EditRecipePage() {
       ingredients,
       name: formValues.name,
       servings: formValues.servings,
+      cooked_weight_grams: formValues.cooked_weight_grams,
       notes: formValues.notes,
     };
     localStorage.setItem(draftKey, JSON.stringify(draft));
-  }, [draftKey, loading, ingredients, formValues.name, formValues.servings, formValues.notes]);
+  }, [draftKey, loading, ingredients, formValues.name, formValues.servings, formValues.cooked_weight_grams, formValues.notes]);
 
   const handleAddIngredient = (ingredient: RecipeIngredient) => {
     setIngredients([...ingredients, ingredient]);
@@ -159,17 +173,7 @@ export default function EditRecipePage() {
   };
 
   const calculateTotals = () => {
-    return ingredients.reduce(
-      (totals, item) => ({
-        calories: totals.calories + (item.calories || 0),
-        protein: totals.protein + (item.protein || 0),
-        carbs: totals.carbs + (item.carbs || 0),
-        fat: totals.fat + (item.fat || 0),
-        fiber: totals.fiber + (item.fiber || 0),
-        water: totals.water + (item.water || 0),
-      }),
-      { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, water: 0 }
-    );
+    return roundNutrients(sumNutrients(ingredients));
   };
 
   const onSubmit = async (data: RecipeFormData) => {
@@ -190,6 +194,7 @@ export default function EditRecipePage() {
         .update({
           name: data.name,
           servings: data.servings,
+          cooked_weight_grams: data.cooked_weight_grams ?? null,
           notes: data.notes || null,
           total_calories: totals.calories,
           total_protein: totals.protein,
@@ -197,6 +202,11 @@ export default function EditRecipePage() {
           total_fat: totals.fat,
           total_fiber: totals.fiber,
           total_water: totals.water,
+          total_sodium: totals.sodium,
+          total_sugar: totals.sugar,
+          total_saturated_fat: totals.saturated_fat,
+          total_potassium: totals.potassium,
+          total_cholesterol: totals.cholesterol,
         })
         .eq('id', recipeId);
 
@@ -215,12 +225,20 @@ export default function EditRecipePage() {
         recipe_id: recipeId,
         food_name: item.food_name,
         amount: item.amount,
+        quantity: item.quantity ?? null,
+        unit: item.unit ?? null,
+        grams: item.grams ?? null,
         calories: item.calories,
         protein: item.protein || 0,
         carbs: item.carbs || 0,
         fat: item.fat || 0,
         fiber: item.fiber || 0,
         water: item.water || 0,
+        sodium: item.sodium || 0,
+        sugar: item.sugar || 0,
+        saturated_fat: item.saturated_fat || 0,
+        potassium: item.potassium || 0,
+        cholesterol: item.cholesterol || 0,
         order: index + 1,
       }));
 
@@ -230,6 +248,8 @@ export default function EditRecipePage() {
 
       if (itemsError) throw itemsError;
 
+      await createRecipeVersion(supabase, recipeId);
+
       clearDraft();
       router.push('/recipes');
     } catch (err) {
@@ -305,6 +325,25 @@ export default function EditRecipePage() {
             )}
           </div>
 
+          <div>
+            <label htmlFor="cooked_weight_grams" className="block text-sm font-medium text-zinc-900">
+              Cooked Weight in Grams (optional)
+            </label>
+            <input
+              id="cooked_weight_grams"
+              type="number"
+              step="1"
+              {...register('cooked_weight_grams', {
+                setValueAs: (value) => (value === '' || value == null ? null : Number(value)),
+              })}
+              className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+              placeholder="Weigh the finished dish to log portions by weight"
+            />
+            {errors.cooked_weight_grams && (
+              <p className="mt-1 text-sm text-red-600">{errors.cooked_weight_grams.message}</p>
+            )}
+          </div>
+
           <div>
             <label htmlFor="notes" className="block text-sm font-medium text-zinc-900">
               Notes (optional)
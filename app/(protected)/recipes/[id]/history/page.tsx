@@ -0,0 +1,357 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { subDays } from 'date-fns';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { createClient } from '@/lib/supabase/client';
+import { applyVersionToLogs } from '@/lib/supabase/recipe-versions';
+import type { NutrientKey, Recipe, RecipeVersion } from '@/lib/types';
+import { getRecipePerServing } from '@/lib/utils/nutrition';
+import { diffVersionItems } from '@/lib/utils/recipe-versions';
+import { formatDateForDB, formatDateForDisplay } from '@/lib/utils/date';
+import Link from 'next/link';
+
+// Per-serving nutrients compared between versions
+const COMPARED_NUTRIENTS: { key: NutrientKey; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: '' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+];
+
+const CHANGE_LABELS = {
+  added: { symbol: '+', className: 'text-green-700' },
+  removed: { symbol: '−', className: 'text-red-600' },
+  changed: { symbol: '~', className: 'text-zinc-700' },
+};
+
+function formatChange(value: number, unit: string): string {
+  const rounded = Math.round(value * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}${unit}`;
+}
+
+export default function RecipeHistoryPage() {
+  const { user } = useAuth();
+  const params = useParams();
+  const recipeId = params.id as string;
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [versions, setVersions] = useState<RecipeVersion[]>([]);
+  // Number of logged items pinned to each version, by version id
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [applyVersionId, setApplyVersionId] = useState('');
+  const [startDate, setStartDate] = useState(formatDateForDB(subDays(new Date(), 30)));
+  const [endDate, setEndDate] = useState(formatDateForDB(new Date()));
+  const [applying, setApplying] = useState(false);
+  const [applyMessage, setApplyMessage] = useState<string | null>(null);
+  const supabase = createClient();
+
+  useEffect(() => {
+    if (recipeId) {
+      fetchHistory();
+    }
+  }, [recipeId]);
+
+  const fetchHistory = async () => {
+    try {
+      const [recipeResult, versionsResult, itemsResult] = await Promise.all([
+        supabase.from('recipes').select('*').eq('id', recipeId).single(),
+        supabase
+          .from('recipe_versions')
+          .select(`
+            *,
+            recipe_version_items (*)
+          `)
+          .eq('recipe_id', recipeId)
+          .order('version_number', { ascending: false }),
+        supabase.from('meal_items').select('recipe_version_id').eq('recipe_id', recipeId),
+      ]);
+
+      if (recipeResult.error) throw recipeResult.error;
+      if (versionsResult.error) throw versionsResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+
+      const counts: Record<string, number> = {};
+      (itemsResult.data || []).forEach(({ recipe_version_id }) => {
+        if (recipe_version_id) counts[recipe_version_id] = (counts[recipe_version_id] || 0) + 1;
+      });
+
+      const versionsData: RecipeVersion[] = versionsResult.data || [];
+      setRecipe(recipeResult.data);
+      setVersions(versionsData);
+      setUsage(counts);
+      setExpandedId(prev => prev ?? versionsData[0]?.id ?? null);
+      setApplyVersionId(prev => prev || recipeResult.data.current_version_id || versionsData[0]?.id || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recipe history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    const version = versions.find(v => v.id === applyVersionId);
+    if (!user || !version || !startDate || !endDate) return;
+    if (startDate > endDate) {
+      setApplyMessage('The start date must be on or before the end date.');
+      return;
+    }
+    if (!confirm(`Recalculate logged "${recipe?.name}" items from ${formatDateForDisplay(startDate)} to ${formatDateForDisplay(endDate)} using version ${version.version_number}?`)) {
+      return;
+    }
+
+    setApplying(true);
+    setApplyMessage(null);
+
+    try {
+      const result = await applyVersionToLogs(supabase, user.id, version, startDate, endDate);
+      const notes = [
+        result.locked > 0 ? `${result.locked} on locked days` : null,
+        result.unconvertible > 0 ? `${result.unconvertible} logged in a unit this version can't convert` : null,
+      ].filter(Boolean);
+      setApplyMessage(
+        `Updated ${result.updated} logged ${result.updated === 1 ? 'item' : 'items'}.` +
+        (notes.length > 0 ? ` Skipped ${notes.join(' and ')}.` : '')
+      );
+      await fetchHistory();
+    } catch (err) {
+      console.error('Error applying recipe version:', err);
+      setApplyMessage(err instanceof Error ? err.message : 'Failed to update past logs');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl space-y-6">
+        <p className="text-zinc-600">Loading history...</p>
+      </div>
+    );
+  }
+
+  if (error || !recipe) {
+    return (
+      <div className="max-w-3xl space-y-6">
+        <p className="text-red-600">{error || 'Recipe not found'}</p>
+        <Link
+          href="/recipes"
+          className="inline-block rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          Back to Recipes
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <Link href={`/recipes/${recipeId}`} className="text-sm text-zinc-600 hover:text-zinc-900">
+          ← {recipe.name}
+        </Link>
+        <h1 className="mt-2 text-3xl font-semibold">Version History</h1>
+        <p className="mt-1 text-zinc-600">
+          Each save is kept as a version. Past logs keep the version they were logged with.
+        </p>
+      </div>
+
+      {versions.length === 0 ? (
+        <div className="rounded-lg border border-zinc-200 bg-white p-12 text-center">
+          <p className="text-zinc-600">No versions yet. Saving the recipe creates the first one.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {versions.map((version, index) => {
+            const previous = versions[index + 1];
+            const expanded = expandedId === version.id;
+            const after = getRecipePerServing(version);
+            const before = previous ? getRecipePerServing(previous) : null;
+            const changes = previous
+              ? diffVersionItems(previous.recipe_version_items || [], version.recipe_version_items || [])
+              : [];
+            const logged = usage[version.id] || 0;
+
+            return (
+              <div key={version.id} className="rounded-lg border border-zinc-200 bg-white">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expanded ? null : version.id)}
+                  className="flex w-full items-center justify-between gap-3 p-4 text-left"
+                >
+                  <div>
+                    <p className="font-medium">
+                      Version {version.version_number}
+                      {version.id === recipe.current_version_id && (
+                        <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+                          Current
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-zinc-500">
+                      {formatDateForDisplay(version.created_at)} · {after.calories} cal per serving · Logged {logged} {logged === 1 ? 'time' : 'times'}
+                    </p>
+                  </div>
+                  <span className="text-zinc-400">{expanded ? '▾' : '▸'}</span>
+                </button>
+
+                {expanded && (
+                  <div className="space-y-4 border-t border-zinc-200 p-4 text-sm">
+                    {!previous ? (
+                      <div>
+                        <p className="mb-2 font-medium text-zinc-900">Ingredients</p>
+                        <ul className="space-y-1">
+                          {[...(version.recipe_version_items || [])]
+                            .sort((a, b) => a.order - b.order)
+                            .map(item => (
+                              <li key={item.id} className="flex justify-between gap-3">
+                                <span>{item.food_name}</span>
+                                <span className="text-zinc-600">{item.amount}</span>
+                              </li>
+                            ))}
+                        </ul>
+                      </div>
+                    ) : (
+                      <>
+                        <div>
+                          <p className="mb-2 font-medium text-zinc-900">
+                            Changes from version {previous.version_number}
+                          </p>
+                          {previous.name !== version.name && (
+                            <p className="text-zinc-600">Renamed from “{previous.name}”</p>
+                          )}
+                          {previous.servings !== version.servings && (
+                            <p className="text-zinc-600">Servings: {previous.servings} → {version.servings}</p>
+                          )}
+                          {(previous.cooked_weight_grams ?? null) !== (version.cooked_weight_grams ?? null) && (
+                            <p className="text-zinc-600">
+                              Cooked weight: {previous.cooked_weight_grams ? `${previous.cooked_weight_grams} g` : 'none'} →{' '}
+                              {version.cooked_weight_grams ? `${version.cooked_weight_grams} g` : 'none'}
+                            </p>
+                          )}
+                          {changes.length === 0 ? (
+                            <p className="text-zinc-500">No ingredient changes</p>
+                          ) : (
+                            <ul className="mt-1 space-y-1">
+                              {changes.map(change => (
+                                <li key={`${change.type}-${change.name}`} className="flex justify-between gap-3">
+                                  <span className={CHANGE_LABELS[change.type].className}>
+                                    {CHANGE_LABELS[change.type].symbol} {change.name}
+                                    <span className="text-zinc-500">
+                                      {' '}
+                                      {change.type === 'changed' ? `${change.before} → ${change.after}` : change.before ?? change.after}
+                                    </span>
+                                  </span>
+                                  <span className="text-zinc-500">{formatChange(change.calorieChange, ' cal')}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+
+                        {before && (
+                          <table className="w-full text-left">
+                            <thead className="text-xs uppercase text-zinc-500">
+                              <tr>
+                                <th className="py-1 font-medium">Per serving</th>
+                                <th className="py-1 font-medium">v{previous.version_number}</th>
+                                <th className="py-1 font-medium">v{version.version_number}</th>
+                                <th className="py-1 font-medium">Change</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {COMPARED_NUTRIENTS.map(({ key, label, unit }) => {
+                                const change = after[key] - before[key];
+                                return (
+                                  <tr key={key} className="border-t border-zinc-100">
+                                    <td className="py-1 text-zinc-600">{label}</td>
+                                    <td className="py-1">{before[key]}{unit}</td>
+                                    <td className="py-1">{after[key]}{unit}</td>
+                                    <td className={`py-1 ${change === 0 ? 'text-zinc-400' : 'font-medium'}`}>
+                                      {formatChange(change, unit)}
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Apply a version to past logs</h2>
+            <p className="mt-1 text-sm text-zinc-600">
+              Recalculates this recipe&apos;s logged items in a date range from the servings or grams logged.
+              Locked days are left as they are.
+            </p>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div>
+              <label htmlFor="apply-version" className="block text-sm font-medium text-zinc-900">Version</label>
+              <select
+                id="apply-version"
+                value={applyVersionId}
+                onChange={(e) => setApplyVersionId(e.target.value)}
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+              >
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>
+                    Version {version.version_number}{version.id === recipe.current_version_id ? ' (current)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="apply-start" className="block text-sm font-medium text-zinc-900">From</label>
+              <input
+                id="apply-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="apply-end" className="block text-sm font-medium text-zinc-900">To</label>
+              <input
+                id="apply-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+
+          {applyMessage && (
+            <p className="rounded-md bg-zinc-50 p-3 text-sm text-zinc-700">{applyMessage}</p>
+          )}
+
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={applying || !applyVersionId || !startDate || !endDate}
+            className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {applying ? 'Updating...' : 'Apply to Past Logs'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,11 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { createClient } from '@/lib/supabase/client';
+import { copyRecipe } from '@/lib/supabase/recipe-shares';
+import { RecipeSharePanel } from '@/components/recipe-share-panel';
 import type { Recipe, RecipeItem } from '@/lib/types';
+import { getRecipePerServing, getRecipeTotals, roundNutrients, scaleNutrients, toNutrientVector } from '@/lib/utils/nutrition';
+import { formatAmount, scaleAmount } from '@/lib/utils/quantity';
 import Link from 'next/link';
 
 export default function RecipeDetailPage() {
@@ -16,13 +20,18 @@ export default function RecipeDetailPage() {
   const [ingredients, setIngredients] = useState<RecipeItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Servings to cook; ingredients and totals are shown scaled to it
+  const [cookServings, setCookServings] = useState<number>(1);
+  // For a recipe shared by the user's dietitian: whether they may copy it
+  const [canCopy, setCanCopy] = useState(false);
+  const [copying, setCopying] = useState(false);
   const supabase = createClient();
 
   useEffect(() => {
-    if (recipeId) {
+    if (recipeId && user) {
       fetchRecipe();
     }
-  }, [recipeId]);
+  }, [recipeId, user]);
 
   const fetchRecipe = async () => {
     try {
@@ -42,7 +51,20 @@ export default function RecipeDetailPage() {
 
       if (itemsError) throw itemsError;
 
+      if (recipeData.user_id !== user?.id) {
+        const { data: share, error: shareError } = await supabase
+          .from('recipe_shares')
+          .select('can_copy')
+          .eq('recipe_id', recipeId)
+          .eq('client_id', user?.id)
+          .single();
+
+        if (shareError && shareError.code !== 'PGRST116') throw shareError;
+        setCanCopy(!!share?.can_copy);
+      }
+
       setRecipe(recipeData);
+      setCookServings(recipeData.servings);
       setIngredients(itemsData || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load recipe');
@@ -67,16 +89,23 @@ export default function RecipeDetailPage() {
     }
   };
 
+  const handleCopy = async () => {
+    if (!user || !recipe) return;
+    setCopying(true);
+
+    try {
+      const copy = await copyRecipe(supabase, user.id, recipe);
+      router.push(`/recipes/${copy.id}`);
+    } catch (err) {
+      console.error('Error copying recipe:', err);
+      alert('Failed to copy recipe');
+      setCopying(false);
+    }
+  };
+
   const getPerServingNutrition = () => {
     if (!recipe) return null;
-    return {
-      calories: Math.round(recipe.total_calories / recipe.servings),
-      protein: Number((recipe.total_protein / recipe.servings).toFixed(1)),
-      carbs: Number((recipe.total_carbs / recipe.servings).toFixed(1)),
-      fat: Number((recipe.total_fat / recipe.servings).toFixed(1)),
-      fiber: Number((recipe.total_fiber / recipe.servings).toFixed(1)),
-      water: Number(((recipe.total_water || 0) / recipe.servings).toFixed(1)),
-    };
+    return getRecipePerServing(recipe);
   };
 
   if (loading) {
@@ -102,6 +131,10 @@ export default function RecipeDetailPage() {
   }
 
   const perServing = getPerServingNutrition();
+  const isOwner = recipe.user_id === user?.id;
+  const scale = cookServings > 0 ? cookServings / recipe.servings : 1;
+  const isScaled = scale !== 1;
+  const totals = roundNutrients(scaleNutrients(getRecipeTotals(recipe), scale));
 
   return (
     <div className="max-w-3xl space-y-6">
@@ -112,20 +145,43 @@ export default function RecipeDetailPage() {
             {recipe.servings} {recipe.servings === 1 ? 'serving' : 'servings'}
           </p>
         </div>
-        <div className="flex gap-2">
-          <Link
-            href={`/recipes/${recipeId}/edit`}
-            className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
-          >
-            Edit Recipe
-          </Link>
-          <button
-            onClick={handleDelete}
-            className="rounded-md border border-red-300 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50"
-          >
-            Delete
-          </button>
-        </div>
+        {isOwner ? (
+          <div className="flex gap-2">
+            <Link
+              href={`/recipes/${recipeId}/edit`}
+              className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
+            >
+              Edit Recipe
+            </Link>
+            <Link
+              href={`/recipes/${recipeId}/history`}
+              className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+            >
+              History
+            </Link>
+            <button
+              onClick={handleDelete}
+              className="rounded-md border border-red-300 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50"
+            >
+              Delete
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col items-end gap-2">
+            <span className="rounded-full bg-pink-100 px-3 py-1 text-xs font-medium text-pink-700">
+              Shared by your dietitian
+            </span>
+            {canCopy && (
+              <button
+                onClick={handleCopy}
+                disabled={copying}
+                className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+              >
+                {copying ? 'Copying...' : 'Copy to My Recipes'}
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {recipe.notes && (
@@ -136,29 +192,56 @@ export default function RecipeDetailPage() {
       )}
 
       <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4">
-        <h2 className="text-lg font-semibold">Ingredients</h2>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">Ingredients</h2>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="cook-servings" className="text-zinc-600">Cook at</label>
+            <input
+              id="cook-servings"
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={cookServings || ''}
+              onChange={(e) => setCookServings(parseFloat(e.target.value) || 0)}
+              className="w-20 rounded-md border border-zinc-300 px-2 py-1 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+            />
+            <span className="text-zinc-600">servings</span>
+            {isScaled && (
+              <button
+                type="button"
+                onClick={() => setCookServings(recipe.servings)}
+                className="text-zinc-500 hover:text-pink-500"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
 
         {ingredients.length === 0 ? (
           <p className="text-sm text-zinc-500">No ingredients</p>
         ) : (
           <div className="space-y-2">
-            {ingredients.map((item) => (
-              <div
-                key={item.id}
-                className="rounded-lg border border-zinc-200 bg-zinc-50 p-3 text-sm"
-              >
-                <div className="flex items-start justify-between">
-                  <div>
-                    <p className="font-medium">{item.food_name}</p>
-                    <p className="text-zinc-600">{item.amount}</p>
+            {ingredients.map((item) => {
+              const scaled = roundNutrients(scaleNutrients(toNutrientVector(item), scale));
+              return (
+                <div
+                  key={item.id}
+                  className="rounded-lg border border-zinc-200 bg-zinc-50 p-3 text-sm"
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium">{item.food_name}</p>
+                      <p className="text-zinc-600">{scaleAmount(item, scale)}</p>
+                    </div>
+                    <p className="font-medium text-zinc-900">{scaled.calories} cal</p>
                   </div>
-                  <p className="font-medium text-zinc-900">{item.calories} cal</p>
+                  <p className="text-zinc-500 text-xs mt-1">
+                    P: {scaled.protein}g | C: {scaled.carbs}g | F: {scaled.fat}g | Fiber: {scaled.fiber}g | Water: {scaled.water}oz
+                  </p>
                 </div>
-                <p className="text-zinc-500 text-xs mt-1">
-                  P: {item.protein || 0}g | C: {item.carbs || 0}g | F: {item.fat || 0}g | Fiber: {item.fiber || 0}g | Water: {item.water || 0}oz
-                </p>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -168,33 +251,40 @@ export default function RecipeDetailPage() {
 
         <div className="space-y-4">
           <div>
-            <h3 className="text-sm font-medium text-zinc-900 mb-2">Total (All Servings)</h3>
+            <h3 className="text-sm font-medium text-zinc-900 mb-2">
+              Total ({isScaled ? `${cookServings} servings` : 'All Servings'})
+            </h3>
             <div className="grid grid-cols-2 gap-3 text-sm md:grid-cols-6">
               <div>
                 <p className="text-zinc-600">Calories</p>
-                <p className="font-medium">{recipe.total_calories}</p>
+                <p className="font-medium">{totals.calories}</p>
               </div>
               <div>
                 <p className="text-zinc-600">Protein</p>
-                <p className="font-medium">{recipe.total_protein.toFixed(1)}g</p>
+                <p className="font-medium">{totals.protein.toFixed(1)}g</p>
               </div>
               <div>
                 <p className="text-zinc-600">Carbs</p>
-                <p className="font-medium">{recipe.total_carbs.toFixed(1)}g</p>
+                <p className="font-medium">{totals.carbs.toFixed(1)}g</p>
               </div>
               <div>
                 <p className="text-zinc-600">Fat</p>
-                <p className="font-medium">{recipe.total_fat.toFixed(1)}g</p>
+                <p className="font-medium">{totals.fat.toFixed(1)}g</p>
               </div>
               <div>
                 <p className="text-zinc-600">Fiber</p>
-                <p className="font-medium">{recipe.total_fiber.toFixed(1)}g</p>
+                <p className="font-medium">{totals.fiber.toFixed(1)}g</p>
               </div>
               <div>
                 <p className="text-zinc-600">Water</p>
-                <p className="font-medium">{(recipe.total_water || 0).toFixed(1)} oz</p>
+                <p className="font-medium">{totals.water.toFixed(1)} oz</p>
               </div>
             </div>
+            {recipe.cooked_weight_grams && (
+              <p className="mt-2 text-sm text-zinc-600">
+                Cooked weight: {formatAmount(Math.round(recipe.cooked_weight_grams * scale), 'g')}
+              </p>
+            )}
           </div>
 
           {perServing && (
@@ -231,6 +321,8 @@ export default function RecipeDetailPage() {
         </div>
       </div>
 
+      {isOwner && <RecipeSharePanel recipeId={recipeId} />}
+
       <Link
         href="/recipes"
         className="inline-block rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
@@ -7,25 +7,39 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { createClient } from '@/lib/supabase/client';
+import { createRecipeVersion } from '@/lib/supabase/recipe-versions';
+import type { QuantityUnit } from '@/lib/types';
+import { roundNutrients, sumNutrients } from '@/lib/utils/nutrition';
 import { RecipeItemForm } from '@/components/recipe-item-form';
+import { IngredientPasteImport } from '@/components/ingredient-paste-import';
 
 const recipeSchema = z.object({
   name: z.string().min(1, 'Recipe name is required'),
   servings: z.number().min(1, 'Must make at least 1 serving'),
+  cooked_weight_grams: z.number().positive('Weight must be positive').nullable().optional(),
   notes: z.string().optional(),
 });
 
 type RecipeFormData = z.infer<typeof recipeSchema>;
 
 interface RecipeIngredient {
+  food_id?: string | null;
   food_name: string;
   amount: string;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  grams?: number | null;
   calories: number;
   protein?: number;
   carbs?: number;
   fat?: number;
   fiber?: number;
   water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
 }
 
 export default function NewRecipePage() {
@@ -33,6 +47,7 @@ export default function NewRecipePage() {
   const router = useRouter();
   const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
   const [adding, setAdding] = useState(false);
+  const [importing, setImporting] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const supabase = createClient();
@@ -66,6 +81,7 @@ export default function NewRecipePage() {
         if (draft.ingredients) setIngredients(draft.ingredients);
         if (draft.name) setValue('name', draft.name);
         if (draft.servings) setValue('servings', draft.servings);
+        if (draft.cooked_weight_grams) setValue('cooked_weight_grams', draft.cooked_weight_grams);
         if (draft.notes) setValue('notes', draft.notes);
       }
     } catch {}
@@ -79,32 +95,28 @@ export default function NewRecipePage() {
       ingredients,
       name: formValues.name,
       servings: formValues.servings,
+      cooked_weight_grams: formValues.cooked_weight_grams,
       notes: formValues.notes,
     };
     localStorage.setItem(draftKey, JSON.stringify(draft));
-  }, [draftKey, ingredients, formValues.name, formValues.servings, formValues.notes]);
+  }, [draftKey, ingredients, formValues.name, formValues.servings, formValues.cooked_weight_grams, formValues.notes]);
 
   const handleAddIngredient = (ingredient: RecipeIngredient) => {
     setIngredients([...ingredients, ingredient]);
     setAdding(false);
   };
 
+  const handleImportIngredients = (imported: RecipeIngredient[]) => {
+    setIngredients([...ingredients, ...imported]);
+    setImporting(false);
+  };
+
   const handleRemoveIngredient = (index: number) => {
     setIngredients(ingredients.filter((_, i) => i !== index));
   };
 
   const calculateTotals = () => {
-    return ingredients.reduce(
-      (totals, item) => ({
-        calories: totals.calories + (item.calories || 0),
-        protein: totals.protein + (item.protein || 0),
-        carbs: totals.carbs + (item.carbs || 0),
-        fat: totals.fat + (item.fat || 0),
-        fiber: totals.fiber + (item.fiber || 0),
-        water: totals.water + (item.water || 0),
-      }),
-      { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, water: 0 }
-    );
+    return roundNutrients(sumNutrients(ingredients));
   };
 
   const onSubmit = async (data: RecipeFormData) => {
@@ -126,6 +138,7 @@ export default function NewRecipePage() {
           user_id: user?.id,
           name: data.name,
           servings: data.servings,
+          cooked_weight_grams: data.cooked_weight_grams ?? null,
           notes: data.notes || null,
           total_calories: totals.calories,
           total_protein: totals.protein,
@@ -133,6 +146,11 @@ export default function NewRecipePage() {
           total_fat: totals.fat,
           total_fiber: totals.fiber,
           total_water: totals.water,
+          total_sodium: totals.sodium,
+          total_sugar: totals.sugar,
+          total_saturated_fat: totals.saturated_fat,
+          total_potassium: totals.potassium,
+          total_cholesterol: totals.cholesterol,
         })
         .select()
         .single();
@@ -142,14 +160,23 @@ export default function NewRecipePage() {
       // Add recipe items
       const recipeItems = ingredients.map((item, index) => ({
         recipe_id: recipe.id,
+        food_id: item.food_id ?? null,
         food_name: item.food_name,
         amount: item.amount,
+        quantity: item.quantity ?? null,
+        unit: item.unit ?? null,
+        grams: item.grams ?? null,
         calories: item.calories,
         protein: item.protein || 0,
         carbs: item.carbs || 0,
         fat: item.fat || 0,
         fiber: item.fiber || 0,
         water: item.water || 0,
+        sodium: item.sodium || 0,
+        sugar: item.sugar || 0,
+        saturated_fat: item.saturated_fat || 0,
+        potassium: item.potassium || 0,
+        cholesterol: item.cholesterol || 0,
         order: index + 1,
       }));
 
@@ -159,6 +186,8 @@ export default function NewRecipePage() {
 
       if (itemsError) throw itemsError;
 
+      await createRecipeVersion(supabase, recipe.id);
+
       clearDraft();
       router.push('/recipes');
     } catch (err) {
@@ -218,6 +247,25 @@ export default function NewRecipePage() {
             )}
           </div>
 
+          <div>
+            <label htmlFor="cooked_weight_grams" className="block text-sm font-medium text-zinc-900">
+              Cooked Weight in Grams (optional)
+            </label>
+            <input
+              id="cooked_weight_grams"
+              type="number"
+              step="1"
+              {...register('cooked_weight_grams', {
+                setValueAs: (value) => (value === '' || value == null ? null : Number(value)),
+              })}
+              className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+              placeholder="Weigh the finished dish to log portions by weight"
+            />
+            {errors.cooked_weight_grams && (
+              <p className="mt-1 text-sm text-red-600">{errors.cooked_weight_grams.message}</p>
+            )}
+          </div>
+
           <div>
             <label htmlFor="notes" className="block text-sm font-medium text-zinc-900">
               Notes (optional)
@@ -235,15 +283,31 @@ export default function NewRecipePage() {
         <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-lg font-semibold">Ingredients</h2>
-            <button
-              type="button"
-              onClick={() => setAdding(true)}
-              className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
-            >
-              + Add Ingredient
-            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setImporting(true)}
+                className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+              >
+                Paste List
+              </button>
+              <button
+                type="button"
+                onClick={() => setAdding(true)}
+                className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
+              >
+                + Add Ingredient
+              </button>
+            </div>
           </div>
 
+          {importing && (
+            <IngredientPasteImport
+              onImport={handleImportIngredients}
+              onCancel={() => setImporting(false)}
+            />
+          )}
+
           {adding && (
             <RecipeItemForm
               onSave={handleAddIngredient}
@@ -251,7 +315,7 @@ export default function NewRecipePage() {
             />
           )}
 
-          {ingredients.length === 0 && !adding && (
+          {ingredients.length === 0 && !adding && !importing && (
             <p className="text-sm text-zinc-500">No ingredients added yet</p>
           )}
 
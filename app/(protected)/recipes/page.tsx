@@ -3,12 +3,16 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { createClient } from '@/lib/supabase/client';
+import { copyRecipe, fetchSharedRecipes, SharedRecipe } from '@/lib/supabase/recipe-shares';
 import { Recipe } from '@/lib/types';
+import { getRecipePerServing } from '@/lib/utils/nutrition';
 import Link from 'next/link';
 
 export default function RecipesPage() {
   const { user } = useAuth();
   const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [shared, setShared] = useState<SharedRecipe[]>([]);
+  const [copyingId, setCopyingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const supabase = createClient();
 
@@ -32,6 +36,7 @@ export default function RecipesPage() {
 
       if (error) throw error;
       setRecipes(data || []);
+      if (user) setShared(await fetchSharedRecipes(supabase, user.id));
     } catch (err) {
       console.error('Error fetching recipes:', err);
     } finally {
@@ -56,15 +61,19 @@ export default function RecipesPage() {
     }
   };
 
-  const getPerServingNutrition = (recipe: Recipe) => {
-    return {
-      calories: Math.round(recipe.total_calories / recipe.servings),
-      protein: Number((recipe.total_protein / recipe.servings).toFixed(1)),
-      carbs: Number((recipe.total_carbs / recipe.servings).toFixed(1)),
-      fat: Number((recipe.total_fat / recipe.servings).toFixed(1)),
-      fiber: Number((recipe.total_fiber / recipe.servings).toFixed(1)),
-      water: Number(((recipe.total_water || 0) / recipe.servings).toFixed(1)),
-    };
+  const handleCopy = async (recipe: Recipe) => {
+    if (!user) return;
+    setCopyingId(recipe.id);
+
+    try {
+      await copyRecipe(supabase, user.id, recipe);
+      await fetchRecipes();
+    } catch (err) {
+      console.error('Error copying recipe:', err);
+      alert('Failed to copy recipe');
+    } finally {
+      setCopyingId(null);
+    }
   };
 
   if (loading) {
@@ -94,7 +103,7 @@ export default function RecipesPage() {
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {recipes.map((recipe) => {
-            const perServing = getPerServingNutrition(recipe);
+            const perServing = getRecipePerServing(recipe);
             return (
               <div
                 key={recipe.id}
@@ -161,6 +170,46 @@ export default function RecipesPage() {
           })}
         </div>
       )}
+
+      {shared.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-xl font-semibold">Shared by Your Dietitian</h2>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {shared.map(({ recipe, can_copy }) => {
+              const perServing = getRecipePerServing(recipe);
+              return (
+                <div
+                  key={recipe.id}
+                  className="rounded-lg border border-pink-200 bg-white p-6 space-y-3"
+                >
+                  <h3 className="text-lg font-semibold">{recipe.name}</h3>
+                  <p className="text-sm text-zinc-600">
+                    {recipe.servings} {recipe.servings === 1 ? 'serving' : 'servings'}
+                    <span className="ml-2">• {perServing.calories} cal/serving</span>
+                  </p>
+                  <div className="flex gap-2">
+                    <Link
+                      href={`/recipes/${recipe.id}`}
+                      className="flex-1 rounded-md border border-zinc-300 px-4 py-2 text-center text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                    >
+                      View
+                    </Link>
+                    {can_copy && (
+                      <button
+                        onClick={() => handleCopy(recipe)}
+                        disabled={copyingId === recipe.id}
+                        className="flex-1 rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+                      >
+                        {copyingId === recipe.id ? 'Copying...' : 'Copy to Mine'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,228 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { createClient } from '@/lib/supabase/client';
+import { MEAL_TYPES, MealTemplate, MealType } from '@/lib/types';
+import { roundNutrients, sumNutrients } from '@/lib/utils/nutrition';
+import Link from 'next/link';
+
+export default function TemplatesPage() {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editMealType, setEditMealType] = useState<MealType>('breakfast');
+  const supabase = createClient();
+
+  useEffect(() => {
+    if (user) {
+      fetchTemplates();
+    }
+  }, [user]);
+
+  const fetchTemplates = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('meal_templates')
+        .select(`
+          *,
+          meal_template_items (*)
+        `)
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (err) {
+      console.error('Error fetching meal templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (template: MealTemplate) => {
+    setEditingId(template.id);
+    setEditName(template.name);
+    setEditMealType(template.meal_type);
+  };
+
+  const handleRename = async (id: string) => {
+    if (!editName.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('meal_templates')
+        .update({ name: editName.trim(), meal_type: editMealType })
+        .eq('id', id);
+
+      if (error) throw error;
+      setEditingId(null);
+      await fetchTemplates();
+    } catch (err) {
+      console.error('Error updating meal template:', err);
+      alert('Failed to update template');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this template?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('meal_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchTemplates();
+    } catch (err) {
+      console.error('Error deleting meal template:', err);
+      alert('Failed to delete template');
+    }
+  };
+
+  const handleRemoveItem = async (itemId: string) => {
+    try {
+      const { error } = await supabase
+        .from('meal_template_items')
+        .delete()
+        .eq('id', itemId);
+
+      if (error) throw error;
+      await fetchTemplates();
+    } catch (err) {
+      console.error('Error removing template item:', err);
+      alert('Failed to remove item');
+    }
+  };
+
+  const getMealTypeLabel = (type: MealType) =>
+    MEAL_TYPES.find((m) => m.type === type)?.label || type;
+
+  if (loading) {
+    return <div className="text-center">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">Meal Templates</h1>
+        <p className="mt-1 text-zinc-600">
+          Combinations you log often. Save one from any meal on the{' '}
+          <Link href="/meals" className="text-pink-600 hover:text-pink-700">Log Meal</Link> page.
+        </p>
+      </div>
+
+      {templates.length === 0 ? (
+        <div className="rounded-lg border border-zinc-200 bg-white p-12 text-center">
+          <p className="text-zinc-600">No templates yet. Use &quot;Save as template&quot; on a meal to create one.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {templates.map((template) => {
+            const items = [...(template.meal_template_items || [])].sort((a, b) => a.order - b.order);
+            const totals = roundNutrients(sumNutrients(items));
+            const isEditing = editingId === template.id;
+
+            return (
+              <div
+                key={template.id}
+                className="rounded-lg border border-zinc-200 bg-white p-6 space-y-3"
+              >
+                {isEditing ? (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+                    />
+                    <select
+                      value={editMealType}
+                      onChange={(e) => setEditMealType(e.target.value as MealType)}
+                      className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+                    >
+                      {MEAL_TYPES.map(({ type, label }) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleRename(template.id)}
+                        disabled={!editName.trim()}
+                        className="rounded-md bg-zinc-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="rounded-md border border-zinc-300 px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="text-lg font-semibold">{template.name}</h3>
+                      <p className="text-sm text-zinc-500">{getMealTypeLabel(template.meal_type)}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => startEdit(template)}
+                        className="text-sm text-zinc-600 hover:text-pink-500"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template.id)}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="text-sm text-zinc-600">
+                  {totals.calories} cal • P: {totals.protein}g | C: {totals.carbs}g | F: {totals.fat}g
+                </div>
+
+                <div className="border-t border-zinc-200 pt-3 space-y-2">
+                  {items.length === 0 ? (
+                    <p className="text-sm text-zinc-500">No items</p>
+                  ) : (
+                    items.map((item) => (
+                      <div
+                        key={item.id}
+                        className="flex items-start justify-between text-sm bg-zinc-50 rounded p-2"
+                      >
+                        <div className="flex-1">
+                          <p className="font-medium">{item.food_name}</p>
+                          <p className="text-zinc-600">{item.amount}</p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-zinc-600">{item.calories} cal</span>
+                          <button
+                            onClick={() => handleRemoveItem(item.id)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
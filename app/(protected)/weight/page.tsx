@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { useAuth } from '@/lib/contexts/auth-context';
+import { useViewedUser } from '@/lib/contexts/client-view-context';
 import { createClient } from '@/lib/supabase/client';
 import { formatDateForDB, formatDateFull } from '@/lib/utils/date';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
@@ -17,7 +17,7 @@ interface WeightLog {
 type TimeRange = 'week' | 'month' | 'year' | 'all';
 
 export default function WeightPage() {
-  const { user } = useAuth();
+  const { userId, readOnly } = useViewedUser();
   const [selectedDate, setSelectedDate] = useState(formatDateForDB(new Date()));
   const [weight, setWeight] = useState('');
   const [notes, setNotes] = useState('');
@@ -29,25 +29,25 @@ export default function WeightPage() {
   const [showAllLogs, setShowAllLogs] = useState(false);
   const supabase = createClient();
 
-  const draftKey = user?.id ? `weight-draft-${user.id}-${selectedDate}` : null;
+  const draftKey = userId && !readOnly ? `weight-draft-${userId}-${selectedDate}` : null;
 
   const clearDraft = useCallback(() => {
     if (draftKey) localStorage.removeItem(draftKey);
   }, [draftKey]);
 
   useEffect(() => {
-    if (user) {
+    if (userId) {
       fetchWeightLogs();
       fetchTodaysWeight();
     }
-  }, [user, selectedDate]);
+  }, [userId, selectedDate]);
 
   const fetchWeightLogs = async () => {
     try {
       const { data, error } = await supabase
         .from('weight_logs')
         .select('*')
-        .eq('user_id', user?.id)
+        .eq('user_id', userId)
         .order('log_date', { ascending: false });
 
       if (error) throw error;
@@ -64,7 +64,7 @@ export default function WeightPage() {
       const { data, error } = await supabase
         .from('weight_logs')
         .select('*')
-        .eq('user_id', user?.id)
+        .eq('user_id', userId)
         .eq('log_date', selectedDate)
         .single();
 
@@ -119,7 +119,7 @@ export default function WeightPage() {
       const { error } = await supabase
         .from('weight_logs')
         .upsert({
-          user_id: user?.id,
+          user_id: userId,
           log_date: selectedDate,
           weight: parseFloat(weight),
           notes: notes || null,
@@ -233,77 +233,79 @@ export default function WeightPage() {
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-semibold">Weight Tracker</h1>
-        <p className="mt-1 text-zinc-600">Track your daily weight</p>
+        <p className="mt-1 text-zinc-600">{readOnly ? 'Weight history' : 'Track your daily weight'}</p>
       </div>
 
-      <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4">
-        <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold">Log Weight</h2>
-          <input
-            type="date"
-            value={selectedDate}
-            onChange={(e) => setSelectedDate(e.target.value)}
-            className="rounded-md border border-zinc-300 px-4 py-2 text-sm"
-          />
-        </div>
-
-        <div className="flex gap-3">
-          <div className="flex-1">
-            <label className="block text-sm font-medium text-zinc-900 mb-1">
-              Weight (lbs)
-            </label>
-            <input
-              type="number"
-              step="0.1"
-              value={weight}
-              onChange={(e) => setWeight(e.target.value)}
-              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
-              placeholder="Enter weight"
-            />
-          </div>
-          <div className="flex-1">
-            <label className="block text-sm font-medium text-zinc-900 mb-1">
-              Notes (optional)
-            </label>
+      {!readOnly && (
+        <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Log Weight</h2>
             <input
-              type="text"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
-              placeholder="Optional notes"
+              type="date"
+              value={selectedDate}
+              onChange={(e) => setSelectedDate(e.target.value)}
+              className="rounded-md border border-zinc-300 px-4 py-2 text-sm"
             />
           </div>
-        </div>
 
-        <button
-          type="button"
-          onClick={handleSave}
-          disabled={!weight || saving}
-          className="w-full rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
-        >
-          {saving ? 'Saving...' : todaysWeight ? 'Update Weight' : 'Save Weight'}
-        </button>
-
-        {weightChange && (
-          <div className="mt-4 rounded-md bg-zinc-50 p-4">
-            <p className="text-sm text-zinc-600">
-              {weightChange.direction === 'up' && (
-                <span className="text-red-600">
-                  ↑ {weightChange.amount.toFixed(1)} lbs since last entry
-                </span>
-              )}
-              {weightChange.direction === 'down' && (
-                <span className="text-green-600">
-                  ↓ {weightChange.amount.toFixed(1)} lbs since last entry
-                </span>
-              )}
-              {weightChange.direction === 'same' && (
-                <span className="text-zinc-600">No change since last entry</span>
-              )}
-            </p>
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-zinc-900 mb-1">
+                Weight (lbs)
+              </label>
+              <input
+                type="number"
+                step="0.1"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+                placeholder="Enter weight"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-zinc-900 mb-1">
+                Notes (optional)
+              </label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+                placeholder="Optional notes"
+              />
+            </div>
           </div>
-        )}
-      </div>
+
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!weight || saving}
+            className="w-full rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : todaysWeight ? 'Update Weight' : 'Save Weight'}
+          </button>
+
+          {weightChange && (
+            <div className="mt-4 rounded-md bg-zinc-50 p-4">
+              <p className="text-sm text-zinc-600">
+                {weightChange.direction === 'up' && (
+                  <span className="text-red-600">
+                    ↑ {weightChange.amount.toFixed(1)} lbs since last entry
+                  </span>
+                )}
+                {weightChange.direction === 'down' && (
+                  <span className="text-green-600">
+                    ↓ {weightChange.amount.toFixed(1)} lbs since last entry
+                  </span>
+                )}
+                {weightChange.direction === 'same' && (
+                  <span className="text-zinc-600">No change since last entry</span>
+                )}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
 
       {weightLogs.length > 0 && (
         <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4">
@@ -410,12 +412,14 @@ export default function WeightPage() {
                     <p className="text-sm text-zinc-500 italic mt-1">{log.notes}</p>
                   )}
                 </div>
-                <button
-                  onClick={() => handleDelete(log.id)}
-                  className="text-sm text-red-600 hover:text-red-800"
-                >
-                  Delete
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => handleDelete(log.id)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                )}
               </div>
             ))}
             {weightLogs.length > 5 && (
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { findLocalFoodsByBarcode, isLocalSearchOnly } from '@/lib/supabase/fdc-foods';
+import { cacheSearch, getCachedSearch, ignoreCacheErrors } from '@/lib/supabase/food-cache';
+import { lookupBarcode } from '@/lib/usda';
+import { normalizeBarcode } from '@/lib/utils/barcode';
+
+const NOT_FOUND = 'No food found for this barcode';
+
+export async function GET(request: NextRequest) {
+  const upc = request.nextUrl.searchParams.get('upc');
+
+  if (!upc) {
+    return NextResponse.json({ error: 'Barcode is required' }, { status: 400 });
+  }
+  const gtin = normalizeBarcode(upc);
+  if (!gtin) {
+    return NextResponse.json({ error: 'Not a valid UPC or EAN barcode' }, { status: 400 });
+  }
+
+  if (isLocalSearchOnly()) {
+    const localFoods = await ignoreCacheErrors(findLocalFoodsByBarcode(await createClient(), gtin));
+    if (localFoods && localFoods.length > 0) {
+      return NextResponse.json({ food: localFoods[0], local: true });
+    }
+    return NextResponse.json({ error: NOT_FOUND }, { status: 404 });
+  }
+
+  const apiKey = process.env.USDA_API_KEY;
+  const cache = createAdminClient();
+  // Barcode lookups share the search cache under their own key
+  const cacheKey = `upc:${gtin}`;
+
+  const cached = cache ? await ignoreCacheErrors(getCachedSearch(cache, cacheKey)) : null;
+  if (cached?.fresh && cached.value.length > 0) {
+    return NextResponse.json({ food: cached.value[0], cached: true });
+  }
+
+  let errorMessage: string | null = apiKey ? null : 'API key not configured';
+  if (apiKey) {
+    try {
+      const results = await lookupBarcode(gtin, apiKey);
+      if (cache) await ignoreCacheErrors(cacheSearch(cache, cacheKey, results));
+      if (results.length > 0) {
+        return NextResponse.json({ food: results[0] });
+      }
+    } catch (error) {
+      console.error('Error looking up barcode:', error);
+      errorMessage = error instanceof Error ? error.message : 'Failed to look up barcode';
+    }
+  }
+
+  if (cached && cached.value.length > 0) {
+    return NextResponse.json({ food: cached.value[0], cached: true, stale: true });
+  }
+  const localFoods = await ignoreCacheErrors(findLocalFoodsByBarcode(await createClient(), gtin));
+  if (localFoods && localFoods.length > 0) {
+    return NextResponse.json({ food: localFoods[0], local: true });
+  }
+
+  // USDA answered but doesn't know the product
+  if (!errorMessage) {
+    return NextResponse.json({ error: NOT_FOUND }, { status: 404 });
+  }
+  return NextResponse.json({ error: errorMessage }, { status: apiKey ? 502 : 500 });
+}
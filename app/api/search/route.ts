@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { fetchSharedRecipes } from '@/lib/supabase/recipe-shares';
+import { searchFoodDatabase } from '@/lib/food-search';
+import { Food, NormalizedFood, Recipe } from '@/lib/types';
+import { rankSearchResults } from '@/lib/utils/search-ranking';
+
+// Most results the picker shows for one search
+const MAX_RESULTS = 20;
+
+/**
+ * Searches the signed-in user's saved foods, their recipes (own and shared by
+ * their dietitian) and USDA at once, returning one ranked list of SearchResult.
+ * ?recipes=0 leaves recipes out (e.g., when picking a recipe's ingredients).
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('query')?.trim();
+  const includeRecipes = searchParams.get('recipes') !== '0';
+
+  if (!query) {
+    return NextResponse.json({ error: 'Query is required' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  // Personal libraries are small, so they are ranked here with typo tolerance
+  // rather than filtered in the database
+  const [foodsResult, recipesResult, sharesResult, usdaResult] = await Promise.all([
+    supabase.from('foods').select('*').eq('user_id', user.id),
+    includeRecipes
+      ? supabase.from('recipes').select('*').eq('user_id', user.id)
+      : Promise.resolve({ data: [], error: null }),
+    includeRecipes
+      ? fetchSharedRecipes(supabase, user.id).then(data => ({ data, error: null }), error => ({ data: [], error }))
+      : Promise.resolve({ data: [], error: null }),
+    searchFoodDatabase(query),
+  ]);
+
+  const dbError = foodsResult.error || recipesResult.error || sharesResult.error;
+  if (dbError) {
+    console.error('Error searching saved foods:', dbError);
+    return NextResponse.json({ error: 'Failed to search your foods' }, { status: 500 });
+  }
+
+  const sharedRecipes = sharesResult.data.map(share => share.recipe);
+
+  const usda: NormalizedFood[] = 'error' in usdaResult ? [] : usdaResult.foods;
+  const results = rankSearchResults(query, {
+    foods: (foodsResult.data || []) as Food[],
+    recipes: [...((recipesResult.data || []) as Recipe[]), ...sharedRecipes],
+    usda,
+  }).slice(0, MAX_RESULTS);
+
+  return NextResponse.json({
+    results,
+    // USDA problems don't hide the user's own foods; the picker mentions them
+    usdaError: 'error' in usdaResult ? usdaResult.error : undefined,
+    stale: 'stale' in usdaResult ? usdaResult.stale : undefined,
+  });
+}
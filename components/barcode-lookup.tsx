@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { Food } from '@/lib/types';
+import { normalizeBarcode } from '@/lib/utils/barcode';
+import { SelectedFood, toSelectedFood } from './food-picker';
+
+interface BarcodeLookupProps {
+  // A barcode matching one of the user's saved foods is used as is
+  onSelectSaved: (food: Food) => void;
+  // gtin is the normalized barcode, for saving on the new food
+  onSelectUSDA: (food: SelectedFood, gtin: string) => void;
+}
+
+/**
+ * Barcode field for typed codes or codes pasted from a scanner app
+ */
+export function BarcodeLookup({ onSelectSaved, onSelectUSDA }: BarcodeLookupProps) {
+  const { user } = useAuth();
+  const [barcode, setBarcode] = useState('');
+  const [looking, setLooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLookup = async () => {
+    const gtin = normalizeBarcode(barcode);
+    if (!gtin) {
+      setError('Enter a valid UPC or EAN barcode (8 to 14 digits)');
+      return;
+    }
+
+    setError(null);
+    setLooking(true);
+    try {
+      const supabase = createClient();
+      const { data: saved, error: savedError } = await supabase
+        .from('foods')
+        .select('*')
+        .eq('user_id', user?.id)
+        .eq('upc', gtin)
+        .maybeSingle();
+
+      if (savedError) throw savedError;
+      if (saved) {
+        onSelectSaved(saved);
+        setBarcode('');
+        return;
+      }
+
+      const response = await fetch(`/api/food-barcode?upc=${gtin}`);
+      const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+      if (!response.ok) {
+        throw new Error(data.error || `Lookup failed: ${response.status}`);
+      }
+
+      onSelectUSDA(toSelectedFood(data.food, data.food.portions || []), gtin);
+      setBarcode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up barcode');
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={barcode}
+          onChange={(e) => setBarcode(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleLookup(); } }}
+          placeholder="Barcode (UPC/EAN)"
+          className="flex-1 rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+        />
+        <button
+          type="button"
+          onClick={handleLookup}
+          disabled={looking || !barcode.trim()}
+          className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 disabled:opacity-50"
+        >
+          {looking ? 'Looking up...' : 'Look Up'}
+        </button>
+      </div>
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+
+interface CopyToDateFormProps {
+  title: string;
+  defaultDate: string;
+  onCopy: (targetDate: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function CopyToDateForm({ title, defaultDate, onCopy, onCancel }: CopyToDateFormProps) {
+  const [targetDate, setTargetDate] = useState(defaultDate);
+  const [copying, setCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCopy = async () => {
+    if (!targetDate) return;
+    setCopying(true);
+    setError(null);
+
+    try {
+      await onCopy(targetDate);
+    } catch (err: unknown) {
+      console.error('Error copying meals:', err);
+      if (err instanceof Error) {
+        setError(err.message);
+      } else if (typeof err === 'object' && err !== null && 'message' in err) {
+        setError(String((err as { message: unknown }).message));
+      } else {
+        setError('Failed to copy. Please try again.');
+      }
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-pink-200 bg-pink-50 p-4 space-y-3">
+      <p className="text-sm font-medium text-zinc-900">{title}</p>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-2 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          value={targetDate}
+          onChange={(e) => setTargetDate(e.target.value)}
+          className="rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+        />
+        <button
+          type="button"
+          onClick={handleCopy}
+          disabled={copying || !targetDate}
+          className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {copying ? 'Copying...' : 'Copy'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
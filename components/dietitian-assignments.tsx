@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { DietitianClient, UserProfile } from '@/lib/types';
+import { formatDateForDisplay } from '@/lib/utils/date';
+
+interface DietitianAssignmentsProps {
+  profile: UserProfile;
+}
+
+type ProfileSummary = Pick<UserProfile, 'user_id' | 'full_name' | 'username'>;
+
+export function DietitianAssignments({ profile }: DietitianAssignmentsProps) {
+  const [assignments, setAssignments] = useState<DietitianClient[]>([]);
+  const [profiles, setProfiles] = useState<Map<string, ProfileSummary>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const supabase = createClient();
+
+  const isDietitian = profile.role === 'dietitian';
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [profile.user_id]);
+
+  const fetchAssignments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('dietitian_clients')
+        .select('*')
+        .eq(isDietitian ? 'dietitian_id' : 'client_id', profile.user_id)
+        .neq('status', 'revoked')
+        .order('invited_at', { ascending: false });
+
+      if (error) throw error;
+      setAssignments(data || []);
+
+      const otherIds = (data || []).map((a) => (isDietitian ? a.client_id : a.dietitian_id));
+      if (otherIds.length > 0) {
+        const { data: profileData, error: profileError } = await supabase
+          .from('user_profiles')
+          .select('user_id, full_name, username')
+          .in('user_id', otherIds);
+
+        if (profileError) throw profileError;
+        setProfiles(new Map((profileData || []).map((p) => [p.user_id, p])));
+      }
+    } catch (err) {
+      console.error('Error fetching assignments:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    const username = inviteUsername.trim().replace(/^@/, '');
+    if (!username) return;
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const { data: client, error: lookupError } = await supabase
+        .from('user_profiles')
+        .select('user_id, full_name, role')
+        .eq('username', username)
+        .maybeSingle();
+
+      if (lookupError) throw lookupError;
+      if (!client) throw new Error(`No user found with username "${username}"`);
+      if (client.role !== 'client') throw new Error(`${client.full_name} is not a client account`);
+
+      const { error } = await supabase
+        .from('dietitian_clients')
+        .insert({
+          dietitian_id: profile.user_id,
+          client_id: client.user_id,
+        });
+
+      if (error) {
+        // Unique index on open pairs: an invite or assignment already exists
+        if (error.code === '23505') throw new Error(`${client.full_name} already has an open invite from you`);
+        throw error;
+      }
+
+      setInviteUsername('');
+      setMessage({ type: 'success', text: `Invite sent to ${client.full_name}` });
+      await fetchAssignments();
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Failed to send invite',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateStatus = async (assignment: DietitianClient, status: 'active' | 'revoked', confirmText?: string) => {
+    if (confirmText && !confirm(confirmText)) return;
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const { error } = await supabase
+        .from('dietitian_clients')
+        .update({ status })
+        .eq('id', assignment.id);
+
+      if (error) {
+        // Unique index on active clients: the client already has a dietitian
+        if (error.code === '23505') throw new Error('Remove your current dietitian before accepting a new one');
+        throw error;
+      }
+
+      await fetchAssignments();
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Failed to update assignment',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateUnlockRule = async (assignment: DietitianClient, dietitianUnlockOnly: boolean) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const { error } = await supabase
+        .from('dietitian_clients')
+        .update({ dietitian_unlock_only: dietitianUnlockOnly })
+        .eq('id', assignment.id);
+
+      if (error) throw error;
+      await fetchAssignments();
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Failed to update unlock setting',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getName = (userId: string) => {
+    const p = profiles.get(userId);
+    if (!p) return 'Unknown';
+    return p.username ? `${p.full_name} (@${p.username})` : p.full_name;
+  };
+
+  const active = assignments.filter((a) => a.status === 'active');
+  const pending = assignments.filter((a) => a.status === 'pending');
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-6">
+      <h2 className="text-lg font-semibold mb-4">{isDietitian ? 'Clients' : 'Dietitian'}</h2>
+
+      {message && (
+        <div
+          className={`mb-4 rounded-md p-4 text-sm ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-600'
+              : 'bg-red-50 text-red-600'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-zinc-500">Loading...</p>
+      ) : (
+        <div className="space-y-4">
+          {isDietitian && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={inviteUsername}
+                onChange={(e) => setInviteUsername(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleInvite(); } }}
+                placeholder="Client's username"
+                className="flex-1 rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-pink-500 focus:outline-none focus:ring-1 focus:ring-pink-500"
+              />
+              <button
+                type="button"
+                onClick={handleInvite}
+                disabled={saving || !inviteUsername.trim()}
+                className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-pink-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Invite
+              </button>
+            </div>
+          )}
+
+          {active.length === 0 && pending.length === 0 && (
+            <p className="text-sm text-zinc-500">
+              {isDietitian
+                ? 'No clients yet. Invite a client by their username.'
+                : 'You are not connected to a dietitian. Ask your dietitian to invite your username.'}
+            </p>
+          )}
+
+          {active.map((assignment) => {
+            const otherId = isDietitian ? assignment.client_id : assignment.dietitian_id;
+            return (
+              <div
+                key={assignment.id}
+                className="flex items-center justify-between rounded-lg border border-zinc-200 p-3 text-sm"
+              >
+                <div>
+                  <p className="font-medium">{getName(otherId)}</p>
+                  <p className="text-xs text-zinc-500">
+                    Connected {assignment.responded_at ? formatDateForDisplay(assignment.responded_at) : ''}
+                  </p>
+                  {isDietitian ? (
+                    <label className="mt-1 flex items-center gap-2 text-xs text-zinc-600">
+                      <input
+                        type="checkbox"
+                        checked={assignment.dietitian_unlock_only}
+                        onChange={(e) => updateUnlockRule(assignment, e.target.checked)}
+                        disabled={saving}
+                        className="rounded border-zinc-300"
+                      />
+                      Only I can unlock locked days
+                    </label>
+                  ) : assignment.dietitian_unlock_only && (
+                    <p className="mt-1 text-xs text-zinc-500">Your dietitian unlocks locked days</p>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => updateStatus(
+                    assignment,
+                    'revoked',
+                    isDietitian
+                      ? 'Stop working with this client? You will lose access to their logs.'
+                      : 'Remove your dietitian? They will lose access to your logs.'
+                  )}
+                  disabled={saving}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            );
+          })}
+
+          {pending.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-zinc-900">
+                {isDietitian ? 'Pending invites' : 'Invitations'}
+              </p>
+              {pending.map((assignment) => {
+                const otherId = isDietitian ? assignment.client_id : assignment.dietitian_id;
+                return (
+                  <div
+                    key={assignment.id}
+                    className="flex items-center justify-between rounded-lg border border-dashed border-zinc-300 p-3 text-sm"
+                  >
+                    <div>
+                      <p className="font-medium">{getName(otherId)}</p>
+                      <p className="text-xs text-zinc-500">
+                        Invited {formatDateForDisplay(assignment.invited_at)}
+                      </p>
+                    </div>
+                    {isDietitian ? (
+                      <button
+                        type="button"
+                        onClick={() => updateStatus(assignment, 'revoked')}
+                        disabled={saving}
+                        className="text-sm text-zinc-500 hover:text-zinc-900 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    ) : (
+                      <div className="flex gap-3">
+                        <button
+                          type="button"
+                          onClick={() => updateStatus(assignment, 'active')}
+                          disabled={saving}
+                          className="text-sm font-medium text-green-700 hover:text-green-900 disabled:opacity-50"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => updateStatus(assignment, 'revoked')}
+                          disabled={saving}
+                          className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Food, FoodPortion, NormalizedFood, NutrientVector, NutritionBasis, PortionWeights, Recipe, SearchResult } from '@/lib/types';
+import { getPortionWeights, getRecipePerServing, nutrientsForGrams, roundNutrients, toNutrientVector } from '@/lib/utils/nutrition';
+
+// Nutrition per 1 cup when USDA has a cup portion, otherwise per 100g
+export interface SelectedFood extends NutrientVector {
+  name: string;
+  defaultAmount: string;
+  basis: NutritionBasis;
+  weights: PortionWeights;
+}
+
+const PER_100G: NutritionBasis = { quantity: 100, unit: 'g' };
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Converts a USDA food (nutrients per 100g) to per-cup values when its portions include a cup
+ */
+export function toSelectedFood(food: NormalizedFood, portions: FoodPortion[]): SelectedFood {
+  const weights = getPortionWeights(portions);
+  const cupGrams = weights.cup;
+  const per100g = toNutrientVector(food);
+
+  return {
+    name: food.description,
+    ...roundNutrients(cupGrams ? nutrientsForGrams(per100g, cupGrams) : per100g),
+    defaultAmount: cupGrams ? `per 1 cup (${Math.round(cupGrams)}g)` : 'per 100g (no cup data)',
+    basis: cupGrams ? { quantity: 1, unit: 'cup' } : PER_100G,
+    weights,
+  };
+}
+
+// Search results rarely carry portions; the detail endpoint has them
+async function loadSelectedFood(food: NormalizedFood): Promise<SelectedFood> {
+  let portions = food.portions || [];
+
+  if (portions.length === 0) {
+    try {
+      const detailRes = await fetch(`/api/food-search?fdcId=${food.fdcId}`);
+      if (detailRes.ok) {
+        const detailData = await detailRes.json();
+        portions = detailData.portions || [];
+      }
+    } catch (err) {
+      // Fall back to per-100g values
+      console.error('Error fetching food detail:', err);
+    }
+  }
+
+  return toSelectedFood(food, portions);
+}
+
+const SOURCE_BADGES: Record<SearchResult['source'], { label: string; className: string }> = {
+  food: { label: 'My Food', className: 'bg-zinc-100 text-zinc-700' },
+  recipe: { label: 'Recipe', className: 'bg-pink-100 text-pink-700' },
+  usda: { label: 'USDA', className: 'bg-green-100 text-green-700' },
+};
+
+function describeResult(result: SearchResult): string {
+  if (result.source === 'food') {
+    const food = result.food;
+    return `${food.default_amount}: ${food.calories_per_serving} cal | P: ${food.protein_per_serving || 0}g | C: ${food.carbs_per_serving || 0}g | F: ${food.fat_per_serving || 0}g`;
+  }
+  if (result.source === 'recipe') {
+    const serving = getRecipePerServing(result.recipe);
+    return `Per serving: ${serving.calories} cal | P: ${serving.protein.toFixed(1)}g | C: ${serving.carbs.toFixed(1)}g | F: ${serving.fat.toFixed(1)}g`;
+  }
+  const per100g = roundNutrients(toNutrientVector(result.usda));
+  return `Per 100g: ${per100g.calories} cal | P: ${per100g.protein.toFixed(1)}g | C: ${per100g.carbs.toFixed(1)}g | F: ${per100g.fat.toFixed(1)}g`;
+}
+
+interface FoodPickerProps {
+  onSelectFood: (food: Food) => void;
+  onSelectUSDA: (food: SelectedFood) => void;
+  // Recipes are only offered when this is given
+  onSelectRecipe?: (recipe: Recipe) => void;
+}
+
+/**
+ * One search box over the user's saved foods, recipes and USDA, ranked by /api/search
+ */
+export function FoodPicker({ onSelectFood, onSelectUSDA, onSelectRecipe }: FoodPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selecting, setSelecting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Shown under the results when USDA couldn't be searched or only had older results
+  const [notice, setNotice] = useState<string | null>(null);
+  const includeRecipes = !!onSelectRecipe;
+
+  useEffect(() => {
+    const term = query.trim();
+    if (term.length < 2) {
+      setResults([]);
+      setError(null);
+      setNotice(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/search?query=${encodeURIComponent(term)}${includeRecipes ? '' : '&recipes=0'}`);
+        const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+        if (!response.ok) {
+          throw new Error(data.error || `Search failed: ${response.status}`);
+        }
+        if (cancelled) return;
+
+        setResults(data.results || []);
+        if (data.usdaError) {
+          setNotice(`USDA results are unavailable (${data.usdaError}).`);
+        } else if (data.stale) {
+          setNotice('The USDA database can\'t be reached right now, so USDA results are from an earlier search.');
+        } else {
+          setNotice(null);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to search foods');
+        console.error('Search error:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, includeRecipes]);
+
+  const clear = () => {
+    setQuery('');
+    setResults([]);
+    setNotice(null);
+  };
+
+  const handleSelect = async (result: SearchResult) => {
+    if (result.source === 'food') {
+      onSelectFood(result.food);
+    } else if (result.source === 'recipe') {
+      onSelectRecipe?.(result.recipe);
+    } else {
+      setSelecting(result.id);
+      try {
+        onSelectUSDA(await loadSelectedFood(result.usda));
+      } finally {
+        setSelecting(null);
+      }
+    }
+    clear();
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.preventDefault(); }}
+        placeholder={includeRecipes ? 'Search my foods, recipes and USDA...' : 'Search my foods and USDA...'}
+        className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+      />
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {query.trim().length >= 2 && (
+        <div className="rounded-md border border-zinc-200 bg-white">
+          {loading && results.length === 0 ? (
+            <p className="py-3 text-center text-sm text-zinc-500">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="py-3 text-center text-sm text-zinc-500">No matches</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto divide-y divide-zinc-100">
+              {results.map((result) => {
+                const badge = SOURCE_BADGES[result.source];
+                return (
+                  <button
+                    key={`${result.source}-${result.id}`}
+                    type="button"
+                    onClick={() => handleSelect(result)}
+                    disabled={!!selecting}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-50 transition-colors disabled:opacity-50"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium text-zinc-900">
+                        {selecting === result.id ? 'Loading nutrition...' : result.name}
+                      </p>
+                      <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}>
+                        {badge.label}
+                      </span>
+                    </div>
+                    <p className="text-xs text-zinc-500">{describeResult(result)}</p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {notice && (
+            <p className="border-t border-zinc-100 px-3 py-2 text-xs text-zinc-500">{notice}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
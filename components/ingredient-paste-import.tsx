@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { createClient } from '@/lib/supabase/client';
+import { Food, NormalizedFood, QuantityUnit } from '@/lib/types';
+import { SERVING_UNITS, SERVING_UNIT_LABELS, parseIngredientLine } from '@/lib/utils/quantity';
+import {
+  ImportedIngredient,
+  IngredientMatch,
+  buildImportedIngredient,
+  ingredientSearchTerm,
+  rankSavedFoods,
+  savedFoodMatch,
+  usdaMatch,
+} from '@/lib/utils/ingredient-import';
+
+// Units offered in the review table; "serving" only fits saved foods measured in servings
+const IMPORT_UNITS: { value: QuantityUnit; label: string }[] = [
+  ...SERVING_UNITS.map(unit => ({ value: unit as QuantityUnit, label: SERVING_UNIT_LABELS[unit] })),
+  { value: 'serving', label: 'Servings' },
+];
+
+interface ImportRow {
+  key: number;
+  line: string;
+  query: string;
+  quantity: string;
+  unit: QuantityUnit;
+  candidates: IngredientMatch[];
+  selected: string | null;
+  searching: boolean;
+}
+
+interface IngredientPasteImportProps {
+  onImport: (items: ImportedIngredient[]) => void;
+  onCancel: () => void;
+}
+
+export function IngredientPasteImport({ onImport, onCancel }: IngredientPasteImportProps) {
+  const { user } = useAuth();
+  const supabase = createClient();
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [myFoods, setMyFoods] = useState<Food[]>([]);
+
+  useEffect(() => {
+    if (user?.id) {
+      supabase
+        .from('foods')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name')
+        .then(({ data }) => {
+          if (data) setMyFoods(data);
+        });
+    }
+  }, [user?.id]);
+
+  const searchUsda = async (query: string): Promise<IngredientMatch[]> => {
+    try {
+      const response = await fetch(`/api/food-search?query=${encodeURIComponent(query)}`);
+      if (!response.ok) return [];
+      const data = await response.json();
+      return (data.foods || []).slice(0, 5).map((food: NormalizedFood) => usdaMatch(food));
+    } catch (err) {
+      console.error('Search error:', err);
+      return [];
+    }
+  };
+
+  /**
+   * Saved foods come first; a saved food naming every word of the ingredient
+   * is taken as the match, otherwise the top USDA result is
+   */
+  const findCandidates = async (query: string) => {
+    const saved = rankSavedFoods(query, myFoods).slice(0, 3);
+    const savedMatches = saved.map(({ food }) => savedFoodMatch(food));
+    if (saved.length > 0 && saved[0].score === 1) {
+      return { candidates: savedMatches, selected: savedMatches[0].key };
+    }
+
+    const usda = await searchUsda(query);
+    const candidates = [...savedMatches, ...usda];
+    return { candidates, selected: (usda[0] ?? savedMatches[0])?.key ?? null };
+  };
+
+  const handleParse = async () => {
+    const parsed = text.split('\n').flatMap(line => {
+      const ingredient = parseIngredientLine(line);
+      return ingredient ? [{ line: line.trim(), ingredient }] : [];
+    });
+    if (parsed.length === 0) return;
+
+    setParsing(true);
+    const nextRows: ImportRow[] = [];
+    // One line at a time to stay well under the food search rate limit
+    for (const [index, { line, ingredient }] of parsed.entries()) {
+      const query = ingredientSearchTerm(ingredient.name);
+      const { candidates, selected } = await findCandidates(query);
+      const match = candidates.find(c => c.key === selected);
+      nextRows.push({
+        key: index,
+        line,
+        query,
+        // Lines without an amount ("salt to taste") start at one basis amount of the match
+        quantity: String(ingredient.quantity ?? match?.basis.quantity ?? 1),
+        unit: ingredient.unit ?? match?.basis.unit ?? 'each',
+        candidates,
+        selected,
+        searching: false,
+      });
+    }
+    setRows(nextRows);
+    setParsing(false);
+  };
+
+  const updateRow = (key: number, changes: Partial<ImportRow>) => {
+    setRows(prev => prev && prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const handleSearchAgain = async (row: ImportRow) => {
+    if (!row.query.trim()) return;
+    updateRow(row.key, { searching: true });
+    const { candidates, selected } = await findCandidates(row.query.trim());
+    updateRow(row.key, { candidates, selected, searching: false });
+  };
+
+  const removeRow = (key: number) => {
+    setRows(prev => prev && prev.filter(row => row.key !== key));
+  };
+
+  const getItem = (row: ImportRow): ImportedIngredient | null => {
+    const match = row.candidates.find(c => c.key === row.selected);
+    return match ? buildImportedIngredient(match, parseFloat(row.quantity), row.unit) : null;
+  };
+
+  const items = (rows || []).map(getItem);
+  const readyCount = items.filter(item => item !== null).length;
+  const allReady = rows !== null && rows.length > 0 && readyCount === rows.length;
+
+  const handleImport = () => {
+    if (!allReady) return;
+    onImport(items.filter((item): item is ImportedIngredient => item !== null));
+  };
+
+  if (rows === null) {
+    return (
+      <div className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
+        <label htmlFor="ingredient-paste" className="block text-sm font-medium text-zinc-900">
+          Paste an ingredient list, one per line
+        </label>
+        <textarea
+          id="ingredient-paste"
+          rows={6}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+          placeholder={'2 cups rolled oats\n1 tbsp honey\n1 banana, sliced'}
+        />
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleParse}
+            disabled={parsing || !text.trim()}
+            className="flex-1 rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {parsing ? 'Matching ingredients...' : 'Match Ingredients'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-zinc-900">Review ingredients</p>
+        <p className="text-xs text-zinc-500">
+          {readyCount} of {rows.length} ready
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map((row, index) => {
+          const item = items[index];
+          return (
+            <div
+              key={row.key}
+              className={`space-y-2 rounded-lg border bg-white p-3 text-sm ${
+                item ? 'border-zinc-200' : 'border-red-300'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-xs text-zinc-500">{row.line}</p>
+                <button
+                  type="button"
+                  onClick={() => removeRow(row.key)}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                  className="w-20 rounded-md border border-zinc-300 px-2 py-1"
+                />
+                <select
+                  value={row.unit}
+                  onChange={(e) => updateRow(row.key, { unit: e.target.value as QuantityUnit })}
+                  className="rounded-md border border-zinc-300 px-2 py-1"
+                >
+                  {IMPORT_UNITS.map(u => (
+                    <option key={u.value} value={u.value}>{u.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={row.selected ?? ''}
+                  onChange={(e) => updateRow(row.key, { selected: e.target.value || null })}
+                  className="min-w-0 flex-1 rounded-md border border-zinc-300 px-2 py-1"
+                >
+                  <option value="">{row.candidates.length === 0 ? 'No matches found' : 'Choose a food...'}</option>
+                  {row.candidates.map(candidate => (
+                    <option key={candidate.key} value={candidate.key}>
+                      {candidate.source === 'food' ? 'My Foods' : 'USDA'}: {candidate.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={row.query}
+                  onChange={(e) => updateRow(row.key, { query: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleSearchAgain(row);
+                    }
+                  }}
+                  className="min-w-0 flex-1 rounded-md border border-zinc-300 px-2 py-1"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleSearchAgain(row)}
+                  disabled={row.searching || !row.query.trim()}
+                  className="rounded-md border border-zinc-300 px-3 py-1 text-xs font-medium hover:bg-zinc-50 disabled:opacity-50"
+                >
+                  {row.searching ? 'Searching...' : 'Search again'}
+                </button>
+              </div>
+
+              {item ? (
+                <p className="text-xs text-zinc-500">
+                  {item.amount} · {item.calories} cal | P: {item.protein}g | C: {item.carbs}g | F: {item.fat}g
+                </p>
+              ) : (
+                <p className="text-xs text-red-600">
+                  {row.selected
+                    ? "This amount can't be converted for this food. Try grams or another unit."
+                    : 'Pick a food or search again.'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={!allReady}
+          className="flex-1 rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+        >
+          Add {rows.length} Ingredient{rows.length === 1 ? '' : 's'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setRows(null)}
+          className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium hover:bg-zinc-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
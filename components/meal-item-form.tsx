@@ -6,21 +6,18 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { createClient } from '@/lib/supabase/client';
 import { useAuth } from '@/lib/contexts/auth-context';
-import { FoodSearchModal } from './food-search-modal';
+import { Food, NutrientVector, NutritionBasis, PortionWeights, Recipe } from '@/lib/types';
+import { SERVING_UNITS, SERVING_UNIT_LABELS, ServingUnit, formatAmount, parseAmount } from '@/lib/utils/quantity';
+import { MICRONUTRIENTS, NUTRIENT_KEYS, convertToBasis, roundNutrients, scaleNutrients, toGrams, toNutrientVector } from '@/lib/utils/nutrition';
+import { BarcodeLookup } from './barcode-lookup';
+import { FoodPicker, SelectedFood } from './food-picker';
 
-const servingUnits = ['cup', 'tbsp', 'tsp', 'each', 'package'] as const;
-type ServingUnit = typeof servingUnits[number];
-
-const unitToCups: Record<string, number> = {
-  cup: 1,
-  tbsp: 1 / 16,
-  tsp: 1 / 48,
-};
+const DEFAULT_BASIS: NutritionBasis = { quantity: 1, unit: 'cup' };
 
 const mealItemSchema = z.object({
   food_name: z.string().min(1, 'Food name is required'),
   serving: z.number().min(0.25, 'Serving must be at least 0.25'),
-  unit: z.enum(servingUnits),
+  unit: z.enum(SERVING_UNITS),
   calories: z.number().min(0, 'Calories must be positive'),
   protein: z.number().min(0).optional(),
   carbs: z.number().min(0).optional(),
@@ -28,23 +25,21 @@ const mealItemSchema = z.object({
   fiber: z.number().min(0).optional(),
   notes: z.string().optional(),
   water: z.number().min(0).optional(),
+  sodium: z.number().min(0).optional(),
+  sugar: z.number().min(0).optional(),
+  saturated_fat: z.number().min(0).optional(),
+  potassium: z.number().min(0).optional(),
+  cholesterol: z.number().min(0).optional(),
 });
 
 type MealItemFormData = z.infer<typeof mealItemSchema>;
 
-interface BaseNutrition {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  fiber: number;
-  water: number;
-}
-
 interface MealItemFormProps {
   mealId: string;
   onSave: () => void;
   onCancel: () => void;
+  // Recipes are offered in the search when this is given; the meal logs them by servings
+  onSelectRecipe?: (recipe: Recipe) => void;
 }
 
 function loadMealItemDraft(userId: string | undefined, mealId: string) {
@@ -56,35 +51,25 @@ function loadMealItemDraft(userId: string | undefined, mealId: string) {
   return null;
 }
 
-interface UserFood {
-  id: string;
-  name: string;
-  calories_per_serving: number;
-  protein_per_serving: number;
-  carbs_per_serving: number;
-  fat_per_serving: number;
-  fiber_per_serving: number;
-  water_per_serving: number;
-}
-
-export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
+export function MealItemForm({ mealId, onSave, onCancel, onSelectRecipe }: MealItemFormProps) {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [searchModalOpen, setSearchModalOpen] = useState(false);
-  const [myFoods, setMyFoods] = useState<UserFood[]>([]);
-  const [showMyFoods, setShowMyFoods] = useState(false);
-  const [myFoodsQuery, setMyFoodsQuery] = useState('');
   const supabase = createClient();
 
   const draft = loadMealItemDraft(user?.id, mealId);
   const draftKey = user?.id ? `meal-item-draft-${user.id}-${mealId}` : null;
 
-  // Base nutrition = values per 1 cup
-  const [baseNutrition, setBaseNutrition] = useState<BaseNutrition | null>(
+  // Base nutrition = values per basis amount (1 cup, or 100 g without cup data)
+  const [baseNutrition, setBaseNutrition] = useState<NutrientVector | null>(
     () => draft?.baseNutrition || null
   );
+  const [basis, setBasis] = useState<NutritionBasis>(() => draft?.basis || DEFAULT_BASIS);
   const [servingInfo, setServingInfo] = useState<string | null>(null);
+  // Gram weights of a cup, piece and package, when known from USDA portions
+  const [weights, setWeights] = useState<PortionWeights>(() => draft?.weights || {});
+  // Barcode of a product looked up on USDA, saved on the new food entry
+  const [upc, setUpc] = useState<string | null>(null);
 
   const clearDraft = useCallback(() => {
     if (draftKey) localStorage.removeItem(draftKey);
@@ -108,6 +93,11 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
       fat: draft?.fat || 0,
       fiber: draft?.fiber || 0,
       water: draft?.water || 0,
+      sodium: draft?.sodium || 0,
+      sugar: draft?.sugar || 0,
+      saturated_fat: draft?.saturated_fat || 0,
+      potassium: draft?.potassium || 0,
+      cholesterol: draft?.cholesterol || 0,
       notes: draft?.notes || '',
     },
   });
@@ -120,85 +110,78 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
     const draftData = {
       ...formValues,
       baseNutrition,
+      basis,
+      weights,
     };
     localStorage.setItem(draftKey, JSON.stringify(draftData));
-  }, [draftKey, formValues.food_name, formValues.serving, formValues.unit, formValues.calories, formValues.protein, formValues.carbs, formValues.fat, formValues.fiber, formValues.water, formValues.notes, baseNutrition]);
+  }, [draftKey, formValues.food_name, formValues.serving, formValues.unit, formValues.calories, formValues.protein, formValues.carbs, formValues.fat, formValues.fiber, formValues.water, formValues.sodium, formValues.sugar, formValues.saturated_fat, formValues.potassium, formValues.cholesterol, formValues.notes, baseNutrition, basis, weights]);
 
-  // Fetch user's saved foods
-  useEffect(() => {
-    if (user?.id) {
-      supabase
-        .from('foods')
-        .select('id, name, calories_per_serving, protein_per_serving, carbs_per_serving, fat_per_serving, fiber_per_serving, water_per_serving')
-        .eq('user_id', user.id)
-        .order('name')
-        .then(({ data }) => {
-          if (data) setMyFoods(data);
-        });
-    }
-  }, [user?.id]);
-
-  const filteredMyFoods = myFoods.filter(f =>
-    f.name.toLowerCase().includes(myFoodsQuery.toLowerCase())
-  );
-
-  const handleMyFoodSelect = (food: UserFood) => {
-    const base: BaseNutrition = {
+  const handleMyFoodSelect = (food: Food) => {
+    const base = toNutrientVector({
       calories: food.calories_per_serving,
-      protein: food.protein_per_serving || 0,
-      carbs: food.carbs_per_serving || 0,
-      fat: food.fat_per_serving || 0,
-      fiber: food.fiber_per_serving || 0,
-      water: food.water_per_serving || 0,
-    };
+      protein: food.protein_per_serving,
+      carbs: food.carbs_per_serving,
+      fat: food.fat_per_serving,
+      fiber: food.fiber_per_serving,
+      water: food.water_per_serving,
+      sodium: food.sodium_per_serving,
+      sugar: food.sugar_per_serving,
+      saturated_fat: food.saturated_fat_per_serving,
+      potassium: food.potassium_per_serving,
+      cholesterol: food.cholesterol_per_serving,
+    });
+    // Foods saved before units were tracked hold per-cup values
+    const foodBasis = parseAmount(food.default_amount) ?? DEFAULT_BASIS;
     setBaseNutrition(base);
+    setBasis(foodBasis);
+    setWeights(food.portion_grams || {});
     setValue('food_name', food.name);
-    setValue('serving', 1);
+    setServingToBasis(foodBasis);
     scaleNutrition(base, 1);
-    setShowMyFoods(false);
-    setMyFoodsQuery('');
+    setServingInfo(null);
+    setUpc(null);
   };
 
-  const scaleNutrition = (base: BaseNutrition, cups: number) => {
-    setValue('calories', Math.round(base.calories * cups));
-    setValue('protein', Math.round(base.protein * cups * 10) / 10);
-    setValue('carbs', Math.round(base.carbs * cups * 10) / 10);
-    setValue('fat', Math.round(base.fat * cups * 10) / 10);
-    setValue('fiber', Math.round(base.fiber * cups * 10) / 10);
-    setValue('water', Math.round(base.water * cups * 10) / 10);
+  const scaleNutrition = (base: NutrientVector, factor: number) => {
+    const scaled = roundNutrients(scaleNutrients(base, factor));
+    NUTRIENT_KEYS.forEach(key => setValue(key, scaled[key]));
   };
 
-  const handleFoodSelect = (food: {
-    name: string;
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber: number;
-    water: number;
-    defaultAmount: string;
-  }) => {
-    // Store as per-1-cup values
-    const base: BaseNutrition = {
-      calories: food.calories,
-      protein: food.protein,
-      carbs: food.carbs,
-      fat: food.fat,
-      fiber: food.fiber,
-      water: food.water,
-    };
+  // Show the amount the nutrition is for, when the form offers that unit
+  const setServingToBasis = (foodBasis: NutritionBasis) => {
+    setValue('serving', foodBasis.quantity);
+    if ((SERVING_UNITS as readonly string[]).includes(foodBasis.unit)) {
+      setValue('unit', foodBasis.unit as ServingUnit);
+    }
+  };
+
+  const handleFoodSelect = (food: SelectedFood) => {
+    const base = toNutrientVector(food);
     setBaseNutrition(base);
+    setBasis(food.basis);
+    setWeights(food.weights);
     setServingInfo(food.defaultAmount);
     setValue('food_name', food.name);
-    setValue('serving', 1);
+    setServingToBasis(food.basis);
     scaleNutrition(base, 1);
+    setUpc(null);
+  };
+
+  const handleBarcodeSelect = (food: SelectedFood, gtin: string) => {
+    handleFoodSelect(food);
+    setUpc(gtin);
+  };
+
+  const handleRecipeSelect = (recipe: Recipe) => {
+    clearDraft();
+    onSelectRecipe?.(recipe);
   };
 
   const rescaleFromUnit = (servingVal: number, unit: ServingUnit) => {
     if (!baseNutrition) return;
-    if (unit === 'each' || unit === 'package') return;
-    const cups = servingVal * unitToCups[unit];
-    scaleNutrition(baseNutrition, cups);
+    const factor = convertToBasis(servingVal, unit, basis, weights);
+    if (factor === null) return;
+    scaleNutrition(baseNutrition, factor);
   };
 
   const handleServingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -217,30 +200,9 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
     }
   };
 
-  const formatAmount = (val: number, unit: ServingUnit): string => {
-    if (unit === 'each') {
-      return `${val}`;
-    }
-    if (unit === 'package') {
-      return val === 1 ? '1 package' : `${val} packages`;
-    }
-    if (unit === 'tbsp') {
-      return val === 1 ? '1 tbsp' : `${val} tbsp`;
-    }
-    if (unit === 'tsp') {
-      return val === 1 ? '1 tsp' : `${val} tsp`;
-    }
-    if (val === 0.25) return '1/4 cup';
-    if (val === 0.5) return '1/2 cup';
-    if (val === 0.75) return '3/4 cup';
-    if (val === 1) return '1 cup';
-    if (val === 1.25) return '1 1/4 cups';
-    if (val === 1.5) return '1 1/2 cups';
-    if (val === 1.75) return '1 3/4 cups';
-    if (val === 2) return '2 cups';
-    if (val === 2.5) return '2 1/2 cups';
-    if (val === 3) return '3 cups';
-    return `${val} cups`;
+  const getGrams = (serving: number, unit: ServingUnit): number | null => {
+    const grams = toGrams(serving, unit, weights);
+    return grams === null ? null : Math.round(grams * 10) / 10;
   };
 
   const onSubmit = async (data: MealItemFormData) => {
@@ -261,54 +223,88 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
         ? existingItems[0].order + 1
         : 1;
 
-      const { error: insertError } = await supabase
-        .from('meal_items')
-        .insert({
-          meal_id: mealId,
-          food_name: data.food_name,
-          amount: formatAmount(data.serving, data.unit),
-          calories: data.calories,
-          protein: data.protein || 0,
-          carbs: data.carbs || 0,
-          fat: data.fat || 0,
-          fiber: data.fiber || 0,
-          water: data.water || 0,
-          notes: data.notes || null,
-          order: nextOrder,
-        });
-
-      if (insertError) throw insertError;
-
+      // Every logged item points at its saved food, which keeps the food's usage stats
+      let foodId: string | null = null;
       if (user?.id) {
         const { data: existingFood, error: existingFoodError } = await supabase
           .from('foods')
-          .select('id')
+          .select('id, upc')
           .eq('user_id', user.id)
-          .ilike('name', data.food_name)
+          // Same rule as the backfill in migration-food-usage.sql: the same name in
+          // any case, with "%" and "_" escaped so "2% milk" isn't a pattern
+          .ilike('name', data.food_name.replace(/[\\%_]/g, '\\$&'))
           .limit(1)
           .maybeSingle();
 
         if (existingFoodError) throw existingFoodError;
 
+        foodId = existingFood?.id ?? null;
+
+        if (existingFood && upc && !existingFood.upc) {
+          const { error: upcError } = await supabase
+            .from('foods')
+            .update({ upc })
+            .eq('id', existingFood.id);
+
+          if (upcError) throw upcError;
+        }
+
         if (!existingFood) {
-          const { error: foodInsertError } = await supabase
+          const { data: newFood, error: foodInsertError } = await supabase
             .from('foods')
             .insert({
               user_id: user.id,
               name: data.food_name,
-              default_amount: '1 cup',
+              default_amount: baseNutrition ? formatAmount(basis.quantity, basis.unit) : '1 cup',
+              portion_grams: baseNutrition ? weights : null,
+              upc,
               calories_per_serving: baseNutrition ? baseNutrition.calories : data.calories,
               protein_per_serving: baseNutrition ? baseNutrition.protein : (data.protein || 0),
               carbs_per_serving: baseNutrition ? baseNutrition.carbs : (data.carbs || 0),
               fat_per_serving: baseNutrition ? baseNutrition.fat : (data.fat || 0),
               fiber_per_serving: baseNutrition ? baseNutrition.fiber : (data.fiber || 0),
               water_per_serving: baseNutrition ? baseNutrition.water : (data.water || 0),
-            });
+              sodium_per_serving: baseNutrition ? baseNutrition.sodium : (data.sodium || 0),
+              sugar_per_serving: baseNutrition ? baseNutrition.sugar : (data.sugar || 0),
+              saturated_fat_per_serving: baseNutrition ? baseNutrition.saturated_fat : (data.saturated_fat || 0),
+              potassium_per_serving: baseNutrition ? baseNutrition.potassium : (data.potassium || 0),
+              cholesterol_per_serving: baseNutrition ? baseNutrition.cholesterol : (data.cholesterol || 0),
+            })
+            .select('id')
+            .single();
 
           if (foodInsertError) throw foodInsertError;
+          foodId = newFood.id;
         }
       }
 
+      const { error: insertError } = await supabase
+        .from('meal_items')
+        .insert({
+          meal_id: mealId,
+          food_id: foodId,
+          food_name: data.food_name,
+          amount: formatAmount(data.serving, data.unit),
+          quantity: data.serving,
+          unit: data.unit,
+          grams: getGrams(data.serving, data.unit),
+          calories: data.calories,
+          protein: data.protein || 0,
+          carbs: data.carbs || 0,
+          fat: data.fat || 0,
+          fiber: data.fiber || 0,
+          water: data.water || 0,
+          sodium: data.sodium || 0,
+          sugar: data.sugar || 0,
+          saturated_fat: data.saturated_fat || 0,
+          potassium: data.potassium || 0,
+          cholesterol: data.cholesterol || 0,
+          notes: data.notes || null,
+          order: nextOrder,
+        });
+
+      if (insertError) throw insertError;
+
       clearDraft();
       onSave();
     } catch (err: unknown) {
@@ -326,69 +322,23 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
   };
 
   return (
-    <>
-      <FoodSearchModal
-        isOpen={searchModalOpen}
-        onClose={() => setSearchModalOpen(false)}
-        onSelect={handleFoodSelect}
-      />
-
-      <form onSubmit={handleSubmit(onSubmit)} className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
         {error && (
           <div className="rounded-md bg-red-50 p-2 text-sm text-red-600">
             {error}
           </div>
         )}
 
-        <div className="flex gap-2">
-          <button
-            type="button"
-            onClick={() => setSearchModalOpen(true)}
-            className="flex-1 rounded-md border-2 border-dashed border-zinc-300 px-4 py-3 text-sm font-medium text-zinc-600 hover:border-zinc-400 hover:text-zinc-900"
-          >
-            Search USDA
-          </button>
-          <button
-            type="button"
-            onClick={() => setShowMyFoods(!showMyFoods)}
-            className="flex-1 rounded-md border-2 border-dashed border-zinc-300 px-4 py-3 text-sm font-medium text-zinc-600 hover:border-zinc-400 hover:text-zinc-900"
-          >
-            My Foods
-          </button>
-        </div>
+        <FoodPicker
+          onSelectFood={handleMyFoodSelect}
+          onSelectUSDA={handleFoodSelect}
+          onSelectRecipe={onSelectRecipe ? handleRecipeSelect : undefined}
+        />
 
-        {showMyFoods && (
-          <div className="rounded-md border border-zinc-200 bg-white p-3 space-y-2">
-            <input
-              type="text"
-              placeholder="Filter my foods..."
-              value={myFoodsQuery}
-              onChange={(e) => setMyFoodsQuery(e.target.value)}
-              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
-            />
-            <div className="max-h-48 overflow-y-auto space-y-1">
-              {filteredMyFoods.length === 0 ? (
-                <p className="text-sm text-zinc-500 text-center py-2">
-                  {myFoods.length === 0 ? 'No saved foods yet' : 'No matches'}
-                </p>
-              ) : (
-                filteredMyFoods.map((food) => (
-                  <button
-                    key={food.id}
-                    type="button"
-                    onClick={() => handleMyFoodSelect(food)}
-                    className="w-full text-left rounded-md px-3 py-2 text-sm hover:bg-zinc-50 transition-colors"
-                  >
-                    <p className="font-medium">{food.name}</p>
-                    <p className="text-xs text-zinc-500">
-                      {food.calories_per_serving} cal | P: {food.protein_per_serving || 0}g | C: {food.carbs_per_serving || 0}g | F: {food.fat_per_serving || 0}g
-                    </p>
-                  </button>
-                ))
-              )}
-            </div>
-          </div>
-        )}
+        <BarcodeLookup
+          onSelectSaved={handleMyFoodSelect}
+          onSelectUSDA={handleBarcodeSelect}
+        />
 
         <div className="grid grid-cols-2 gap-3">
         <div className="col-span-2">
@@ -435,11 +385,9 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
               }}
               className="rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
             >
-              <option value="cup">Cups</option>
-              <option value="tbsp">Tbsp</option>
-              <option value="tsp">Tsp</option>
-              <option value="each">Each</option>
-              <option value="package">Package</option>
+              {SERVING_UNITS.map((unit) => (
+                <option key={unit} value={unit}>{SERVING_UNIT_LABELS[unit]}</option>
+              ))}
             </select>
           </div>
           {errors.serving && (
@@ -527,6 +475,21 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
           />
         </div>
 
+        {MICRONUTRIENTS.map(({ key, label, unit }) => (
+          <div key={key}>
+            <label htmlFor={key} className="block text-sm font-medium text-zinc-900">
+              {label} ({unit})
+            </label>
+            <input
+              id={key}
+              type="number"
+              step={unit === 'mg' ? '1' : '0.1'}
+              {...register(key, { valueAsNumber: true })}
+              className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+            />
+          </div>
+        ))}
+
         <div className="col-span-2">
           <label htmlFor="notes" className="block text-sm font-medium text-zinc-900">
             Notes (optional)
@@ -557,7 +520,6 @@ export function MealItemForm({ mealId, onSave, onCancel }: MealItemFormProps) {
           Cancel
         </button>
       </div>
-      </form>
-    </>
+    </form>
   );
 }
@@ -1,12 +1,18 @@
 'use client';
 
 import { useState } from 'react';
-import { Meal, MealType } from '@/lib/types';
+import { DietitianNote, Meal, MealType, Recipe } from '@/lib/types';
 import { createClient } from '@/lib/supabase/client';
 import { useAuth } from '@/lib/contexts/auth-context';
+import { formatDateForDisplay } from '@/lib/utils/date';
+import { roundNutrients, sumNutrients } from '@/lib/utils/nutrition';
 import { MealItemForm } from './meal-item-form';
+import { QuickAddFoods } from './quick-add-foods';
 import { RecipeSelector } from './recipe-selector';
+import { TemplateSelector } from './template-selector';
+import { SaveTemplateForm } from './save-template-form';
 import { NoteForm } from './note-form';
+import { NoteThreadPopover } from './note-thread-popover';
 
 interface MealSectionProps {
   mealType: MealType;
@@ -18,6 +24,12 @@ interface MealSectionProps {
   onDeleteMeal: (mealId: string) => void;
   onAddMeal: (newMeal: Meal) => void;
   isLocked?: boolean;
+  clientId?: string;
+  logDate?: string;
+  notes?: DietitianNote[];
+  onNotesChange?: () => void;
+  onCopyMeal?: (meal: Meal) => void;
+  canSaveTemplates?: boolean;
 }
 
 export function MealSection({
@@ -30,6 +42,12 @@ export function MealSection({
   onDeleteMeal,
   onAddMeal,
   isLocked = false,
+  clientId,
+  logDate,
+  notes = [],
+  onNotesChange,
+  onCopyMeal,
+  canSaveTemplates = false,
 }: MealSectionProps) {
   const { user } = useAuth();
   const [isExpanded, setIsExpanded] = useState(true); // Expanded by default
@@ -37,8 +55,13 @@ export function MealSection({
   const [currentMeal, setCurrentMeal] = useState<Meal | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showAddMenu, setShowAddMenu] = useState<string | null>(null); // Track which meal's menu is open
-  const [addType, setAddType] = useState<'food' | 'recipe' | 'note'>('food'); // Track what type of item to add
+  const [addType, setAddType] = useState<'food' | 'recipe' | 'template' | 'note'>('food'); // Track what type of item to add
+  const [pickedRecipe, setPickedRecipe] = useState<Recipe | null>(null); // Recipe chosen from the food search
+  const [templateMealId, setTemplateMealId] = useState<string | null>(null); // Meal being saved as a template
+  const [savedTemplateMealId, setSavedTemplateMealId] = useState<string | null>(null);
   const supabase = createClient();
+  // Whose log this is; a dietitian viewing a client passes the client's id
+  const ownerId = clientId || user?.id;
 
   const handleAddMeal = async () => {
     if (!dailyLogId) {
@@ -97,9 +120,10 @@ export function MealSection({
       if (error) throw error;
     } catch (err) {
       console.error('Error deleting item:', err);
-      // Re-fetch to restore correct state on failure
-      await onUpdate();
     }
+
+    // Re-fetch for the database's totals (and to restore the item on failure)
+    await onUpdate();
   };
 
   const handleDeleteMeal = async (mealId: string) => {
@@ -130,21 +154,17 @@ export function MealSection({
       if (mealError) throw mealError;
     } catch (err) {
       console.error('Error deleting meal:', err);
-      // Re-fetch to restore correct state on failure
-      await onUpdate();
     }
-  };
 
-  const getMealTotals = (meal: Meal) => {
-    const items = meal.meal_items || [];
-    return {
-      calories: items.reduce((sum, item) => sum + (item.calories || 0), 0),
-      protein: items.reduce((sum, item) => sum + (item.protein || 0), 0),
-      carbs: items.reduce((sum, item) => sum + (item.carbs || 0), 0),
-      fat: items.reduce((sum, item) => sum + (item.fat || 0), 0),
-    };
+    // Re-fetch for the database's totals (and to restore the meal on failure)
+    await onUpdate();
   };
 
+  const getMealTotals = (meal: Meal) => roundNutrients(sumNutrients(meal.meal_items || []));
+
+  // Notes are only available once the day exists to attach them to
+  const canAttachNotes = !!(clientId && logDate && onNotesChange);
+
   return (
     <div className="rounded-lg border border-zinc-200 bg-white">
       <button
@@ -188,16 +208,57 @@ export function MealSection({
                       P: {totals.protein}g | C: {totals.carbs}g | F: {totals.fat}g
                     </span>
                   </div>
-                  {!isLocked && (
-                    <button
-                      onClick={() => handleDeleteMeal(meal.id)}
-                      className="text-sm text-red-600 hover:text-red-800"
-                    >
-                      Delete
-                    </button>
-                  )}
+                  <div className="flex items-center gap-3">
+                    {canAttachNotes && (
+                      <NoteThreadPopover
+                        clientId={clientId!}
+                        notes={notes.filter((n) => n.meal_id === meal.id && !n.meal_item_id)}
+                        reference={{ log_date: logDate!, meal_id: meal.id, meal_item_id: null }}
+                        defaultTitle={`${mealLabel} · ${formatDateForDisplay(logDate!)}`}
+                        onChange={onNotesChange!}
+                      />
+                    )}
+                    {canSaveTemplates && meal.meal_items && meal.meal_items.length > 0 && (
+                      <button
+                        onClick={() => {
+                          setTemplateMealId(meal.id);
+                          setSavedTemplateMealId(null);
+                        }}
+                        className="text-sm text-zinc-600 hover:text-pink-500"
+                      >
+                        {savedTemplateMealId === meal.id ? 'Saved ✓' : 'Save as template'}
+                      </button>
+                    )}
+                    {onCopyMeal && (
+                      <button
+                        onClick={() => onCopyMeal(meal)}
+                        className="text-sm text-zinc-600 hover:text-pink-500"
+                      >
+                        Copy to…
+                      </button>
+                    )}
+                    {!isLocked && (
+                      <button
+                        onClick={() => handleDeleteMeal(meal.id)}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
                 </div>
 
+                {templateMealId === meal.id && (
+                  <SaveTemplateForm
+                    meal={meal}
+                    onSave={() => {
+                      setTemplateMealId(null);
+                      setSavedTemplateMealId(meal.id);
+                    }}
+                    onCancel={() => setTemplateMealId(null)}
+                  />
+                )}
+
                 {meal.meal_items && meal.meal_items.length > 0 && (
                   <div className="space-y-2 mb-3">
                     {meal.meal_items.map((item) => (
@@ -214,6 +275,15 @@ export function MealSection({
                         </div>
                         <div className="flex items-center gap-3">
                           <span className="text-zinc-600">{item.calories} cal</span>
+                          {canAttachNotes && (
+                            <NoteThreadPopover
+                              clientId={clientId!}
+                              notes={notes.filter((n) => n.meal_item_id === item.id)}
+                              reference={{ log_date: logDate!, meal_id: meal.id, meal_item_id: item.id }}
+                              defaultTitle={`${item.food_name} · ${mealLabel}, ${formatDateForDisplay(logDate!)}`}
+                              onChange={onNotesChange!}
+                            />
+                          )}
                           {!isLocked && (
                             <button
                               onClick={() => handleDeleteItem(meal.id, item.id)}
@@ -232,8 +302,33 @@ export function MealSection({
                   currentMeal?.id === meal.id && isAddingItem ? (
                     <>
                       {addType === 'food' && (
-                        <MealItemForm
+                        <div className="space-y-3">
+                          {ownerId && (
+                            <QuickAddFoods
+                              mealId={meal.id}
+                              mealType={mealType}
+                              userId={ownerId}
+                              onSave={handleSaveItem}
+                            />
+                          )}
+                          <MealItemForm
+                            mealId={meal.id}
+                            onSave={handleSaveItem}
+                            onCancel={() => {
+                              setIsAddingItem(false);
+                              setCurrentMeal(null);
+                            }}
+                            onSelectRecipe={(recipe) => {
+                              setPickedRecipe(recipe);
+                              setAddType('recipe');
+                            }}
+                          />
+                        </div>
+                      )}
+                      {addType === 'recipe' && (
+                        <RecipeSelector
                           mealId={meal.id}
+                          initialRecipe={pickedRecipe}
                           onSave={handleSaveItem}
                           onCancel={() => {
                             setIsAddingItem(false);
@@ -241,9 +336,10 @@ export function MealSection({
                           }}
                         />
                       )}
-                      {addType === 'recipe' && (
-                        <RecipeSelector
+                      {addType === 'template' && (
+                        <TemplateSelector
                           mealId={meal.id}
+                          mealType={mealType}
                           onSave={handleSaveItem}
                           onCancel={() => {
                             setIsAddingItem(false);
@@ -293,6 +389,7 @@ export function MealSection({
                               type="button"
                               onClick={() => {
                                 setAddType('recipe');
+                                setPickedRecipe(null);
                                 handleAddItemToMeal(meal.id);
                                 setShowAddMenu(null);
                               }}
@@ -300,6 +397,17 @@ export function MealSection({
                             >
                               📖 Add Recipe
                             </button>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setAddType('template');
+                                handleAddItemToMeal(meal.id);
+                                setShowAddMenu(null);
+                              }}
+                              className="w-full text-left px-4 py-2 text-sm text-zinc-700 hover:bg-pink-50 hover:text-pink-600 transition-colors"
+                            >
+                              📋 Add Template
+                            </button>
                             <button
                               type="button"
                               onClick={() => {
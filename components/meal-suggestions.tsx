@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { fetchSharedRecipes } from '@/lib/supabase/recipe-shares';
+import {
+  MIN_REMAINING_CALORIES,
+  MacroAmounts,
+  MealSuggestion,
+  foodCandidate,
+  recipeCandidate,
+  suggestMeals,
+} from '@/lib/utils/meal-suggestions';
+
+interface MealSuggestionsProps {
+  // Whose foods and recipes to suggest from
+  userId: string;
+  remaining: MacroAmounts;
+}
+
+function formatMacros(values: MacroAmounts): string {
+  return `${Math.round(values.calories)} cal | P: ${values.protein.toFixed(1)}g | C: ${values.carbs.toFixed(1)}g | F: ${values.fat.toFixed(1)}g | Fiber: ${values.fiber.toFixed(1)}g`;
+}
+
+/**
+ * "What should I eat?" panel: combinations of the user's own foods and recipes
+ * that fit what's left of today's goals, worked out in the browser
+ */
+export function MealSuggestions({ userId, remaining }: MealSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<MealSuggestion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const handleSuggest = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [foodsResult, recipesResult, shared] = await Promise.all([
+        supabase.from('foods').select('*').eq('user_id', userId),
+        supabase.from('recipes').select('*').eq('user_id', userId),
+        fetchSharedRecipes(supabase, userId),
+      ]);
+
+      if (foodsResult.error) throw foodsResult.error;
+      if (recipesResult.error) throw recipesResult.error;
+
+      setSuggestions(suggestMeals(remaining, [
+        ...(foodsResult.data || []).map(foodCandidate),
+        ...(recipesResult.data || []).map(recipeCandidate),
+        ...shared.map(share => recipeCandidate(share.recipe)),
+      ]));
+    } catch (err) {
+      console.error('Error suggesting meals:', err);
+      setError('Failed to load your foods and recipes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-900">What should I eat?</h2>
+          <p className="text-xs text-zinc-500">Left today: {formatMacros(remaining)}</p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSuggest}
+          disabled={loading}
+          className="shrink-0 rounded-md border border-zinc-300 px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+        >
+          {loading ? 'Thinking...' : suggestions ? 'Refresh' : 'Suggest'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600">{error}</p>
+      )}
+
+      {suggestions && (
+        suggestions.length === 0 ? (
+          <p className="mt-3 text-sm text-zinc-500">
+            {remaining.calories < MIN_REMAINING_CALORIES
+              ? 'You\'ve about reached your calorie goal for today.'
+              : 'None of your saved foods or recipes fit what\'s left today.'}
+          </p>
+        ) : (
+          <ul className="mt-3 space-y-2">
+            {suggestions.map((suggestion) => (
+              <li
+                key={suggestion.items.map(item => `${item.candidate.source}-${item.candidate.id}-${item.factor}`).join('_')}
+                className="rounded-md border border-zinc-100 bg-zinc-50 p-3"
+              >
+                <ul className="space-y-0.5 text-sm text-zinc-900">
+                  {suggestion.items.map((item) => (
+                    <li key={`${item.candidate.source}-${item.candidate.id}`}>
+                      <span className="font-medium">{item.amount}</span> {item.candidate.name}
+                      {item.candidate.source === 'recipe' && (
+                        <span className="ml-1 text-xs text-pink-600">(recipe)</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-1 text-xs text-zinc-500">{formatMacros(suggestion.totals)}</p>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
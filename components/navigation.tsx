@@ -5,12 +5,14 @@ import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/contexts/auth-context';
 import { createClient } from '@/lib/supabase/client';
+import { UserRole } from '@/lib/types';
 
 export function Navigation() {
   const pathname = usePathname();
   const router = useRouter();
   const { user, signOut } = useAuth();
   const [displayName, setDisplayName] = useState('');
+  const [role, setRole] = useState<UserRole>('client');
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const supabase = createClient();
@@ -46,12 +48,13 @@ export function Navigation() {
     try {
       const { data, error } = await supabase
         .from('user_profiles')
-        .select('username, full_name')
+        .select('username, full_name, role')
         .eq('user_id', user?.id)
         .single();
 
       if (error) throw error;
       setDisplayName(data?.username || data?.full_name || user?.email || 'User');
+      setRole(data?.role || 'client');
     } catch (err) {
       console.error('Error fetching profile:', err);
       setDisplayName(user?.email || 'User');
@@ -66,10 +69,14 @@ export function Navigation() {
   const navItems = [
     { href: '/dashboard', label: 'Dashboard' },
     { href: '/meals', label: 'Log Meal' },
+    { href: '/planner', label: 'Planner' },
     { href: '/recipes', label: 'Recipes' },
+    { href: '/templates', label: 'Templates' },
     { href: '/foods', label: 'Foods' },
+    { href: '/grocery', label: 'Groceries' },
     { href: '/weight', label: 'Weight' },
     { href: '/dietitian-notes', label: 'Notes' },
+    ...(role === 'dietitian' ? [{ href: '/clients', label: 'Clients' }] : []),
   ];
 
   return (
@@ -87,7 +94,7 @@ export function Navigation() {
                   key={item.href}
                   href={item.href}
                   className={`px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                    pathname === item.href
+                    pathname === item.href || pathname.startsWith(`${item.href}/`)
                       ? 'bg-pink-100 text-pink-700'
                       : 'text-zinc-600 hover:text-pink-500'
                   }`}
@@ -122,6 +129,17 @@ export function Navigation() {
               {dropdownOpen && (
                 <div className="absolute right-0 mt-2 w-48 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 z-50">
                   <div className="py-1">
+                    {/* The main links are hidden on small screens, so offer them here */}
+                    {navItems.map((item) => (
+                      <Link
+                        key={item.href}
+                        href={item.href}
+                        onClick={() => setDropdownOpen(false)}
+                        className="block md:hidden px-4 py-2 text-sm text-zinc-700 hover:bg-pink-50 hover:text-pink-600 transition-colors"
+                      >
+                        {item.label}
+                      </Link>
+                    ))}
                     <Link
                       href="/profile"
                       onClick={() => setDropdownOpen(false)}
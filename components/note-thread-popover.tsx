@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { DietitianNote, NoteReference } from '@/lib/types';
+
+interface NoteThreadPopoverProps {
+  clientId: string;
+  notes: DietitianNote[];
+  reference: NoteReference;
+  defaultTitle: string;
+  onChange: () => void;
+  align?: 'left' | 'right';
+}
+
+export function NoteThreadPopover({
+  clientId,
+  notes,
+  reference,
+  defaultTitle,
+  onChange,
+  align = 'right',
+}: NoteThreadPopoverProps) {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [content, setContent] = useState('');
+  const [replyingToNoteId, setReplyingToNoteId] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const replyCount = notes.reduce((sum, note) => sum + (note.note_replies?.length || 0), 0);
+
+  const getAuthorLabel = (authorId: string) => {
+    if (authorId === user?.id) return 'You';
+    return authorId === clientId ? 'Client' : 'Dietitian';
+  };
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const handleCreateNote = async () => {
+    if (!content.trim()) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.from('dietitian_notes').insert({
+        author_id: user!.id,
+        client_id: clientId,
+        title: defaultTitle,
+        content: content.trim(),
+        ...reference,
+      });
+
+      if (error) throw error;
+      setContent('');
+      onChange();
+    } catch (err) {
+      console.error('Error creating note:', err);
+      setError('Failed to post note. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateReply = async (noteId: string) => {
+    if (!replyContent.trim()) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.from('note_replies').insert({
+        note_id: noteId,
+        author_id: user!.id,
+        content: replyContent.trim(),
+        ...reference,
+      });
+
+      if (error) throw error;
+      setReplyContent('');
+      setReplyingToNoteId(null);
+      onChange();
+    } catch (err) {
+      console.error('Error creating reply:', err);
+      setError('Failed to post reply. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        title={notes.length > 0 ? 'View notes' : 'Add a note'}
+        className={
+          notes.length > 0
+            ? 'rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700 hover:bg-green-200'
+            : 'rounded-full px-2 py-0.5 text-xs text-zinc-400 hover:bg-pink-50 hover:text-pink-600'
+        }
+      >
+        💬{notes.length > 0 && ` ${notes.length + replyCount}`}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} z-20 mt-1 w-80 rounded-md border border-zinc-200 bg-white p-4 text-left shadow-lg`}>
+          <div className="mb-3 flex items-center justify-between">
+            <p className="text-sm font-semibold text-zinc-900">{defaultTitle}</p>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="text-zinc-400 hover:text-zinc-900"
+            >
+              ×
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-3 rounded-md bg-red-50 p-2 text-xs text-red-600">
+              {error}
+            </div>
+          )}
+
+          <div className="max-h-72 space-y-3 overflow-y-auto">
+            {notes.map((note) => (
+              <div key={note.id} className="rounded-lg bg-zinc-50 p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium text-zinc-900">{getAuthorLabel(note.author_id)}</span>
+                  <span className="text-xs text-zinc-500">{formatDate(note.created_at)}</span>
+                </div>
+                {note.title !== defaultTitle && (
+                  <p className="mt-1 font-medium text-zinc-900">{note.title}</p>
+                )}
+                <p className="mt-1 whitespace-pre-wrap text-zinc-700">{note.content}</p>
+
+                {[...(note.note_replies || [])]
+                  .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+                  .map((reply) => (
+                    <div key={reply.id} className="ml-3 mt-2 border-l-2 border-zinc-200 pl-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-medium text-zinc-900">{getAuthorLabel(reply.author_id)}</span>
+                        <span className="text-xs text-zinc-500">{formatDate(reply.created_at)}</span>
+                      </div>
+                      <p className="whitespace-pre-wrap text-zinc-700">{reply.content}</p>
+                    </div>
+                  ))}
+
+                {replyingToNoteId === note.id ? (
+                  <div className="mt-2 space-y-2">
+                    <textarea
+                      placeholder="Write a reply..."
+                      value={replyContent}
+                      onChange={(e) => setReplyContent(e.target.value)}
+                      rows={2}
+                      className="w-full rounded-md border border-zinc-300 px-2 py-1 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleCreateReply(note.id)}
+                        disabled={saving || !replyContent.trim()}
+                        className="rounded-md bg-zinc-900 px-3 py-1 text-xs font-medium text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {saving ? 'Sending...' : 'Reply'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setReplyingToNoteId(null);
+                          setReplyContent('');
+                        }}
+                        className="rounded-md border border-zinc-300 px-3 py-1 text-xs font-medium text-zinc-700 hover:bg-zinc-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setReplyingToNoteId(note.id);
+                      setReplyContent('');
+                    }}
+                    className="mt-2 text-xs font-medium text-pink-600 hover:text-pink-700"
+                  >
+                    Reply
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className={`space-y-2 ${notes.length > 0 ? 'mt-3 border-t border-zinc-100 pt-3' : ''}`}>
+            <textarea
+              placeholder="Leave a note..."
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={2}
+              className="w-full rounded-md border border-zinc-300 px-2 py-1 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+            />
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={handleCreateNote}
+                disabled={saving || !content.trim()}
+                className="rounded-md bg-zinc-900 px-3 py-1 text-xs font-medium text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Post Note'}
+              </button>
+              <Link
+                href={`/dietitian-notes/${clientId}`}
+                className="text-xs text-zinc-500 hover:text-zinc-900"
+              >
+                Open thread →
+              </Link>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
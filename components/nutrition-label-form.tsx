@@ -0,0 +1,223 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { NutritionLabel } from '@/lib/types';
+import { SERVING_UNITS, SERVING_UNIT_LABELS } from '@/lib/utils/quantity';
+import { LABEL_LINES, LabelNutrientKey, labelToFoodFields } from '@/lib/utils/nutrition-label';
+
+const labelSchema = z.object({
+  name: z.string().min(1, 'Food name is required'),
+  serving_quantity: z.number().positive('Serving size must be more than 0'),
+  serving_unit: z.enum(SERVING_UNITS),
+  serving_grams: z.number().positive('Enter the serving weight in grams'),
+  servings_per_container: z.number().min(0),
+  calories: z.number().min(0, 'Calories must be positive'),
+  total_fat: z.number().min(0),
+  saturated_fat: z.number().min(0),
+  trans_fat: z.number().min(0),
+  cholesterol: z.number().min(0),
+  sodium: z.number().min(0),
+  total_carbs: z.number().min(0),
+  fiber: z.number().min(0),
+  total_sugars: z.number().min(0),
+  added_sugars: z.number().min(0),
+  protein: z.number().min(0),
+  vitamin_d: z.number().min(0),
+  calcium: z.number().min(0),
+  iron: z.number().min(0),
+  potassium: z.number().min(0),
+});
+
+type LabelFormData = z.infer<typeof labelSchema>;
+
+// Sub-lines (Saturated Fat, Includes Added Sugars) are indented as on the label
+const INDENT_CLASSES = ['', 'pl-4', 'pl-8'];
+
+const EMPTY_LABEL: Omit<LabelFormData, 'name'> = {
+  serving_quantity: 1,
+  serving_unit: 'cup',
+  serving_grams: 0,
+  servings_per_container: 0,
+  calories: 0,
+  total_fat: 0,
+  saturated_fat: 0,
+  trans_fat: 0,
+  cholesterol: 0,
+  sodium: 0,
+  total_carbs: 0,
+  fiber: 0,
+  total_sugars: 0,
+  added_sugars: 0,
+  protein: 0,
+  vitamin_d: 0,
+  calcium: 0,
+  iron: 0,
+  potassium: 0,
+};
+
+function toLabel(data: LabelFormData): NutritionLabel {
+  const lines = Object.fromEntries(LABEL_LINES.map(({ key }) => [key, data[key]])) as Record<LabelNutrientKey, number>;
+  return {
+    serving_quantity: data.serving_quantity,
+    serving_unit: data.serving_unit,
+    serving_grams: data.serving_grams,
+    // 0 means the label doesn't say
+    servings_per_container: data.servings_per_container || null,
+    ...lines,
+  };
+}
+
+interface NutritionLabelFormProps {
+  initialName?: string;
+  initialLabel?: NutritionLabel | null;
+  submitLabel: string;
+  onSave: (name: string, label: NutritionLabel) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Entry form laid out like a US Nutrition Facts label; every value is per serving
+ */
+export function NutritionLabelForm({ initialName, initialLabel, submitLabel, onSave, onCancel }: NutritionLabelFormProps) {
+  const [saving, setSaving] = useState(false);
+
+  const initialUnit = initialLabel && (SERVING_UNITS as readonly string[]).includes(initialLabel.serving_unit)
+    ? initialLabel.serving_unit as LabelFormData['serving_unit']
+    : EMPTY_LABEL.serving_unit;
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<LabelFormData>({
+    resolver: zodResolver(labelSchema),
+    defaultValues: {
+      ...EMPTY_LABEL,
+      ...initialLabel,
+      name: initialName || '',
+      serving_unit: initialUnit,
+      servings_per_container: initialLabel?.servings_per_container || 0,
+    },
+  });
+
+  const values = watch();
+  const preview = labelSchema.safeParse(values).success ? labelToFoodFields(toLabel(values)) : null;
+
+  const onSubmit = async (data: LabelFormData) => {
+    setSaving(true);
+    try {
+      await onSave(data.name, toLabel(data));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4"
+    >
+      <div>
+        <label className="block text-sm font-medium text-zinc-900">Food Name</label>
+        <input
+          type="text"
+          {...register('name')}
+          className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm"
+          placeholder="e.g., Granola"
+        />
+        {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+      </div>
+
+      <div className="max-w-sm border-2 border-zinc-900 p-3">
+        <p className="text-2xl font-extrabold">Nutrition Facts</p>
+
+        <div className="mt-1 flex items-center gap-2 text-sm">
+          <input
+            type="number"
+            step="0.01"
+            {...register('servings_per_container', { valueAsNumber: true })}
+            className="w-16 rounded border border-zinc-300 px-2 py-1 text-sm"
+          />
+          <span>servings per container</span>
+        </div>
+
+        <div className="mt-1 flex items-center gap-1 border-b-8 border-zinc-900 pb-2 text-sm">
+          <span className="font-bold">Serving size</span>
+          <input
+            type="number"
+            step="0.01"
+            {...register('serving_quantity', { valueAsNumber: true })}
+            className="ml-auto w-16 rounded border border-zinc-300 px-2 py-1 text-sm"
+          />
+          <select
+            {...register('serving_unit')}
+            className="rounded border border-zinc-300 px-1 py-1 text-sm"
+          >
+            {SERVING_UNITS.map((unit) => (
+              <option key={unit} value={unit}>{SERVING_UNIT_LABELS[unit]}</option>
+            ))}
+          </select>
+          <span>(</span>
+          <input
+            type="number"
+            step="0.1"
+            {...register('serving_grams', { valueAsNumber: true })}
+            className="w-16 rounded border border-zinc-300 px-2 py-1 text-sm"
+          />
+          <span>g)</span>
+        </div>
+        {(errors.serving_quantity || errors.serving_grams) && (
+          <p className="mt-1 text-sm text-red-600">
+            {errors.serving_quantity?.message || errors.serving_grams?.message}
+          </p>
+        )}
+
+        {LABEL_LINES.map(({ key, label, unit, indent, bold }) => (
+          <div
+            key={key}
+            className={`flex items-center justify-between border-b border-zinc-300 py-1 text-sm ${INDENT_CLASSES[indent]} ${key === 'calories' ? 'border-b-4 border-zinc-900 text-lg' : ''}`}
+          >
+            <span className={bold ? 'font-bold' : ''}>{label}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                step={key === 'calories' ? '1' : '0.1'}
+                {...register(key, { valueAsNumber: true })}
+                className="w-20 rounded border border-zinc-300 px-2 py-0.5 text-right text-sm"
+              />
+              <span className="w-7 text-xs text-zinc-500">{unit}</span>
+            </span>
+          </div>
+        ))}
+        {errors.calories && <p className="mt-1 text-sm text-red-600">{errors.calories.message}</p>}
+      </div>
+
+      {preview && (
+        <p className="text-sm text-zinc-600">
+          Saved per {preview.default_amount}: {preview.calories_per_serving} cal | P: {preview.protein_per_serving}g | C: {preview.carbs_per_serving}g | F: {preview.fat_per_serving}g
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
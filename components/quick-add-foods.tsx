@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { fetchFrequentFoods, fetchRecentFoodsForMealType, quickAddFood } from '@/lib/supabase/food-usage';
+import { Food, MealType } from '@/lib/types';
+
+interface QuickAddFoodsProps {
+  mealId: string;
+  mealType: MealType;
+  // Whose foods to offer (the client when a dietitian is viewing)
+  userId: string;
+  onSave: () => void;
+}
+
+/**
+ * One-tap chips for the user's most logged foods and the ones they had
+ * recently at this meal type; each adds one serving to the meal
+ */
+export function QuickAddFoods({ mealId, mealType, userId, onSave }: QuickAddFoodsProps) {
+  const [frequent, setFrequent] = useState<Food[]>([]);
+  const [recent, setRecent] = useState<Food[]>([]);
+  const [addingId, setAddingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [userId, mealType]);
+
+  const fetchSuggestions = async () => {
+    try {
+      const [frequentFoods, recentFoods] = await Promise.all([
+        fetchFrequentFoods(supabase, userId),
+        fetchRecentFoodsForMealType(supabase, userId, mealType),
+      ]);
+      setFrequent(frequentFoods);
+      setRecent(recentFoods);
+    } catch (err) {
+      // Suggestions are optional; the search below still works
+      console.error('Error fetching quick-add foods:', err);
+    }
+  };
+
+  const handleAdd = async (food: Food) => {
+    setAddingId(food.id);
+    setError(null);
+    try {
+      await quickAddFood(supabase, mealId, food);
+      onSave();
+    } catch (err) {
+      console.error('Error adding food:', err);
+      setError(`Failed to add ${food.name}`);
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  if (frequent.length === 0 && recent.length === 0) return null;
+
+  const rows = [
+    { label: 'Recent', foods: recent },
+    { label: 'Frequent', foods: frequent },
+  ].filter(row => row.foods.length > 0);
+
+  return (
+    <div className="space-y-2">
+      {rows.map(({ label, foods }) => (
+        <div key={label} className="flex items-center gap-2 overflow-x-auto">
+          <span className="shrink-0 text-xs font-medium uppercase tracking-wide text-zinc-500">{label}</span>
+          {foods.map((food) => (
+            <button
+              key={food.id}
+              type="button"
+              onClick={() => handleAdd(food)}
+              disabled={!!addingId}
+              title={`${food.default_amount}: ${food.calories_per_serving} cal`}
+              className="shrink-0 rounded-full border border-zinc-300 bg-white px-3 py-1 text-sm text-zinc-700 hover:border-pink-300 hover:bg-pink-50 hover:text-pink-600 transition-colors disabled:opacity-50"
+            >
+              {addingId === food.id ? 'Adding...' : `+ ${food.name}`}
+            </button>
+          ))}
+        </div>
+      ))}
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
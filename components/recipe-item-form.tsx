@@ -1,54 +1,53 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { useAuth } from '@/lib/contexts/auth-context';
-import { createClient } from '@/lib/supabase/client';
-import { FoodSearchModal } from './food-search-modal';
+import { Food, NutrientVector, NutritionBasis, PortionWeights, QuantityUnit } from '@/lib/types';
+import { SERVING_UNITS, SERVING_UNIT_LABELS, ServingUnit, formatAmount, parseAmount } from '@/lib/utils/quantity';
+import { MICRONUTRIENTS, NUTRIENT_KEYS, convertToBasis, roundNutrients, scaleNutrients, toGrams, toNutrientVector } from '@/lib/utils/nutrition';
+import { BarcodeLookup } from './barcode-lookup';
+import { FoodPicker, SelectedFood } from './food-picker';
 
-const servingUnits = ['cup', 'tbsp', 'tsp', 'each', 'package'] as const;
-type ServingUnit = typeof servingUnits[number];
-
-const unitToCups: Record<string, number> = {
-  cup: 1,
-  tbsp: 1 / 16,
-  tsp: 1 / 48,
-};
+const DEFAULT_BASIS: NutritionBasis = { quantity: 1, unit: 'cup' };
 
 const recipeItemSchema = z.object({
   food_name: z.string().min(1, 'Food name is required'),
   serving: z.number().min(0.25, 'Serving must be at least 0.25'),
-  unit: z.enum(servingUnits),
+  unit: z.enum(SERVING_UNITS),
   calories: z.number().min(0, 'Calories must be positive'),
   protein: z.number().min(0).optional(),
   carbs: z.number().min(0).optional(),
   fat: z.number().min(0).optional(),
   fiber: z.number().min(0).optional(),
   water: z.number().min(0).optional(),
+  sodium: z.number().min(0).optional(),
+  sugar: z.number().min(0).optional(),
+  saturated_fat: z.number().min(0).optional(),
+  potassium: z.number().min(0).optional(),
+  cholesterol: z.number().min(0).optional(),
 });
 
 type RecipeItemFormData = z.infer<typeof recipeItemSchema>;
 
-interface BaseNutrition {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  fiber: number;
-  water: number;
-}
-
 interface RecipeItemSaveData {
   food_name: string;
   amount: string;
+  quantity: number;
+  unit: QuantityUnit;
+  grams: number | null;
   calories: number;
   protein?: number;
   carbs?: number;
   fat?: number;
   fiber?: number;
   water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
 }
 
 interface RecipeItemFormProps {
@@ -56,88 +55,40 @@ interface RecipeItemFormProps {
   onCancel: () => void;
 }
 
-const formatAmount = (val: number, unit: ServingUnit): string => {
-  if (unit === 'each') {
-    return `${val}`;
-  }
-  if (unit === 'package') {
-    return val === 1 ? '1 package' : `${val} packages`;
-  }
-  if (unit === 'tbsp') {
-    return val === 1 ? '1 tbsp' : `${val} tbsp`;
-  }
-  if (unit === 'tsp') {
-    return val === 1 ? '1 tsp' : `${val} tsp`;
-  }
-  if (val === 0.25) return '1/4 cup';
-  if (val === 0.5) return '1/2 cup';
-  if (val === 0.75) return '3/4 cup';
-  if (val === 1) return '1 cup';
-  if (val === 1.25) return '1 1/4 cups';
-  if (val === 1.5) return '1 1/2 cups';
-  if (val === 1.75) return '1 3/4 cups';
-  if (val === 2) return '2 cups';
-  if (val === 2.5) return '2 1/2 cups';
-  if (val === 3) return '3 cups';
-  return `${val} cups`;
-};
-
-interface UserFood {
-  id: string;
-  name: string;
-  calories_per_serving: number;
-  protein_per_serving: number;
-  carbs_per_serving: number;
-  fat_per_serving: number;
-  fiber_per_serving: number;
-  water_per_serving: number;
-}
-
 export function RecipeItemForm({ onSave, onCancel }: RecipeItemFormProps) {
-  const { user } = useAuth();
-  const supabase = createClient();
   const [loading, setLoading] = useState(false);
-  const [searchModalOpen, setSearchModalOpen] = useState(false);
-  const [baseNutrition, setBaseNutrition] = useState<BaseNutrition | null>(null);
+  // Base nutrition = values per basis amount (1 cup, or 100 g without cup data)
+  const [baseNutrition, setBaseNutrition] = useState<NutrientVector | null>(null);
+  const [basis, setBasis] = useState<NutritionBasis>(DEFAULT_BASIS);
   const [servingInfo, setServingInfo] = useState<string | null>(null);
-  const [myFoods, setMyFoods] = useState<UserFood[]>([]);
-  const [showMyFoods, setShowMyFoods] = useState(false);
-  const [myFoodsQuery, setMyFoodsQuery] = useState('');
+  // Gram weights of a cup, piece and package, when known from USDA portions
+  const [weights, setWeights] = useState<PortionWeights>({});
 
-  useEffect(() => {
-    if (user?.id) {
-      supabase
-        .from('foods')
-        .select('id, name, calories_per_serving, protein_per_serving, carbs_per_serving, fat_per_serving, fiber_per_serving, water_per_serving')
-        .eq('user_id', user.id)
-        .order('name')
-        .then(({ data }) => {
-          if (data) setMyFoods(data);
-        });
-    }
-  }, [user?.id]);
-
-  const handleMyFoodSelect = (food: UserFood) => {
-    const base: BaseNutrition = {
+  const handleMyFoodSelect = (food: Food) => {
+    const base = toNutrientVector({
       calories: food.calories_per_serving,
-      protein: food.protein_per_serving || 0,
-      carbs: food.carbs_per_serving || 0,
-      fat: food.fat_per_serving || 0,
-      fiber: food.fiber_per_serving || 0,
-      water: food.water_per_serving || 0,
-    };
+      protein: food.protein_per_serving,
+      carbs: food.carbs_per_serving,
+      fat: food.fat_per_serving,
+      fiber: food.fiber_per_serving,
+      water: food.water_per_serving,
+      sodium: food.sodium_per_serving,
+      sugar: food.sugar_per_serving,
+      saturated_fat: food.saturated_fat_per_serving,
+      potassium: food.potassium_per_serving,
+      cholesterol: food.cholesterol_per_serving,
+    });
+    // Foods saved before units were tracked hold per-cup values
+    const foodBasis = parseAmount(food.default_amount) ?? DEFAULT_BASIS;
     setBaseNutrition(base);
+    setBasis(foodBasis);
+    setWeights(food.portion_grams || {});
     setValue('food_name', food.name);
-    setValue('serving', 1);
+    setServingToBasis(foodBasis);
     scaleNutrition(base, 1);
-    setShowMyFoods(false);
-    setMyFoodsQuery('');
+    setServingInfo(null);
   };
 
-  const filteredMyFoods = myFoods.filter(f =>
-    f.name.toLowerCase().includes(myFoodsQuery.toLowerCase())
-  );
-
   const {
     register,
     handleSubmit,
@@ -155,48 +106,43 @@ export function RecipeItemForm({ onSave, onCancel }: RecipeItemFormProps) {
       fat: 0,
       fiber: 0,
       water: 0,
+      sodium: 0,
+      sugar: 0,
+      saturated_fat: 0,
+      potassium: 0,
+      cholesterol: 0,
     },
   });
 
-  const scaleNutrition = (base: BaseNutrition, cups: number) => {
-    setValue('calories', Math.round(base.calories * cups));
-    setValue('protein', Math.round(base.protein * cups * 10) / 10);
-    setValue('carbs', Math.round(base.carbs * cups * 10) / 10);
-    setValue('fat', Math.round(base.fat * cups * 10) / 10);
-    setValue('fiber', Math.round(base.fiber * cups * 10) / 10);
-    setValue('water', Math.round(base.water * cups * 10) / 10);
+  const scaleNutrition = (base: NutrientVector, factor: number) => {
+    const scaled = roundNutrients(scaleNutrients(base, factor));
+    NUTRIENT_KEYS.forEach(key => setValue(key, scaled[key]));
+  };
+
+  // Show the amount the nutrition is for, when the form offers that unit
+  const setServingToBasis = (foodBasis: NutritionBasis) => {
+    setValue('serving', foodBasis.quantity);
+    if ((SERVING_UNITS as readonly string[]).includes(foodBasis.unit)) {
+      setValue('unit', foodBasis.unit as ServingUnit);
+    }
   };
 
-  const handleFoodSelect = (food: {
-    name: string;
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber: number;
-    water: number;
-    defaultAmount: string;
-  }) => {
-    const base: BaseNutrition = {
-      calories: food.calories,
-      protein: food.protein,
-      carbs: food.carbs,
-      fat: food.fat,
-      fiber: food.fiber,
-      water: food.water,
-    };
+  const handleFoodSelect = (food: SelectedFood) => {
+    const base = toNutrientVector(food);
     setBaseNutrition(base);
+    setBasis(food.basis);
+    setWeights(food.weights);
     setServingInfo(food.defaultAmount);
     setValue('food_name', food.name);
-    setValue('serving', 1);
+    setServingToBasis(food.basis);
     scaleNutrition(base, 1);
   };
 
   const rescaleFromUnit = (servingVal: number, unit: ServingUnit) => {
     if (!baseNutrition) return;
-    if (unit === 'each' || unit === 'package') return;
-    const cups = servingVal * unitToCups[unit];
-    scaleNutrition(baseNutrition, cups);
+    const factor = convertToBasis(servingVal, unit, basis, weights);
+    if (factor === null) return;
+    scaleNutrition(baseNutrition, factor);
   };
 
   const handleServingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -215,79 +161,45 @@ export function RecipeItemForm({ onSave, onCancel }: RecipeItemFormProps) {
     }
   };
 
+  const getGrams = (serving: number, unit: ServingUnit): number | null => {
+    const grams = toGrams(serving, unit, weights);
+    return grams === null ? null : Math.round(grams * 10) / 10;
+  };
+
   const onSubmit = async (data: RecipeItemFormData) => {
     setLoading(true);
     onSave({
       food_name: data.food_name,
       amount: formatAmount(data.serving, data.unit),
+      quantity: data.serving,
+      unit: data.unit,
+      grams: getGrams(data.serving, data.unit),
       calories: data.calories,
       protein: data.protein,
       carbs: data.carbs,
       fat: data.fat,
       fiber: data.fiber,
       water: data.water,
+      sodium: data.sodium,
+      sugar: data.sugar,
+      saturated_fat: data.saturated_fat,
+      potassium: data.potassium,
+      cholesterol: data.cholesterol,
     });
     setLoading(false);
   };
 
   return (
-    <>
-      <FoodSearchModal
-        isOpen={searchModalOpen}
-        onClose={() => setSearchModalOpen(false)}
-        onSelect={handleFoodSelect}
-      />
-
-      <div className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
-        <div className="flex gap-2">
-          <button
-            type="button"
-            onClick={() => setSearchModalOpen(true)}
-            className="flex-1 rounded-md border-2 border-dashed border-zinc-300 px-4 py-3 text-sm font-medium text-zinc-600 hover:border-zinc-400 hover:text-zinc-900"
-          >
-            Search USDA
-          </button>
-          <button
-            type="button"
-            onClick={() => setShowMyFoods(!showMyFoods)}
-            className="flex-1 rounded-md border-2 border-dashed border-zinc-300 px-4 py-3 text-sm font-medium text-zinc-600 hover:border-zinc-400 hover:text-zinc-900"
-          >
-            My Foods
-          </button>
-        </div>
+    <div className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
+        <FoodPicker
+          onSelectFood={handleMyFoodSelect}
+          onSelectUSDA={handleFoodSelect}
+        />
 
-        {showMyFoods && (
-          <div className="rounded-md border border-zinc-200 bg-white p-3 space-y-2">
-            <input
-              type="text"
-              placeholder="Filter my foods..."
-              value={myFoodsQuery}
-              onChange={(e) => setMyFoodsQuery(e.target.value)}
-              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
-            />
-            <div className="max-h-48 overflow-y-auto space-y-1">
-              {filteredMyFoods.length === 0 ? (
-                <p className="text-sm text-zinc-500 text-center py-2">
-                  {myFoods.length === 0 ? 'No saved foods yet' : 'No matches'}
-                </p>
-              ) : (
-                filteredMyFoods.map((food) => (
-                  <button
-                    key={food.id}
-                    type="button"
-                    onClick={() => handleMyFoodSelect(food)}
-                    className="w-full text-left rounded-md px-3 py-2 text-sm hover:bg-zinc-50 transition-colors"
-                  >
-                    <p className="font-medium">{food.name}</p>
-                    <p className="text-xs text-zinc-500">
-                      {food.calories_per_serving} cal | P: {food.protein_per_serving || 0}g | C: {food.carbs_per_serving || 0}g | F: {food.fat_per_serving || 0}g
-                    </p>
-                  </button>
-                ))
-              )}
-            </div>
-          </div>
-        )}
+        <BarcodeLookup
+          onSelectSaved={handleMyFoodSelect}
+          onSelectUSDA={handleFoodSelect}
+        />
 
         <div className="grid grid-cols-2 gap-3">
           <div className="col-span-2">
@@ -334,11 +246,9 @@ export function RecipeItemForm({ onSave, onCancel }: RecipeItemFormProps) {
               }}
               className="rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
             >
-              <option value="cup">Cups</option>
-              <option value="tbsp">Tbsp</option>
-              <option value="tsp">Tsp</option>
-              <option value="each">Each</option>
-              <option value="package">Package</option>
+              {SERVING_UNITS.map((unit) => (
+                <option key={unit} value={unit}>{SERVING_UNIT_LABELS[unit]}</option>
+              ))}
             </select>
           </div>
           {errors.serving && (
@@ -425,6 +335,21 @@ export function RecipeItemForm({ onSave, onCancel }: RecipeItemFormProps) {
             className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
           />
         </div>
+
+        {MICRONUTRIENTS.map(({ key, label, unit }) => (
+          <div key={key}>
+            <label htmlFor={key} className="block text-sm font-medium text-zinc-900">
+              {label} ({unit})
+            </label>
+            <input
+              id={key}
+              type="number"
+              step={unit === 'mg' ? '1' : '0.1'}
+              {...register(key, { valueAsNumber: true })}
+              className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+            />
+          </div>
+        ))}
       </div>
 
       <div className="flex gap-2">
@@ -444,7 +369,6 @@ export function RecipeItemForm({ onSave, onCancel }: RecipeItemFormProps) {
           Cancel
         </button>
       </div>
-      </div>
-    </>
+    </div>
   );
 }
@@ -3,21 +3,44 @@
 import { useState, useEffect } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { useAuth } from '@/lib/contexts/auth-context';
+import { fetchSharedRecipes } from '@/lib/supabase/recipe-shares';
 import { Recipe } from '@/lib/types';
+import { formatAmount } from '@/lib/utils/quantity';
+import {
+  getRecipeNutrientsForGrams,
+  getRecipePerServing,
+  getRecipeTotals,
+  perServing,
+  roundNutrients,
+  scaleNutrients,
+} from '@/lib/utils/nutrition';
 
 interface RecipeSelectorProps {
   mealId: string;
   onSave: () => void;
   onCancel: () => void;
+  // Recipe already picked in the food search, shown selected
+  initialRecipe?: Recipe | null;
 }
 
-export function RecipeSelector({ mealId, onSave, onCancel }: RecipeSelectorProps) {
+// Start the weight at one serving's share of the pot
+function oneServingGrams(recipe: Recipe): number {
+  return recipe.cooked_weight_grams ? Math.round(recipe.cooked_weight_grams / recipe.servings) : 0;
+}
+
+export function RecipeSelector({ mealId, onSave, onCancel, initialRecipe }: RecipeSelectorProps) {
   const { user } = useAuth();
   const [recipes, setRecipes] = useState<Recipe[]>([]);
+  // Recipes the client's dietitian has shared with them
+  const [sharedRecipes, setSharedRecipes] = useState<Recipe[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(initialRecipe ?? null);
+  // Log by servings, or by weight of the finished dish when it has been weighed
+  const [logBy, setLogBy] = useState<'servings' | 'weight'>('servings');
   const [servings, setServings] = useState<number>(1);
+  const [grams, setGrams] = useState<number>(() => initialRecipe ? oneServingGrams(initialRecipe) : 0);
   const supabase = createClient();
 
   useEffect(() => {
@@ -26,14 +49,19 @@ export function RecipeSelector({ mealId, onSave, onCancel }: RecipeSelectorProps
 
   const fetchRecipes = async () => {
     try {
-      const { data, error } = await supabase
-        .from('recipes')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('name');
-
-      if (error) throw error;
-      setRecipes(data || []);
+      const [recipesResult, shared] = await Promise.all([
+        supabase
+          .from('recipes')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('name'),
+        user ? fetchSharedRecipes(supabase, user.id) : Promise.resolve([]),
+      ]);
+
+      if (recipesResult.error) throw recipesResult.error;
+
+      setRecipes(recipesResult.data || []);
+      setSharedRecipes(shared.map(share => share.recipe));
     } catch (err) {
       console.error('Error fetching recipes:', err);
       setError('Failed to load recipes');
@@ -42,7 +70,30 @@ export function RecipeSelector({ mealId, onSave, onCancel }: RecipeSelectorProps
     }
   };
 
+  const selectRecipe = (recipe: Recipe) => {
+    setSelectedRecipe(recipe);
+    setLogBy('servings');
+    setServings(1);
+    setGrams(oneServingGrams(recipe));
+    setError(null);
+  };
+
+  const getNutrition = (recipe: Recipe) => {
+    if (logBy === 'weight') {
+      const forGrams = getRecipeNutrientsForGrams(recipe, grams);
+      if (forGrams) return roundNutrients(forGrams);
+    }
+    // Scale per-serving nutrition to the number of servings eaten
+    return roundNutrients(scaleNutrients(perServing(getRecipeTotals(recipe), recipe.servings), servings));
+  };
+
   const handleAddRecipe = async (recipe: Recipe) => {
+    const byWeight = logBy === 'weight' && !!recipe.cooked_weight_grams;
+    if (byWeight ? grams <= 0 : servings <= 0) {
+      setError(byWeight ? 'Enter how many grams you ate' : 'Enter how many servings you ate');
+      return;
+    }
+
     setSaving(true);
     setError(null);
 
@@ -61,12 +112,7 @@ export function RecipeSelector({ mealId, onSave, onCancel }: RecipeSelectorProps
         ? existingItems[0].order + 1
         : 1;
 
-      // Calculate per-serving nutrition
-      const caloriesPerServing = Math.round(recipe.total_calories / recipe.servings);
-      const proteinPerServing = recipe.total_protein / recipe.servings;
-      const carbsPerServing = recipe.total_carbs / recipe.servings;
-      const fatPerServing = recipe.total_fat / recipe.servings;
-      const fiberPerServing = recipe.total_fiber / recipe.servings;
+      const nutrition = getNutrition(recipe);
 
       // Insert the meal item with recipe reference
       const { error: insertError } = await supabase
@@ -74,14 +120,23 @@ export function RecipeSelector({ mealId, onSave, onCancel }: RecipeSelectorProps
         .insert({
           meal_id: mealId,
           recipe_id: recipe.id,
+          recipe_version_id: recipe.current_version_id ?? null,
           food_name: recipe.name,
-          amount: `${servings} serving${servings > 1 ? 's' : ''}`,
-          calories: caloriesPerServing * servings,
-          protein: proteinPerServing * servings,
-          carbs: carbsPerServing * servings,
-          fat: fatPerServing * servings,
-          fiber: fiberPerServing * servings,
-          water: 0,
+          amount: byWeight ? formatAmount(grams, 'g') : formatAmount(servings, 'serving'),
+          quantity: byWeight ? grams : servings,
+          unit: byWeight ? 'g' : 'serving',
+          grams: byWeight ? grams : null,
+          calories: nutrition.calories,
+          protein: nutrition.protein,
+          carbs: nutrition.carbs,
+          fat: nutrition.fat,
+          fiber: nutrition.fiber,
+          water: nutrition.water,
+          sodium: nutrition.sodium,
+          sugar: nutrition.sugar,
+          saturated_fat: nutrition.saturated_fat,
+          potassium: nutrition.potassium,
+          cholesterol: nutrition.cholesterol,
           order: nextOrder,
         });
 
@@ -103,6 +158,33 @@ export function RecipeSelector({ mealId, onSave, onCancel }: RecipeSelectorProps
     );
   }
 
+  const selectedNutrition = selectedRecipe ? getNutrition(selectedRecipe) : null;
+
+  const renderRecipe = (recipe: Recipe) => {
+    const serving = getRecipePerServing(recipe);
+
+    return (
+      <button
+        key={recipe.id}
+        type="button"
+        onClick={() => selectRecipe(recipe)}
+        disabled={saving}
+        className={`w-full text-left rounded-lg border p-3 hover:bg-zinc-50 disabled:opacity-50 ${
+          selectedRecipe?.id === recipe.id ? 'border-pink-300 bg-pink-50' : 'border-zinc-200 bg-white'
+        }`}
+      >
+        <p className="font-medium text-zinc-900">{recipe.name}</p>
+        <p className="text-xs text-zinc-500 mt-1">
+          Per serving: {serving.calories} cal | P: {serving.protein.toFixed(1)}g | C: {serving.carbs.toFixed(1)}g | F: {serving.fat.toFixed(1)}g
+        </p>
+        <p className="text-xs text-zinc-400 mt-1">
+          Makes {recipe.servings} servings
+          {recipe.cooked_weight_grams ? ` • ${formatAmount(recipe.cooked_weight_grams, 'g')} cooked` : ''}
+        </p>
+      </button>
+    );
+  };
+
   return (
     <div className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
       {error && (
@@ -116,38 +198,81 @@ export function RecipeSelector({ mealId, onSave, onCancel }: RecipeSelectorProps
           Select a Recipe
         </label>
         <div className="space-y-2 max-h-64 overflow-y-auto">
-          {recipes.length === 0 ? (
+          {recipes.length === 0 && sharedRecipes.length === 0 ? (
             <p className="text-sm text-zinc-500">No recipes found. Create a recipe first.</p>
           ) : (
-            recipes.map((recipe) => {
-              const perServing = {
-                calories: Math.round(recipe.total_calories / recipe.servings),
-                protein: (recipe.total_protein / recipe.servings).toFixed(1),
-                carbs: (recipe.total_carbs / recipe.servings).toFixed(1),
-                fat: (recipe.total_fat / recipe.servings).toFixed(1),
-              };
-
-              return (
+            <>
+              {recipes.map(renderRecipe)}
+              {sharedRecipes.length > 0 && (
+                <>
+                  <p className="pt-2 text-xs font-medium uppercase text-zinc-500">From your dietitian</p>
+                  {sharedRecipes.map(renderRecipe)}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {selectedRecipe && selectedNutrition && (
+        <div className="rounded-lg border border-zinc-200 bg-white p-3 space-y-3">
+          {selectedRecipe.cooked_weight_grams ? (
+            <div className="flex gap-2 text-sm">
+              {(['servings', 'weight'] as const).map((mode) => (
                 <button
-                  key={recipe.id}
+                  key={mode}
                   type="button"
-                  onClick={() => handleAddRecipe(recipe)}
-                  disabled={saving}
-                  className="w-full text-left rounded-lg border border-zinc-200 bg-white p-3 hover:bg-zinc-50 disabled:opacity-50"
+                  onClick={() => setLogBy(mode)}
+                  className={`rounded-md px-3 py-1 font-medium transition-colors ${
+                    logBy === mode ? 'bg-zinc-900 text-white' : 'border border-zinc-300 text-zinc-700 hover:bg-zinc-50'
+                  }`}
                 >
-                  <p className="font-medium text-zinc-900">{recipe.name}</p>
-                  <p className="text-xs text-zinc-500 mt-1">
-                    Per serving: {perServing.calories} cal | P: {perServing.protein}g | C: {perServing.carbs}g | F: {perServing.fat}g
-                  </p>
-                  <p className="text-xs text-zinc-400 mt-1">
-                    Makes {recipe.servings} servings
-                  </p>
+                  {mode === 'servings' ? 'By servings' : 'By weight'}
                 </button>
-              );
-            })
+              ))}
+            </div>
+          ) : null}
+
+          {logBy === 'weight' && selectedRecipe.cooked_weight_grams ? (
+            <label className="block text-sm text-zinc-700">
+              Grams eaten (of {formatAmount(selectedRecipe.cooked_weight_grams, 'g')})
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={grams || ''}
+                onChange={(e) => setGrams(parseFloat(e.target.value) || 0)}
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+              />
+            </label>
+          ) : (
+            <label className="block text-sm text-zinc-700">
+              Servings eaten
+              <input
+                type="number"
+                min="0.25"
+                step="0.25"
+                value={servings || ''}
+                onChange={(e) => setServings(parseFloat(e.target.value) || 0)}
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+              />
+            </label>
           )}
+
+          <p className="text-xs text-zinc-500">
+            {selectedNutrition.calories} cal | P: {selectedNutrition.protein}g | C: {selectedNutrition.carbs}g | F: {selectedNutrition.fat}g | Water: {selectedNutrition.water} oz
+          </p>
+
+          <button
+            type="button"
+            onClick={() => handleAddRecipe(selectedRecipe)}
+            disabled={saving}
+            className="w-full rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {saving ? 'Adding...' : 'Add to Meal'}
+          </button>
         </div>
-      </div>
+      )}
 
       <div className="flex gap-2">
         <button
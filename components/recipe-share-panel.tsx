@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { createClient } from '@/lib/supabase/client';
+import { RecipeShare } from '@/lib/types';
+
+interface ClientOption {
+  user_id: string;
+  name: string;
+}
+
+interface RecipeSharePanelProps {
+  recipeId: string;
+}
+
+/**
+ * Lets a dietitian share one of their recipes with their active clients.
+ * Renders nothing for users without clients.
+ */
+export function RecipeSharePanel({ recipeId }: RecipeSharePanelProps) {
+  const { user } = useAuth();
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [shares, setShares] = useState<RecipeShare[]>([]);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const supabase = createClient();
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, recipeId]);
+
+  const fetchData = async () => {
+    try {
+      const { data: assignments, error: assignmentsError } = await supabase
+        .from('dietitian_clients')
+        .select('client_id')
+        .eq('dietitian_id', user?.id)
+        .eq('status', 'active');
+
+      if (assignmentsError) throw assignmentsError;
+
+      const clientIds = (assignments || []).map((a) => a.client_id);
+      if (clientIds.length === 0) return;
+
+      const [profilesResult, sharesResult] = await Promise.all([
+        supabase
+          .from('user_profiles')
+          .select('user_id, full_name, username')
+          .in('user_id', clientIds)
+          .order('full_name'),
+        supabase
+          .from('recipe_shares')
+          .select('*')
+          .eq('recipe_id', recipeId),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (sharesResult.error) throw sharesResult.error;
+
+      setClients((profilesResult.data || []).map((p) => ({
+        user_id: p.user_id,
+        name: p.full_name || p.username || 'Client',
+      })));
+      setShares(sharesResult.data || []);
+    } catch (err) {
+      console.error('Error fetching recipe shares:', err);
+    }
+  };
+
+  const toggleShare = async (clientId: string) => {
+    const existing = shares.find(s => s.client_id === clientId);
+    setUpdating(clientId);
+
+    try {
+      if (existing) {
+        const { error } = await supabase
+          .from('recipe_shares')
+          .delete()
+          .eq('id', existing.id);
+
+        if (error) throw error;
+        setShares(prev => prev.filter(s => s.id !== existing.id));
+      } else {
+        const { data, error } = await supabase
+          .from('recipe_shares')
+          .insert({
+            recipe_id: recipeId,
+            dietitian_id: user?.id,
+            client_id: clientId,
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+        setShares(prev => [...prev, data]);
+      }
+    } catch (err) {
+      console.error('Error updating recipe share:', err);
+      alert('Failed to update sharing');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const toggleCopy = async (share: RecipeShare) => {
+    setUpdating(share.client_id);
+
+    try {
+      const { error } = await supabase
+        .from('recipe_shares')
+        .update({ can_copy: !share.can_copy })
+        .eq('id', share.id);
+
+      if (error) throw error;
+      setShares(prev => prev.map(s => (s.id === share.id ? { ...s, can_copy: !share.can_copy } : s)));
+    } catch (err) {
+      console.error('Error updating recipe share:', err);
+      alert('Failed to update sharing');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (clients.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Share with Clients</h2>
+        <p className="mt-1 text-sm text-zinc-600">
+          Shared clients can view and log this recipe. Allow copying to offer them a button that saves their own editable copy.
+        </p>
+      </div>
+
+      <div className="divide-y divide-zinc-100">
+        {clients.map(client => {
+          const share = shares.find(s => s.client_id === client.user_id);
+          return (
+            <div key={client.user_id} className="flex flex-wrap items-center justify-between gap-3 py-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!share}
+                  disabled={updating === client.user_id}
+                  onChange={() => toggleShare(client.user_id)}
+                />
+                {client.name}
+              </label>
+              {share && (
+                <label className="flex items-center gap-2 text-zinc-600">
+                  <input
+                    type="checkbox"
+                    checked={share.can_copy}
+                    disabled={updating === client.user_id}
+                    onChange={() => toggleCopy(share)}
+                  />
+                  Allow copying
+                </label>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { saveMealAsTemplate } from '@/lib/supabase/meal-templates';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { Meal } from '@/lib/types';
+
+interface SaveTemplateFormProps {
+  meal: Meal;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Suggests a name from the meal's items, e.g. "Oatmeal + Banana + Coffee"
+ */
+function suggestName(meal: Meal): string {
+  return [...(meal.meal_items || [])]
+    .sort((a, b) => a.order - b.order)
+    .map((item) => item.food_name)
+    .join(' + ')
+    .slice(0, 80);
+}
+
+export function SaveTemplateForm({ meal, onSave, onCancel }: SaveTemplateFormProps) {
+  const { user } = useAuth();
+  const [name, setName] = useState(() => suggestName(meal));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const handleSave = async () => {
+    if (!user || !name.trim()) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveMealAsTemplate(supabase, user.id, meal, name.trim());
+      onSave();
+    } catch (err) {
+      console.error('Error saving meal template:', err);
+      setError('Failed to save template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-pink-200 bg-pink-50 p-3 mb-3 space-y-2">
+      <label className="block text-sm font-medium text-zinc-900">Template name</label>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-2 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Usual breakfast"
+          className="flex-1 min-w-0 rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm focus:border-zinc-900 focus:outline-none focus:ring-1 focus:ring-zinc-900"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !name.trim()}
+          className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
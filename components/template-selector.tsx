@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { addTemplateToMeal } from '@/lib/supabase/meal-templates';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { MEAL_TYPES, MealTemplate, MealType } from '@/lib/types';
+import { roundNutrients, sumNutrients } from '@/lib/utils/nutrition';
+
+interface TemplateSelectorProps {
+  mealId: string;
+  mealType: MealType;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+export function TemplateSelector({ mealId, mealType, onSave, onCancel }: TemplateSelectorProps) {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [user]);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('meal_templates')
+        .select(`
+          *,
+          meal_template_items (*)
+        `)
+        .eq('user_id', user?.id)
+        .order('name');
+
+      if (error) throw error;
+
+      // Templates saved from this kind of meal first
+      const sorted = (data || []).sort(
+        (a, b) => Number(b.meal_type === mealType) - Number(a.meal_type === mealType)
+      );
+      setTemplates(sorted);
+    } catch (err) {
+      console.error('Error fetching meal templates:', err);
+      setError('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddTemplate = async (template: MealTemplate) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await addTemplateToMeal(supabase, mealId, template);
+      onSave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getMealTypeLabel = (type: MealType) =>
+    MEAL_TYPES.find((m) => m.type === type)?.label || type;
+
+  if (loading) {
+    return (
+      <div className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
+        <p className="text-sm text-zinc-600">Loading templates...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-zinc-300 bg-zinc-50 p-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-2 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-3">
+        <label className="block text-sm font-medium text-zinc-900 mb-2">
+          Select a Template
+        </label>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {templates.length === 0 ? (
+            <p className="text-sm text-zinc-500">
+              No templates yet. Use &quot;Save as template&quot; on a meal you eat often.
+            </p>
+          ) : (
+            templates.map((template) => {
+              const items = template.meal_template_items || [];
+              const totals = roundNutrients(sumNutrients(items));
+
+              return (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => handleAddTemplate(template)}
+                  disabled={saving}
+                  className="w-full text-left rounded-lg border border-zinc-200 bg-white p-3 hover:bg-zinc-50 disabled:opacity-50"
+                >
+                  <p className="font-medium text-zinc-900">{template.name}</p>
+                  <p className="text-xs text-zinc-500 mt-1">
+                    {totals.calories} cal | P: {totals.protein}g | C: {totals.carbs}g | F: {totals.fat}g
+                  </p>
+                  <p className="text-xs text-zinc-400 mt-1">
+                    {getMealTypeLabel(template.meal_type)} • {items.length} item{items.length !== 1 ? 's' : ''}
+                  </p>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
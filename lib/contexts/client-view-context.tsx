@@ -0,0 +1,53 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { useAuth } from '@/lib/contexts/auth-context';
+
+interface ClientViewContextType {
+  userId: string | undefined;
+  clientName: string;
+  readOnly: boolean;
+  basePath: string;
+}
+
+const ClientViewContext = createContext<ClientViewContextType | undefined>(undefined);
+
+export function ClientViewProvider({
+  clientId,
+  clientName,
+  children,
+}: {
+  clientId: string;
+  clientName: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <ClientViewContext.Provider
+      value={{
+        userId: clientId,
+        clientName,
+        readOnly: true,
+        basePath: `/clients/${clientId}`,
+      }}
+    >
+      {children}
+    </ClientViewContext.Provider>
+  );
+}
+
+/**
+ * Returns the user whose data the current page should show. Outside of a
+ * ClientViewProvider this is the signed-in user with full edit access; inside
+ * one it is the client a dietitian is viewing, in read-only mode.
+ */
+export function useViewedUser(): ClientViewContextType {
+  const context = useContext(ClientViewContext);
+  const { user } = useAuth();
+  if (context) return context;
+  return {
+    userId: user?.id,
+    clientName: '',
+    readOnly: false,
+    basePath: '',
+  };
+}
@@ -0,0 +1,215 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/food-search/route';
+import { FoodPortion, NormalizedFood } from '@/lib/types';
+import { emptyNutrients } from '@/lib/utils/nutrition';
+import { searchFoodDatabase } from './food-search';
+
+const { getCachedSearch, cacheSearch, getCachedPortions, cachePortions, searchLocalFoods, getLocalPortions } = vi.hoisted(() => ({
+  getCachedSearch: vi.fn(),
+  cacheSearch: vi.fn(),
+  getCachedPortions: vi.fn(),
+  cachePortions: vi.fn(),
+  searchLocalFoods: vi.fn(),
+  getLocalPortions: vi.fn(),
+}));
+
+// The cache and the imported database live in Supabase; only USDA is a real (stub) server
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: () => ({}) }));
+vi.mock('@/lib/supabase/server', () => ({ createClient: async () => ({}) }));
+vi.mock('@/lib/supabase/food-cache', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/supabase/food-cache')>(),
+  getCachedSearch,
+  cacheSearch,
+  getCachedPortions,
+  cachePortions,
+}));
+vi.mock('@/lib/supabase/fdc-foods', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/supabase/fdc-foods')>(),
+  searchLocalFoods,
+  getLocalPortions,
+}));
+
+function cachedFood(fdcId: number, description: string): NormalizedFood {
+  return {
+    ...emptyNutrients(),
+    id: `usda-${fdcId}`,
+    fdcId,
+    description,
+    servingSize: 100,
+    servingSizeUnit: 'g',
+    portions: [],
+    source: 'USDA',
+  };
+}
+
+const CACHED_OATS = cachedFood(1, 'Oats (cached)');
+const LOCAL_OATS = cachedFood(2, 'Oats (imported)');
+
+const CACHED_CUP: FoodPortion[] = [{ measureUnit: 'cup', gramWeight: 80, amount: 1 }];
+const LOCAL_CUP: FoodPortion[] = [{ measureUnit: 'cup', gramWeight: 82, amount: 1 }];
+
+// A local stand-in for the FoodData Central search and food detail endpoints
+let usdaStatus = 200;
+const usdaRequests: string[] = [];
+const usda: Server = createServer((request, response) => {
+  const url = request.url || '';
+  usdaRequests.push(url);
+  response.statusCode = usdaStatus;
+  response.setHeader('Content-Type', 'application/json');
+  if (usdaStatus !== 200) {
+    response.end('{}');
+  } else if (url.startsWith('/food/')) {
+    response.end(JSON.stringify({
+      fdcId: 3,
+      description: 'Oats (live)',
+      foodPortions: [{ measureUnit: { name: 'cup' }, gramWeight: 81, amount: 1 }],
+    }));
+  } else {
+    response.end(JSON.stringify({
+      foods: [{ fdcId: 3, description: 'Oats (live)', foodNutrients: [{ nutrientId: 1008, value: 389 }] }],
+    }));
+  }
+});
+let usdaUrl = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => usda.listen(0, '127.0.0.1', resolve));
+  usdaUrl = `http://127.0.0.1:${(usda.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => usda.close(resolve));
+});
+
+beforeEach(() => {
+  vi.stubEnv('USDA_API_KEY', 'test-key');
+  vi.stubEnv('USDA_API_BASE_URL', usdaUrl);
+  vi.stubEnv('FOOD_SEARCH_SOURCE', '');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  usdaStatus = 200;
+  usdaRequests.length = 0;
+  getCachedSearch.mockReset().mockResolvedValue(null);
+  cacheSearch.mockReset().mockResolvedValue(undefined);
+  getCachedPortions.mockReset().mockResolvedValue(null);
+  cachePortions.mockReset().mockResolvedValue(undefined);
+  searchLocalFoods.mockReset().mockResolvedValue([]);
+  getLocalPortions.mockReset().mockResolvedValue(null);
+});
+
+async function getPortions(fdcId: number) {
+  const response = await GET(new NextRequest(`http://localhost/api/food-search?fdcId=${fdcId}`));
+  return { status: response.status, body: await response.json() };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('searchFoodDatabase', () => {
+  it('serves a fresh cached search without calling USDA', async () => {
+    getCachedSearch.mockResolvedValue({ value: [CACHED_OATS], fresh: true });
+
+    expect(await searchFoodDatabase('oats')).toEqual({ foods: [CACHED_OATS], cached: true });
+    expect(usdaRequests).toHaveLength(0);
+  });
+
+  it('refreshes a stale cached search from USDA and caches the results', async () => {
+    getCachedSearch.mockResolvedValue({ value: [CACHED_OATS], fresh: false });
+
+    const result = await searchFoodDatabase('oats');
+    expect(result).toMatchObject({ foods: [{ fdcId: 3, description: 'Oats (live)', calories: 389 }] });
+    expect(result).not.toHaveProperty('stale');
+    expect(usdaRequests[0]).toContain('query=oats');
+    expect(cacheSearch).toHaveBeenCalledWith({}, 'oats', expect.arrayContaining([expect.objectContaining({ fdcId: 3 })]));
+  });
+
+  it('serves a stale cached search when USDA responds with an error', async () => {
+    usdaStatus = 503;
+    getCachedSearch.mockResolvedValue({ value: [CACHED_OATS], fresh: false });
+
+    expect(await searchFoodDatabase('oats')).toEqual({ foods: [CACHED_OATS], cached: true, stale: true });
+    expect(cacheSearch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the imported database when USDA is down and nothing is cached', async () => {
+    usdaStatus = 503;
+    searchLocalFoods.mockResolvedValue([LOCAL_OATS]);
+
+    expect(await searchFoodDatabase('oats')).toEqual({ foods: [LOCAL_OATS], local: true });
+  });
+
+  it('reports the USDA error when there is nothing to fall back on', async () => {
+    usdaStatus = 503;
+
+    expect(await searchFoodDatabase('oats')).toEqual({ error: 'USDA search failed: 503', status: 502 });
+  });
+
+  it('serves a stale cached search when USDA can\'t be reached at all', async () => {
+    await new Promise(resolve => usda.close(resolve));
+    getCachedSearch.mockResolvedValue({ value: [CACHED_OATS], fresh: false });
+
+    expect(await searchFoodDatabase('oats')).toEqual({ foods: [CACHED_OATS], cached: true, stale: true });
+    await new Promise<void>(resolve => usda.listen(Number(new URL(usdaUrl).port), '127.0.0.1', resolve));
+  });
+
+  it('uses only the imported database when FOOD_SEARCH_SOURCE is local', async () => {
+    vi.stubEnv('FOOD_SEARCH_SOURCE', 'local');
+    searchLocalFoods.mockResolvedValue([LOCAL_OATS]);
+
+    expect(await searchFoodDatabase('oats')).toEqual({ foods: [LOCAL_OATS], local: true });
+    expect(getCachedSearch).not.toHaveBeenCalled();
+    expect(usdaRequests).toHaveLength(0);
+  });
+});
+
+describe('GET /api/food-search?fdcId=', () => {
+  it('serves fresh cached portions without calling USDA', async () => {
+    getCachedPortions.mockResolvedValue({ value: CACHED_CUP, fresh: true });
+
+    expect(await getPortions(3)).toEqual({ status: 200, body: { portions: CACHED_CUP, cached: true } });
+    expect(usdaRequests).toHaveLength(0);
+  });
+
+  it('refreshes stale portions from USDA and caches them', async () => {
+    getCachedPortions.mockResolvedValue({ value: CACHED_CUP, fresh: false });
+    const live = [{ measureUnit: 'cup', gramWeight: 81, amount: 1 }];
+
+    expect(await getPortions(3)).toEqual({ status: 200, body: { portions: live } });
+    expect(usdaRequests[0]).toMatch(/^\/food\/3\?/);
+    expect(cachePortions).toHaveBeenCalledWith({}, 3, live);
+  });
+
+  it('serves stale portions when USDA responds with an error', async () => {
+    usdaStatus = 503;
+    getCachedPortions.mockResolvedValue({ value: CACHED_CUP, fresh: false });
+
+    expect(await getPortions(3)).toEqual({ status: 200, body: { portions: CACHED_CUP, cached: true, stale: true } });
+    expect(cachePortions).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the imported database when USDA is down and nothing is cached', async () => {
+    usdaStatus = 503;
+    getLocalPortions.mockResolvedValue(LOCAL_CUP);
+
+    expect(await getPortions(3)).toEqual({ status: 200, body: { portions: LOCAL_CUP, local: true } });
+  });
+
+  it('reports a failure when there is nothing to fall back on', async () => {
+    usdaStatus = 503;
+
+    expect(await getPortions(3)).toEqual({ status: 502, body: { error: 'Failed to fetch food detail' } });
+  });
+
+  it('uses only the imported database when FOOD_SEARCH_SOURCE is local', async () => {
+    vi.stubEnv('FOOD_SEARCH_SOURCE', 'local');
+    getLocalPortions.mockResolvedValue(LOCAL_CUP);
+
+    expect(await getPortions(3)).toEqual({ status: 200, body: { portions: LOCAL_CUP, local: true } });
+    expect(getCachedPortions).not.toHaveBeenCalled();
+    expect(usdaRequests).toHaveLength(0);
+  });
+});
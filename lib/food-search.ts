@@ -0,0 +1,58 @@
+import { NormalizedFood } from '@/lib/types';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { isLocalSearchOnly, searchLocalFoods } from '@/lib/supabase/fdc-foods';
+import { cacheSearch, getCachedSearch, ignoreCacheErrors } from '@/lib/supabase/food-cache';
+import { searchUSDA } from '@/lib/usda';
+
+export type FoodDatabaseSearch =
+  | { foods: NormalizedFood[]; cached?: true; stale?: true; local?: true }
+  | { error: string; status: number };
+
+/**
+ * Searches USDA foods for the server routes: a fresh cached search, then the
+ * live API, then a stale cached search, then the imported FoodData Central
+ * database. With FOOD_SEARCH_SOURCE=local only the imported database is used.
+ */
+export async function searchFoodDatabase(query: string): Promise<FoodDatabaseSearch> {
+  if (isLocalSearchOnly()) {
+    try {
+      return { foods: await searchLocalFoods(await createClient(), query), local: true };
+    } catch (error) {
+      console.error('Error searching local food database:', error);
+      return { error: 'Failed to search local food database', status: 500 };
+    }
+  }
+
+  const apiKey = process.env.USDA_API_KEY;
+  // null when SUPABASE_SERVICE_ROLE_KEY isn't set; search then always goes to USDA
+  const cache = createAdminClient();
+
+  const cached = cache ? await ignoreCacheErrors(getCachedSearch(cache, query)) : null;
+  if (cached?.fresh) {
+    return { foods: cached.value, cached: true };
+  }
+
+  let errorMessage = 'API key not configured';
+  if (apiKey) {
+    try {
+      const results = await searchUSDA(query, apiKey);
+      if (cache) await ignoreCacheErrors(cacheSearch(cache, query, results));
+      return { foods: results };
+    } catch (error) {
+      console.error('Error fetching food data:', error);
+      errorMessage = error instanceof Error ? error.message : 'Failed to fetch food data';
+    }
+  }
+
+  // USDA is unreachable or not configured: older results beat no results, and
+  // an imported FoodData Central release (if any) is the last resort
+  if (cached) {
+    return { foods: cached.value, cached: true, stale: true };
+  }
+  const localFoods = await ignoreCacheErrors(searchLocalFoods(await createClient(), query));
+  if (localFoods && localFoods.length > 0) {
+    return { foods: localFoods, local: true };
+  }
+  return { error: errorMessage, status: apiKey ? 502 : 500 };
+}
@@ -0,0 +1,15 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Creates a server-only client that bypasses RLS, for tables no user may
+ * write to directly (e.g., the USDA cache). Never import this from client code.
+ * @returns null when SUPABASE_SERVICE_ROLE_KEY isn't configured
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
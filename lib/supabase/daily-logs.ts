@@ -0,0 +1,193 @@
+import { addDays } from 'date-fns';
+import { DailyLog, Meal, MealType, Week } from '@/lib/types';
+import { formatDateForDB, getWeekStart } from '@/lib/utils/date';
+import { createClient } from './client';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Finds the week containing a date (YYYY-MM-DD), creating it if needed
+ */
+export async function findOrCreateWeek(supabase: SupabaseClient, userId: string, date: string): Promise<Week> {
+  const weekStartDate = getWeekStart(new Date(date + 'T00:00:00'));
+  const weekStartStr = formatDateForDB(weekStartDate);
+  const weekEndStr = formatDateForDB(addDays(weekStartDate, 6));
+
+  // Try exact start_date match first
+  const { data: exactWeek } = await supabase
+    .from('weeks')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('start_date', weekStartStr)
+    .single();
+
+  if (exactWeek) return exactWeek;
+
+  // Try range match (handles weeks created with different start day)
+  const { data: rangeWeek } = await supabase
+    .from('weeks')
+    .select('*')
+    .eq('user_id', userId)
+    .lte('start_date', date)
+    .gte('end_date', date)
+    .single();
+
+  if (rangeWeek) return rangeWeek;
+
+  // Create new week
+  const { data: newWeek, error: createError } = await supabase
+    .from('weeks')
+    .insert({
+      user_id: userId,
+      start_date: weekStartStr,
+      end_date: weekEndStr,
+    })
+    .select()
+    .single();
+
+  if (createError) {
+    // Race condition: another call already created it — re-fetch
+    if (createError.code === '23505') {
+      const { data: existingWeek } = await supabase
+        .from('weeks')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('start_date', weekStartStr)
+        .single();
+      if (existingWeek) return existingWeek;
+    }
+    throw createError;
+  }
+  return newWeek;
+}
+
+/**
+ * Finds the daily log for a date
+ * @returns null when nothing has been logged that day
+ */
+export async function findDailyLog(supabase: SupabaseClient, userId: string, date: string): Promise<DailyLog | null> {
+  const { data, error } = await supabase
+    .from('daily_logs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('log_date', date)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error;
+  return data;
+}
+
+/**
+ * Finds the daily log for a date, creating it (and its week) if needed
+ */
+export async function findOrCreateDailyLog(supabase: SupabaseClient, userId: string, date: string): Promise<DailyLog> {
+  const log = await findDailyLog(supabase, userId, date);
+  if (log) return log;
+
+  const week = await findOrCreateWeek(supabase, userId, date);
+
+  // Totals start at zero and are kept up to date by the database
+  const { data: newLog, error: createError } = await supabase
+    .from('daily_logs')
+    .insert({
+      week_id: week.id,
+      user_id: userId,
+      log_date: date,
+    })
+    .select()
+    .single();
+
+  if (createError) {
+    // Race condition: another call already created it — just re-fetch
+    if (createError.code === '23505') {
+      const existingLog = await findDailyLog(supabase, userId, date);
+      if (existingLog) return existingLog;
+    }
+    throw createError;
+  }
+  return newLog;
+}
+
+/**
+ * Finds the first meal of a type on a day, creating it if the day has none
+ */
+export async function findOrCreateMeal(supabase: SupabaseClient, dailyLogId: string, mealType: MealType): Promise<Meal> {
+  const { data: existingMeals, error: fetchError } = await supabase
+    .from('meals')
+    .select('*')
+    .eq('daily_log_id', dailyLogId)
+    .eq('meal_type', mealType)
+    .order('meal_order')
+    .limit(1);
+
+  if (fetchError) throw fetchError;
+  if (existingMeals && existingMeals.length > 0) return existingMeals[0];
+
+  const { data: newMeal, error: createError } = await supabase
+    .from('meals')
+    .insert({
+      daily_log_id: dailyLogId,
+      meal_type: mealType,
+      meal_order: 1,
+    })
+    .select()
+    .single();
+
+  if (createError) throw createError;
+  return newMeal;
+}
+
+/**
+ * Inserts items after a meal's existing items, keeping their given order
+ */
+export async function appendMealItems(
+  supabase: SupabaseClient,
+  mealId: string,
+  items: Record<string, unknown>[]
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const { data: existingItems, error: fetchError } = await supabase
+    .from('meal_items')
+    .select('order')
+    .eq('meal_id', mealId)
+    .order('order', { ascending: false })
+    .limit(1);
+
+  if (fetchError) throw fetchError;
+
+  const firstOrder = existingItems && existingItems.length > 0
+    ? existingItems[0].order + 1
+    : 1;
+
+  const { error: insertError } = await supabase
+    .from('meal_items')
+    .insert(items.map((item, index) => ({ ...item, meal_id: mealId, order: firstOrder + index })));
+
+  if (insertError) throw insertError;
+}
+
+/**
+ * Copies meals and their items onto the end of another day's meals of the same type
+ * @returns the number of meals copied
+ */
+export async function copyMealsToDate(
+  supabase: SupabaseClient,
+  userId: string,
+  meals: Meal[],
+  targetDate: string
+): Promise<number> {
+  const targetLog = await findOrCreateDailyLog(supabase, userId, targetDate);
+  if (targetLog.is_locked) {
+    throw new Error('That day is locked. Unlock it before copying meals into it.');
+  }
+
+  // One transaction, so a failure leaves no partly copied day behind
+  const { data, error } = await supabase.rpc('copy_meals_to_daily_log', {
+    p_meal_ids: meals.map(meal => meal.id),
+    p_daily_log_id: targetLog.id,
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,97 @@
+import { FoodPortion, NormalizedFood } from '@/lib/types';
+import { barcodeVariants } from '@/lib/utils/barcode';
+import { createClient } from './server';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// A row of fdc_foods, filled by scripts/import-fdc.mjs
+interface FdcFoodRow {
+  fdc_id: number;
+  description: string;
+  brand_owner: string | null;
+  gtin_upc: string | null;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+  sugar: number;
+  saturated_fat: number;
+  potassium: number;
+  cholesterol: number;
+  serving_size: number | null;
+  serving_size_unit: string | null;
+  portions: FoodPortion[];
+}
+
+/**
+ * FOOD_SEARCH_SOURCE=local searches only the imported FoodData Central tables
+ * (see scripts/import-fdc.mjs), with no network or API key needed
+ */
+export function isLocalSearchOnly(): boolean {
+  return process.env.FOOD_SEARCH_SOURCE === 'local';
+}
+
+function toNormalizedFood(row: FdcFoodRow): NormalizedFood {
+  return {
+    id: `usda-${row.fdc_id}`,
+    fdcId: Number(row.fdc_id),
+    description: row.brand_owner ? `${row.description} (${row.brand_owner})` : row.description,
+    calories: Number(row.calories),
+    protein: Number(row.protein),
+    carbs: Number(row.carbs),
+    fat: Number(row.fat),
+    fiber: Number(row.fiber),
+    water: 0,
+    sodium: Number(row.sodium),
+    sugar: Number(row.sugar),
+    saturated_fat: Number(row.saturated_fat),
+    potassium: Number(row.potassium),
+    cholesterol: Number(row.cholesterol),
+    servingSize: Number(row.serving_size) || 100,
+    servingSizeUnit: row.serving_size_unit || 'g',
+    portions: row.portions || [],
+    gtinUpc: row.gtin_upc || undefined,
+    source: 'USDA',
+  };
+}
+
+/**
+ * Searches the imported FoodData Central foods, best match first
+ */
+export async function searchLocalFoods(supabase: SupabaseClient, query: string, limit = 10): Promise<NormalizedFood[]> {
+  const { data, error } = await supabase.rpc('search_fdc_foods', { p_query: query, p_limit: limit });
+
+  if (error) throw error;
+  return ((data || []) as FdcFoodRow[]).map(toNormalizedFood);
+}
+
+/**
+ * Gets the portions of an imported food
+ * @returns null when the food isn't in the local database
+ */
+export async function getLocalPortions(supabase: SupabaseClient, fdcId: number): Promise<FoodPortion[] | null> {
+  const { data, error } = await supabase
+    .from('fdc_foods')
+    .select('portions')
+    .eq('fdc_id', fdcId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error;
+  return data ? data.portions || [] : null;
+}
+
+/**
+ * Finds imported Branded foods by barcode
+ * @param gtin - a barcode normalized with normalizeBarcode
+ */
+export async function findLocalFoodsByBarcode(supabase: SupabaseClient, gtin: string): Promise<NormalizedFood[]> {
+  const { data, error } = await supabase
+    .from('fdc_foods')
+    .select('*')
+    .in('gtin_upc', barcodeVariants(gtin));
+
+  if (error) throw error;
+  return ((data || []) as FdcFoodRow[]).map(toNormalizedFood);
+}
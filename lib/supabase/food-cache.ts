@@ -0,0 +1,129 @@
+import { FoodPortion, NormalizedFood } from '@/lib/types';
+import { createAdminClient } from './admin';
+
+type AdminClient = NonNullable<ReturnType<typeof createAdminClient>>;
+
+// Cached USDA data older than this is refreshed when the API is reachable
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface Cached<T> {
+  value: T;
+  // false once older than the TTL; stale entries are still served when USDA is down
+  fresh: boolean;
+}
+
+function isFresh(fetchedAt: string): boolean {
+  return Date.now() - new Date(fetchedAt).getTime() < CACHE_TTL_MS;
+}
+
+/**
+ * Logs and swallows a cache or local database error, since the live API can still answer
+ */
+export async function ignoreCacheErrors<T>(operation: Promise<T>): Promise<T | null> {
+  try {
+    return await operation;
+  } catch (error) {
+    console.error('Food database error:', error);
+    return null;
+  }
+}
+
+/**
+ * Normalizes a search so "Rolled Oats " and "rolled  oats" share a cache entry
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Gets the cached results of a search, in their original order
+ * @returns null when the search hasn't been cached
+ */
+export async function getCachedSearch(supabase: AdminClient, query: string): Promise<Cached<NormalizedFood[]> | null> {
+  const { data: search, error: searchError } = await supabase
+    .from('usda_search_cache')
+    .select('fdc_ids, fetched_at')
+    .eq('query', normalizeSearchQuery(query))
+    .single();
+
+  if (searchError && searchError.code !== 'PGRST116') throw searchError;
+  if (!search) return null;
+
+  const fdcIds: number[] = search.fdc_ids || [];
+  if (fdcIds.length === 0) return { value: [], fresh: isFresh(search.fetched_at) };
+
+  const { data: foods, error: foodsError } = await supabase
+    .from('usda_food_cache')
+    .select('fdc_id, food')
+    .in('fdc_id', fdcIds);
+
+  if (foodsError) throw foodsError;
+
+  const byId = new Map((foods || []).map(row => [Number(row.fdc_id), row.food as NormalizedFood]));
+  return {
+    value: fdcIds.map(id => byId.get(id)).filter((food): food is NormalizedFood => !!food),
+    fresh: isFresh(search.fetched_at),
+  };
+}
+
+/**
+ * Stores a search's results, leaving any cached portions of those foods in place
+ */
+export async function cacheSearch(supabase: AdminClient, query: string, foods: NormalizedFood[]): Promise<void> {
+  const fetchedAt = new Date().toISOString();
+
+  if (foods.length > 0) {
+    const { error: foodsError } = await supabase
+      .from('usda_food_cache')
+      .upsert(foods.map(food => ({
+        fdc_id: food.fdcId,
+        description: food.description,
+        food,
+        fetched_at: fetchedAt,
+      })));
+
+    if (foodsError) throw foodsError;
+  }
+
+  const { error: searchError } = await supabase
+    .from('usda_search_cache')
+    .upsert({
+      query: normalizeSearchQuery(query),
+      fdc_ids: foods.map(food => food.fdcId),
+      fetched_at: fetchedAt,
+    });
+
+  if (searchError) throw searchError;
+}
+
+/**
+ * Gets the cached portions of a food
+ * @returns null when its portions haven't been fetched yet
+ */
+export async function getCachedPortions(supabase: AdminClient, fdcId: number): Promise<Cached<FoodPortion[]> | null> {
+  const { data, error } = await supabase
+    .from('usda_food_cache')
+    .select('portions, portions_fetched_at')
+    .eq('fdc_id', fdcId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error;
+  if (!data || !data.portions_fetched_at) return null;
+
+  return { value: data.portions || [], fresh: isFresh(data.portions_fetched_at) };
+}
+
+/**
+ * Stores a food's portions from the detail endpoint (for foods already cached by a search)
+ */
+export async function cachePortions(supabase: AdminClient, fdcId: number, portions: FoodPortion[]): Promise<void> {
+  const { error } = await supabase
+    .from('usda_food_cache')
+    .update({
+      portions,
+      portions_fetched_at: new Date().toISOString(),
+    })
+    .eq('fdc_id', fdcId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,78 @@
+import { Food, MealType } from '@/lib/types';
+import { toGrams } from '@/lib/utils/nutrition';
+import { createClient } from './client';
+import { appendMealItems } from './daily-logs';
+import { planFood } from './meal-plans';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Gets a user's most logged foods. usage_count is kept up to date by the
+ * database whenever a meal item linked to the food changes.
+ */
+export async function fetchFrequentFoods(
+  supabase: SupabaseClient,
+  userId: string,
+  limit = 6
+): Promise<Food[]> {
+  const { data, error } = await supabase
+    .from('foods')
+    .select('*')
+    .eq('user_id', userId)
+    .gt('usage_count', 0)
+    .order('usage_count', { ascending: false })
+    .order('last_used_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Gets the foods a user logged most recently at a meal type, latest first
+ */
+export async function fetchRecentFoodsForMealType(
+  supabase: SupabaseClient,
+  userId: string,
+  mealType: MealType,
+  limit = 6
+): Promise<Food[]> {
+  const { data, error } = await supabase.rpc('get_recent_foods_for_meal_type', {
+    p_user_id: userId,
+    p_meal_type: mealType,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Logs one serving (the food's default amount) of a saved food to a meal
+ */
+export async function quickAddFood(supabase: SupabaseClient, mealId: string, food: Food): Promise<void> {
+  const item = planFood(food, 1);
+  const grams = item.quantity && item.unit
+    ? toGrams(item.quantity, item.unit, food.portion_grams || {})
+    : null;
+
+  await appendMealItems(supabase, mealId, [{
+    food_id: food.id,
+    food_name: item.name,
+    amount: item.amount,
+    quantity: item.quantity,
+    unit: item.unit,
+    grams: grams === null ? null : Math.round(grams * 10) / 10,
+    calories: item.calories,
+    protein: item.protein,
+    carbs: item.carbs,
+    fat: item.fat,
+    fiber: item.fiber,
+    water: item.water,
+    sodium: item.sodium,
+    sugar: item.sugar,
+    saturated_fat: item.saturated_fat,
+    potassium: item.potassium,
+    cholesterol: item.cholesterol,
+  }]);
+}
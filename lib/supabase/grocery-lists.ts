@@ -0,0 +1,42 @@
+import { GroceryList, GroceryListSource } from '@/lib/types';
+import { GroceryLine } from '@/lib/utils/grocery';
+import { createClient } from './client';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Saves a generated grocery list with its lines, in aisle order
+ */
+export async function createGroceryList(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string,
+  sources: GroceryListSource[],
+  lines: GroceryLine[]
+): Promise<GroceryList> {
+  const { data: list, error: listError } = await supabase
+    .from('grocery_lists')
+    .insert({
+      user_id: userId,
+      name,
+      sources,
+    })
+    .select()
+    .single();
+
+  if (listError) throw listError;
+
+  if (lines.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('grocery_list_items')
+      .insert(lines.map((line, index) => ({ ...line, list_id: list.id, order: index + 1 })));
+
+    if (itemsError) {
+      // Don't leave an empty list behind
+      await supabase.from('grocery_lists').delete().eq('id', list.id);
+      throw itemsError;
+    }
+  }
+
+  return list;
+}
@@ -0,0 +1,172 @@
+import { Food, MealPlanEntry, MealTemplate, MealType, NutrientVector, Recipe } from '@/lib/types';
+import { getFoodPerServing, getRecipeTotals, perServing, roundNutrients, scaleNutrients, sumNutrients } from '@/lib/utils/nutrition';
+import { formatAmount, parseAmount } from '@/lib/utils/quantity';
+import { createClient } from './client';
+import { appendMealItems, findOrCreateDailyLog, findOrCreateMeal, findOrCreateWeek } from './daily-logs';
+import { addTemplateToMeal } from './meal-templates';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/** What is being planned, with the nutrition copied onto the entry */
+export type PlannedItem = Pick<MealPlanEntry, 'food_id' | 'recipe_id' | 'template_id' | 'name' | 'amount' | 'quantity' | 'unit'>
+  & NutrientVector;
+
+/**
+ * Plans a number of servings of a saved food (its default amount is one serving)
+ */
+export function planFood(food: Food, servings: number): PlannedItem {
+  const parsed = parseAmount(food.default_amount);
+  const quantity = parsed ? Math.round(parsed.quantity * servings * 1000) / 1000 : null;
+  const amount = parsed && quantity !== null
+    ? formatAmount(quantity, parsed.unit)
+    : servings === 1 ? food.default_amount : `${servings} × ${food.default_amount}`;
+
+  return {
+    food_id: food.id,
+    name: food.name,
+    amount,
+    quantity,
+    unit: parsed ? parsed.unit : null,
+    ...roundNutrients(scaleNutrients(getFoodPerServing(food), servings)),
+  };
+}
+
+/**
+ * Plans a number of servings of a recipe
+ */
+export function planRecipe(recipe: Recipe, servings: number): PlannedItem {
+  return {
+    recipe_id: recipe.id,
+    name: recipe.name,
+    amount: formatAmount(servings, 'serving'),
+    quantity: servings,
+    unit: 'serving',
+    ...roundNutrients(scaleNutrients(perServing(getRecipeTotals(recipe), recipe.servings), servings)),
+  };
+}
+
+/**
+ * Plans a whole meal template
+ */
+export function planTemplate(template: MealTemplate): PlannedItem {
+  return {
+    template_id: template.id,
+    name: template.name,
+    amount: null,
+    ...roundNutrients(sumNutrients(template.meal_template_items || [])),
+  };
+}
+
+/**
+ * Adds an item to the plan for a day and meal type, after anything already planned there
+ */
+export async function addPlanEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  planDate: string,
+  mealType: MealType,
+  item: PlannedItem
+): Promise<MealPlanEntry> {
+  const week = await findOrCreateWeek(supabase, userId, planDate);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('meal_plan_entries')
+    .select('order')
+    .eq('user_id', userId)
+    .eq('plan_date', planDate)
+    .eq('meal_type', mealType)
+    .order('order', { ascending: false })
+    .limit(1);
+
+  if (fetchError) throw fetchError;
+
+  const { data, error } = await supabase
+    .from('meal_plan_entries')
+    .insert({
+      ...item,
+      week_id: week.id,
+      user_id: userId,
+      plan_date: planDate,
+      meal_type: mealType,
+      order: existing && existing.length > 0 ? existing[0].order + 1 : 1,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Logs a planned entry as eaten: copies it into the first meal of its type on
+ * its day (creating the day and meal if needed) and marks the entry as logged
+ */
+export async function logPlanEntry(
+  supabase: SupabaseClient,
+  entry: MealPlanEntry
+): Promise<MealPlanEntry> {
+  const dailyLog = await findOrCreateDailyLog(supabase, entry.user_id, entry.plan_date);
+  if (dailyLog.is_locked) {
+    throw new Error('That day is locked. Unlock it before logging planned meals.');
+  }
+
+  const meal = await findOrCreateMeal(supabase, dailyLog.id, entry.meal_type);
+
+  if (entry.template_id) {
+    const { data: template, error: templateError } = await supabase
+      .from('meal_templates')
+      .select(`
+        *,
+        meal_template_items (*)
+      `)
+      .eq('id', entry.template_id)
+      .single();
+
+    if (templateError) throw templateError;
+    await addTemplateToMeal(supabase, meal.id, template);
+  } else {
+    // A planned recipe is logged as the version current when it's eaten
+    let recipeVersionId: string | null = null;
+    if (entry.recipe_id) {
+      const { data: recipe, error: recipeError } = await supabase
+        .from('recipes')
+        .select('current_version_id')
+        .eq('id', entry.recipe_id)
+        .single();
+
+      if (recipeError && recipeError.code !== 'PGRST116') throw recipeError;
+      recipeVersionId = recipe?.current_version_id ?? null;
+    }
+
+    await appendMealItems(supabase, meal.id, [{
+      food_id: entry.food_id || null,
+      recipe_id: entry.recipe_id || null,
+      recipe_version_id: recipeVersionId,
+      food_name: entry.name,
+      amount: entry.amount || '1 serving',
+      quantity: entry.quantity ?? null,
+      unit: entry.unit ?? null,
+      calories: entry.calories,
+      protein: entry.protein,
+      carbs: entry.carbs,
+      fat: entry.fat,
+      fiber: entry.fiber,
+      water: entry.water,
+      sodium: entry.sodium,
+      sugar: entry.sugar,
+      saturated_fat: entry.saturated_fat,
+      potassium: entry.potassium,
+      cholesterol: entry.cholesterol,
+    }]);
+  }
+
+  const { data, error } = await supabase
+    .from('meal_plan_entries')
+    .update({ logged_meal_id: meal.id, logged_at: new Date().toISOString() })
+    .eq('id', entry.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
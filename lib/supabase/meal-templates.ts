@@ -0,0 +1,70 @@
+import { Meal, MealItem, MealTemplate, MealTemplateItem } from '@/lib/types';
+import { createClient } from './client';
+import { appendMealItems } from './daily-logs';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Saves a meal's items, in order, as a new template
+ */
+export async function saveMealAsTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  meal: Meal,
+  name: string
+): Promise<MealTemplate> {
+  const { data: template, error: templateError } = await supabase
+    .from('meal_templates')
+    .insert({
+      user_id: userId,
+      name,
+      meal_type: meal.meal_type,
+    })
+    .select()
+    .single();
+
+  if (templateError) throw templateError;
+
+  const items = [...(meal.meal_items || [])]
+    .sort((a, b) => a.order - b.order)
+    .map((item, index) => ({ ...itemFields(item), template_id: template.id, order: index + 1 }));
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('meal_template_items')
+      .insert(items);
+
+    if (itemsError) {
+      // Don't leave an empty template behind
+      await supabase.from('meal_templates').delete().eq('id', template.id);
+      throw itemsError;
+    }
+  }
+
+  return template;
+}
+
+/**
+ * Appends a template's items to the end of a meal
+ */
+export async function addTemplateToMeal(
+  supabase: SupabaseClient,
+  mealId: string,
+  template: MealTemplate
+): Promise<void> {
+  const items = [...(template.meal_template_items || [])]
+    .sort((a, b) => a.order - b.order)
+    .map(itemFields);
+
+  await appendMealItems(supabase, mealId, items);
+}
+
+// Columns that belong to the row rather than the food eaten
+const ITEM_IDENTITY_KEYS = ['id', 'meal_id', 'template_id', 'created_at'];
+
+/**
+ * The food, amount and nutrition of an item, without its identity
+ */
+function itemFields(item: MealItem | MealTemplateItem) {
+  return Object.fromEntries(Object.entries(item).filter(([key]) => !ITEM_IDENTITY_KEYS.includes(key)));
+}
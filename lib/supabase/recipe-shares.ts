@@ -0,0 +1,96 @@
+import { Recipe, RecipeItem } from '@/lib/types';
+import { createClient } from './client';
+import { createRecipeVersion } from './recipe-versions';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface SharedRecipe {
+  recipe: Recipe;
+  can_copy: boolean;
+}
+
+/**
+ * Lists the recipes a client's dietitian has shared with them, by name
+ */
+export async function fetchSharedRecipes(supabase: SupabaseClient, clientId: string): Promise<SharedRecipe[]> {
+  const { data: shares, error } = await supabase
+    .from('recipe_shares')
+    .select('recipe_id, can_copy')
+    .eq('client_id', clientId);
+
+  if (error) throw error;
+  if (!shares || shares.length === 0) return [];
+
+  // The recipe is hidden by RLS once the dietitian is no longer assigned
+  const { data: recipes, error: recipesError } = await supabase
+    .from('recipes')
+    .select('*, recipe_items (*)')
+    .in('id', shares.map(share => share.recipe_id))
+    .order('name');
+
+  if (recipesError) throw recipesError;
+
+  const canCopy = new Map<string, boolean>(shares.map(share => [share.recipe_id, share.can_copy]));
+  return (recipes || []).map((recipe: Recipe) => ({ recipe, can_copy: canCopy.get(recipe.id) ?? false }));
+}
+
+/**
+ * Copies a shared recipe and its ingredients into the user's own recipes
+ */
+export async function copyRecipe(supabase: SupabaseClient, userId: string, recipe: Recipe): Promise<Recipe> {
+  const { data: items, error: itemsFetchError } = await supabase
+    .from('recipe_items')
+    .select('*')
+    .eq('recipe_id', recipe.id)
+    .order('order');
+
+  if (itemsFetchError) throw itemsFetchError;
+
+  const { data: copy, error: recipeError } = await supabase
+    .from('recipes')
+    .insert({
+      user_id: userId,
+      name: recipe.name,
+      servings: recipe.servings,
+      cooked_weight_grams: recipe.cooked_weight_grams ?? null,
+      notes: recipe.notes || null,
+      total_calories: recipe.total_calories,
+      total_protein: recipe.total_protein,
+      total_carbs: recipe.total_carbs,
+      total_fat: recipe.total_fat,
+      total_fiber: recipe.total_fiber,
+      total_water: recipe.total_water ?? 0,
+      total_sodium: recipe.total_sodium ?? 0,
+      total_sugar: recipe.total_sugar ?? 0,
+      total_saturated_fat: recipe.total_saturated_fat ?? 0,
+      total_potassium: recipe.total_potassium ?? 0,
+      total_cholesterol: recipe.total_cholesterol ?? 0,
+    })
+    .select()
+    .single();
+
+  if (recipeError) throw recipeError;
+
+  if (items && items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('recipe_items')
+      .insert(items.map(item => ({ ...itemFields(item), recipe_id: copy.id })));
+
+    if (itemsError) {
+      // Don't leave a recipe without its ingredients behind
+      await supabase.from('recipes').delete().eq('id', copy.id);
+      throw itemsError;
+    }
+  }
+
+  await createRecipeVersion(supabase, copy.id);
+  return copy;
+}
+
+// Columns that belong to the original row. food_id points at the dietitian's
+// saved foods, which the client can't see.
+const ITEM_EXCLUDED_KEYS = ['id', 'recipe_id', 'food_id', 'created_at'];
+
+function itemFields(item: RecipeItem) {
+  return Object.fromEntries(Object.entries(item).filter(([key]) => !ITEM_EXCLUDED_KEYS.includes(key)));
+}
@@ -0,0 +1,82 @@
+import { DailyLog, Meal, RecipeVersion } from '@/lib/types';
+import { getLoggedRecipeNutrition } from '@/lib/utils/recipe-versions';
+import { createClient } from './client';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface ApplyVersionResult {
+  updated: number;
+  // Items left as they were because their day is locked
+  locked: number;
+  // Items whose logged amount can't be carried over to the version
+  unconvertible: number;
+}
+
+/**
+ * Snapshots a recipe's current details and ingredients as its next version
+ */
+export async function createRecipeVersion(supabase: SupabaseClient, recipeId: string): Promise<RecipeVersion> {
+  const { data, error } = await supabase.rpc('create_recipe_version', { p_recipe_id: recipeId });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Re-pins a recipe's logged items between two dates (YYYY-MM-DD, inclusive)
+ * to a version, recalculating their nutrition from the servings or grams logged
+ */
+export async function applyVersionToLogs(
+  supabase: SupabaseClient,
+  userId: string,
+  version: RecipeVersion,
+  startDate: string,
+  endDate: string
+): Promise<ApplyVersionResult> {
+  const { data, error } = await supabase
+    .from('daily_logs')
+    .select(`
+      id,
+      is_locked,
+      meals (
+        meal_items (*)
+      )
+    `)
+    .eq('user_id', userId)
+    .gte('log_date', startDate)
+    .lte('log_date', endDate);
+
+  if (error) throw error;
+
+  const logs = (data || []) as (Pick<DailyLog, 'id' | 'is_locked'> & { meals: Meal[] })[];
+  const result: ApplyVersionResult = { updated: 0, locked: 0, unconvertible: 0 };
+
+  for (const log of logs) {
+    const items = log.meals
+      .flatMap(meal => meal.meal_items || [])
+      .filter(item => item.recipe_id === version.recipe_id && item.recipe_version_id !== version.id);
+
+    if (log.is_locked) {
+      result.locked += items.length;
+      continue;
+    }
+
+    for (const item of items) {
+      const nutrition = getLoggedRecipeNutrition(version, item);
+      if (!nutrition) {
+        result.unconvertible += 1;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('meal_items')
+        .update({ ...nutrition, recipe_version_id: version.id, food_name: version.name })
+        .eq('id', item.id);
+
+      if (updateError) throw updateError;
+      result.updated += 1;
+    }
+  }
+
+  return result;
+}
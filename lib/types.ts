@@ -8,6 +8,22 @@ export interface UserProfile {
   username?: string;
   role: UserRole;
   daily_goals: DailyGoals;
+  dietitian_id?: string | null; // active assigned dietitian (clients only)
+  created_at: string;
+  updated_at: string;
+}
+
+export type AssignmentStatus = 'pending' | 'active' | 'revoked';
+
+export interface DietitianClient {
+  id: string;
+  dietitian_id: string;
+  client_id: string;
+  status: AssignmentStatus;
+  invited_at: string;
+  responded_at?: string;
+  revoked_at?: string;
+  dietitian_unlock_only: boolean; // locked days can only be unlocked by the dietitian
   created_at: string;
   updated_at: string;
 }
@@ -19,6 +35,12 @@ export interface DailyGoals {
   fiber: number;
   protein: number;
   water: number; // in oz
+  // Optional limits (potassium is a target); unset means not tracked against a goal
+  sodium?: number | null; // in mg
+  sugar?: number | null;
+  saturated_fat?: number | null;
+  potassium?: number | null; // in mg
+  cholesterol?: number | null; // in mg
 }
 
 export interface Week {
@@ -39,14 +61,38 @@ export interface DailyLog {
   total_fat: number;
   total_fiber: number;
   total_protein: number;
-  water_intake: number;
+  water_intake: number; // item water plus extra_water, kept by the database
+  extra_water: number; // water logged directly on the day
+  total_sodium: number;
+  total_sugar: number;
+  total_saturated_fat: number;
+  total_potassium: number;
+  total_cholesterol: number;
   is_locked: boolean;
+  unlock_dietitian_id: string | null; // set when locked under the dietitian-only rule; only they may unlock
   created_at: string;
   updated_at: string;
 }
 
+export interface DayLockEvent {
+  id: string;
+  daily_log_id: string;
+  user_id: string;
+  actor_id: string | null;
+  action: 'locked' | 'unlocked';
+  created_at: string;
+}
+
 export type MealType = 'breakfast' | 'lunch' | 'snack' | 'dinner' | 'bt_snack';
 
+export const MEAL_TYPES: { type: MealType; label: string }[] = [
+  { type: 'breakfast', label: 'Breakfast' },
+  { type: 'lunch', label: 'Lunch' },
+  { type: 'snack', label: 'Snack' },
+  { type: 'dinner', label: 'Dinner' },
+  { type: 'bt_snack', label: 'Bedtime Snack' },
+];
+
 export interface Meal {
   id: string;
   daily_log_id: string;
@@ -58,19 +104,33 @@ export interface Meal {
   meal_items?: MealItem[];
 }
 
+export type QuantityUnit =
+  | 'cup' | 'tbsp' | 'tsp' | 'ml' | 'fl oz'
+  | 'g' | 'oz' | 'lb'
+  | 'each' | 'package' | 'serving';
+
 export interface MealItem {
   id: string;
   meal_id: string;
   food_id?: string;
   recipe_id?: string;
+  recipe_version_id?: string | null;
   food_name: string;
   amount: string;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  grams?: number | null;
   calories: number;
   carbs?: number;
   fat?: number;
   fiber?: number;
   protein?: number;
   water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
   notes?: string;
   order: number;
   created_at: string;
@@ -87,11 +147,53 @@ export interface Food {
   fiber_per_serving?: number;
   protein_per_serving?: number;
   water_per_serving?: number;
+  sodium_per_serving?: number;
+  sugar_per_serving?: number;
+  saturated_fat_per_serving?: number;
+  potassium_per_serving?: number;
+  cholesterol_per_serving?: number;
+  portion_grams?: PortionWeights | null;
+  category?: GroceryCategory | null;
+  // 14-digit GTIN (see normalizeBarcode), so a scanned product finds this entry
+  upc?: string | null;
+  // The Nutrition Facts label the food was entered from, if any
+  nutrition_label?: NutritionLabel | null;
   usage_count: number;
   created_at: string;
   last_used_at: string;
 }
 
+// One result of the combined food search (/api/search), from the user's saved
+// foods, their recipes (own and shared) or USDA
+export type SearchResult = { id: string; name: string; score: number } & (
+  | { source: 'food'; food: Food }
+  | { source: 'recipe'; recipe: Recipe }
+  | { source: 'usda'; usda: NormalizedFood }
+);
+
+// A US Nutrition Facts label as printed: every line is per serving
+export interface NutritionLabel {
+  serving_quantity: number;
+  serving_unit: QuantityUnit;
+  serving_grams: number;
+  servings_per_container: number | null;
+  calories: number;
+  total_fat: number;
+  saturated_fat: number;
+  trans_fat: number;
+  cholesterol: number;    // mg
+  sodium: number;         // mg
+  total_carbs: number;
+  fiber: number;
+  total_sugars: number;
+  added_sugars: number;
+  protein: number;
+  vitamin_d: number;      // mcg
+  calcium: number;        // mg
+  iron: number;           // mg
+  potassium: number;      // mg
+}
+
 export interface WeightLog {
   id: string;
   user_id: string;
@@ -113,6 +215,13 @@ export interface Recipe {
   total_fiber: number;
   total_protein: number;
   total_water?: number;
+  total_sodium?: number;
+  total_sugar?: number;
+  total_saturated_fat?: number;
+  total_potassium?: number;
+  total_cholesterol?: number;
+  cooked_weight_grams?: number | null;
+  current_version_id?: string | null;
   created_at: string;
   updated_at: string;
   recipe_items?: RecipeItem[];
@@ -124,12 +233,191 @@ export interface RecipeItem {
   food_id?: string;
   food_name: string;
   amount: string;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  grams?: number | null;
   calories: number;
   carbs?: number;
   fat?: number;
   fiber?: number;
   protein?: number;
   water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
+  order: number;
+  created_at: string;
+}
+
+// A saved snapshot of a recipe and its ingredients
+export interface RecipeVersion {
+  id: string;
+  recipe_id: string;
+  version_number: number;
+  name: string;
+  servings: number;
+  cooked_weight_grams?: number | null;
+  notes?: string | null;
+  total_calories: number;
+  total_carbs: number;
+  total_fat: number;
+  total_fiber: number;
+  total_protein: number;
+  total_water?: number;
+  total_sodium?: number;
+  total_sugar?: number;
+  total_saturated_fat?: number;
+  total_potassium?: number;
+  total_cholesterol?: number;
+  created_at: string;
+  recipe_version_items?: RecipeVersionItem[];
+}
+
+export interface RecipeVersionItem {
+  id: string;
+  version_id: string;
+  food_id?: string | null;
+  food_name: string;
+  amount: string;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  grams?: number | null;
+  calories: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  protein?: number;
+  water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
+  order: number;
+  created_at: string;
+}
+
+// A dietitian's recipe shared with one of their clients
+export interface RecipeShare {
+  id: string;
+  recipe_id: string;
+  dietitian_id: string;
+  client_id: string;
+  can_copy: boolean; // whether the client may copy it into their own recipes
+  created_at: string;
+}
+
+export interface MealTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  meal_type: MealType;
+  created_at: string;
+  updated_at: string;
+  meal_template_items?: MealTemplateItem[];
+}
+
+export interface MealTemplateItem {
+  id: string;
+  template_id: string;
+  food_id?: string;
+  recipe_id?: string;
+  recipe_version_id?: string | null;
+  food_name: string;
+  amount: string;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  grams?: number | null;
+  calories: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  protein?: number;
+  water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
+  notes?: string;
+  order: number;
+  created_at: string;
+}
+
+export interface MealPlanEntry {
+  id: string;
+  week_id: string;
+  user_id: string;
+  plan_date: string;
+  meal_type: MealType;
+  food_id?: string | null;
+  recipe_id?: string | null;
+  template_id?: string | null;
+  name: string;
+  amount?: string | null;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  calories: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  protein?: number;
+  water?: number;
+  sodium?: number;
+  sugar?: number;
+  saturated_fat?: number;
+  potassium?: number;
+  cholesterol?: number;
+  order: number;
+  logged_meal_id?: string | null;
+  logged_at?: string | null;
+  created_at: string;
+}
+
+export type GroceryCategory =
+  | 'produce' | 'meat_seafood' | 'dairy_eggs' | 'bakery'
+  | 'pantry' | 'frozen' | 'beverages' | 'other';
+
+// In store-walk order
+export const GROCERY_CATEGORIES: { category: GroceryCategory; label: string }[] = [
+  { category: 'produce', label: 'Produce' },
+  { category: 'meat_seafood', label: 'Meat & Seafood' },
+  { category: 'dairy_eggs', label: 'Dairy & Eggs' },
+  { category: 'bakery', label: 'Bakery' },
+  { category: 'pantry', label: 'Pantry' },
+  { category: 'frozen', label: 'Frozen' },
+  { category: 'beverages', label: 'Beverages' },
+  { category: 'other', label: 'Other' },
+];
+
+// A recipe or saved food a grocery list was built from
+export interface GroceryListSource {
+  recipe_id?: string;
+  food_id?: string;
+  name: string;
+  servings: number;
+}
+
+export interface GroceryList {
+  id: string;
+  user_id: string;
+  name: string;
+  sources: GroceryListSource[];
+  created_at: string;
+  updated_at: string;
+  grocery_list_items?: GroceryListItem[];
+}
+
+export interface GroceryListItem {
+  id: string;
+  list_id: string;
+  food_id?: string | null;
+  name: string;
+  amount: string;
+  category: GroceryCategory;
+  checked: boolean;
   order: number;
   created_at: string;
 }
@@ -137,11 +425,17 @@ export interface RecipeItem {
 export interface DietitianNote {
   id: string;
   author_id: string;
+  client_id: string | null;
   title: string;
   content: string;
+  log_date: string | null;
+  meal_id: string | null;
+  meal_item_id: string | null;
   created_at: string;
   updated_at: string;
   note_replies?: NoteReply[];
+  meal?: Pick<Meal, 'meal_type'> | null;
+  meal_item?: Pick<MealItem, 'food_name'> | null;
 }
 
 export interface NoteReply {
@@ -149,9 +443,17 @@ export interface NoteReply {
   note_id: string;
   author_id: string;
   content: string;
+  log_date: string | null;
+  meal_id: string | null;
+  meal_item_id: string | null;
   created_at: string;
+  meal?: Pick<Meal, 'meal_type'> | null;
+  meal_item?: Pick<MealItem, 'food_name'> | null;
 }
 
+// What a note or reply is about: a day, a meal on that day, or one item in it
+export type NoteReference = Pick<DietitianNote, 'log_date' | 'meal_id' | 'meal_item_id'>;
+
 // Form types
 export interface MealItemFormData {
   food_name: string;
@@ -173,3 +475,54 @@ export interface DailyGoalsFormData {
   protein: number;
   water: number;
 }
+
+// Nutrition engine types
+export interface NutrientVector {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  water: number;
+  sodium: number; // mg
+  sugar: number;
+  saturated_fat: number;
+  potassium: number; // mg
+  cholesterol: number; // mg
+}
+
+export type NutrientKey = keyof NutrientVector;
+
+// A household measure from USDA with its weight, e.g. 1 cup = 240g
+export interface FoodPortion {
+  measureUnit: string;
+  gramWeight: number;
+  amount: number;
+  modifier?: string;
+}
+
+// Grams in one cup, one piece and one package of a food, where known
+export interface PortionWeights {
+  cup?: number | null;
+  each?: number | null;
+  package?: number | null;
+}
+
+// The amount a stored nutrient vector describes, e.g. 1 cup or 100 g
+export interface NutritionBasis {
+  quantity: number;
+  unit: QuantityUnit;
+}
+
+// A USDA search result with nutrients per 100g
+export interface NormalizedFood extends NutrientVector {
+  id: string;
+  fdcId: number;
+  description: string;
+  servingSize: number;
+  servingSizeUnit: string;
+  portions: FoodPortion[];
+  // Barcode of a Branded food, as FoodData Central writes it
+  gtinUpc?: string;
+  source: 'USDA';
+}
@@ -0,0 +1,160 @@
+import { FoodPortion, NormalizedFood } from '@/lib/types';
+import { barcodeVariants, normalizeBarcode } from '@/lib/utils/barcode';
+
+// Point USDA_API_BASE_URL at a local stub to develop or test without the real API
+const DEFAULT_BASE_URL = 'https://api.nal.usda.gov/fdc/v1';
+
+function getBaseUrl(): string {
+  return (process.env.USDA_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+}
+
+// A portion of an SR Legacy or Foundation food, from the food detail endpoint
+interface UsdaFoodPortion {
+  measureUnit?: { name?: string };
+  modifier?: string;
+  gramWeight?: number;
+  amount?: number;
+}
+
+// A household measure, from the search endpoint
+interface UsdaFoodMeasure {
+  disseminationText?: string;
+  measureUnitAbbreviation?: string;
+  gramWeight?: number;
+  rank?: number;
+}
+
+// A food as the search and detail endpoints return it, with only the fields read here
+interface UsdaFood {
+  fdcId: number;
+  description: string;
+  foodNutrients?: { nutrientId: number; value?: number }[];
+  foodPortions?: UsdaFoodPortion[];
+  foodMeasures?: UsdaFoodMeasure[];
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  gtinUpc?: string;
+}
+
+interface UsdaSearchResponse {
+  foods?: UsdaFood[];
+}
+
+function extractPortions(food: UsdaFood): FoodPortion[] {
+  const portions: FoodPortion[] = [];
+
+  // foodPortions from SR Legacy / Foundation foods
+  if (food.foodPortions) {
+    for (const p of food.foodPortions) {
+      const unit = p.measureUnit?.name || p.modifier || '';
+      if (unit && p.gramWeight && p.gramWeight > 0) {
+        portions.push({
+          measureUnit: unit.toLowerCase(),
+          gramWeight: p.gramWeight,
+          amount: p.amount || 1,
+          modifier: p.modifier?.toLowerCase(),
+        });
+      }
+    }
+  }
+
+  // foodMeasures from search results
+  if (food.foodMeasures) {
+    for (const m of food.foodMeasures) {
+      const unit = m.disseminationText || m.measureUnitAbbreviation || '';
+      if (unit && m.gramWeight && m.gramWeight > 0) {
+        portions.push({
+          measureUnit: unit.toLowerCase(),
+          gramWeight: m.gramWeight,
+          amount: m.rank ? 1 : 1,
+        });
+      }
+    }
+  }
+
+  // Branded foods only have the label's household serving ("1 cup")
+  if (food.householdServingFullText && food.servingSizeUnit?.toLowerCase() === 'g' && food.servingSize && food.servingSize > 0) {
+    portions.push({
+      measureUnit: food.householdServingFullText.trim().toLowerCase(),
+      gramWeight: food.servingSize,
+      amount: 1,
+    });
+  }
+
+  return portions;
+}
+
+// Maps a USDA search result to our food shape, with nutrients per 100g
+function normalizeFood(food: UsdaFood): NormalizedFood {
+  const nutrients = food.foodNutrients || [];
+  const getNutrient = (nutrientId: number) => {
+    const nutrient = nutrients.find(n => n.nutrientId === nutrientId);
+    return nutrient?.value || 0;
+  };
+
+  const portions = extractPortions(food);
+
+  return {
+    id: `usda-${food.fdcId}`,
+    fdcId: food.fdcId,
+    description: food.description,
+    calories: getNutrient(1008),
+    protein: getNutrient(1003),
+    carbs: getNutrient(1005),
+    fat: getNutrient(1004),
+    fiber: getNutrient(1079),
+    water: 0,
+    sodium: getNutrient(1093),
+    sugar: getNutrient(2000),
+    saturated_fat: getNutrient(1258),
+    potassium: getNutrient(1092),
+    cholesterol: getNutrient(1253),
+    servingSize: food.servingSize || 100,
+    servingSizeUnit: food.servingSizeUnit || 'g',
+    portions,
+    gtinUpc: food.gtinUpc || undefined,
+    source: 'USDA' as const,
+  };
+}
+
+async function fetchSearch(params: string, apiKey: string): Promise<NormalizedFood[]> {
+  const response = await fetch(`${getBaseUrl()}/foods/search?${params}&api_key=${apiKey}`);
+
+  if (!response.ok) throw new Error(`USDA search failed: ${response.status}`);
+
+  const data: UsdaSearchResponse = await response.json();
+  return (data.foods || []).map(normalizeFood);
+}
+
+/**
+ * Searches USDA FoodData Central, with nutrients per 100g
+ * @throws when the API can't be reached or responds with an error
+ */
+export async function searchUSDA(query: string, apiKey: string): Promise<NormalizedFood[]> {
+  return fetchSearch(`query=${encodeURIComponent(query)}&pageSize=10`, apiKey);
+}
+
+/**
+ * Finds the Branded foods whose gtinUpc is the given barcode
+ * @param gtin - a barcode normalized with normalizeBarcode
+ * @throws when the API can't be reached or responds with an error
+ */
+export async function lookupBarcode(gtin: string, apiKey: string): Promise<NormalizedFood[]> {
+  const foods = await fetchSearch(`query=${barcodeVariants(gtin)[0]}&dataType=Branded&pageSize=10`, apiKey);
+  // Full-text search also matches the digits elsewhere (e.g., in ingredients)
+  return foods.filter(food => food.gtinUpc && normalizeBarcode(food.gtinUpc) === gtin);
+}
+
+/**
+ * Fetches the portions (gram weights of cups, pieces, etc.) of one food
+ * @throws when the API can't be reached or responds with an error
+ */
+export async function getFoodDetail(fdcId: number, apiKey: string): Promise<FoodPortion[]> {
+  const response = await fetch(`${getBaseUrl()}/food/${fdcId}?api_key=${apiKey}`);
+
+  if (!response.ok) throw new Error(`USDA food detail failed: ${response.status}`);
+
+  const food: UsdaFood = await response.json();
+  return extractPortions(food);
+}
@@ -0,0 +1,34 @@
+// Lengths of the GTIN family: EAN-8, UPC-A, EAN-13, GTIN-14
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+function hasValidCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  // Weights alternate 3, 1, 3, ... starting from the digit next to the check digit
+  for (let i = 0; i < body.length; i++) {
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Normalizes a typed or scanned barcode to a 14-digit GTIN, so the UPC-A
+ * "012345678905" and the EAN-13 "0012345678905" of one product compare equal
+ * @returns null when it isn't a valid UPC/EAN/GTIN
+ */
+export function normalizeBarcode(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.includes(digits.length)) return null;
+  if (!hasValidCheckDigit(digits)) return null;
+  return digits.padStart(14, '0');
+}
+
+/**
+ * The ways a normalized barcode may be written in FoodData Central's gtinUpc
+ * (UPC-A, EAN-13 or GTIN-14 as a rule, depending on the brand owner)
+ */
+export function barcodeVariants(gtin: string): string[] {
+  const variants = GTIN_LENGTHS.map(length => gtin.slice(14 - length));
+  return variants.filter(variant => normalizeBarcode(variant) === gtin);
+}
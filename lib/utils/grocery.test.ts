@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, RecipeItem } from '@/lib/types';
+import { GroceryIngredient, buildGroceryList, guessGroceryCategory, recipeIngredients } from './grocery';
+
+function ingredient(name: string, amount: string, fields: Partial<GroceryIngredient> = {}): GroceryIngredient {
+  return { name, amount, ...fields };
+}
+
+function recipeItem(food_name: string, amount: string, fields: Partial<RecipeItem> = {}): RecipeItem {
+  return {
+    id: food_name,
+    recipe_id: 'chili',
+    food_name,
+    amount,
+    calories: 0,
+    order: 1,
+    created_at: '2024-01-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+const CHILI: Recipe = {
+  id: 'chili',
+  user_id: 'user-1',
+  name: 'Chili',
+  servings: 4,
+  total_calories: 0,
+  total_carbs: 0,
+  total_fat: 0,
+  total_fiber: 0,
+  total_protein: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  recipe_items: [
+    recipeItem('Kidney beans', '2 cups', { food_id: 'beans', quantity: 2, unit: 'cup' }),
+    recipeItem('Ground beef', '1 lb'),
+    recipeItem('Onion', '1', { quantity: 1, unit: 'each' }),
+    recipeItem('Chili powder', 'to taste'),
+  ],
+};
+
+describe('guessGroceryCategory', () => {
+  it('shelves common ingredients by their name', () => {
+    expect(guessGroceryCategory('Bananas')).toBe('produce');
+    expect(guessGroceryCategory('Blueberries')).toBe('produce');
+    expect(guessGroceryCategory('Tomatoes')).toBe('produce');
+    expect(guessGroceryCategory('Large eggs')).toBe('dairy_eggs');
+    expect(guessGroceryCategory('Chicken breast')).toBe('meat_seafood');
+    expect(guessGroceryCategory('Frozen peas')).toBe('frozen');
+    expect(guessGroceryCategory('Green tea')).toBe('beverages');
+  });
+
+  it('matches whole words rather than parts of words', () => {
+    expect(guessGroceryCategory('Steak')).toBe('meat_seafood');
+    expect(guessGroceryCategory('Rolled oats')).toBe('pantry');
+    expect(guessGroceryCategory('Eggplant')).toBe('produce');
+    expect(guessGroceryCategory('Graham crackers')).toBe('pantry');
+  });
+
+  it('tries phrases before single words', () => {
+    expect(guessGroceryCategory('Peanut butter')).toBe('pantry');
+    expect(guessGroceryCategory('Ground black pepper')).toBe('pantry');
+    expect(guessGroceryCategory('Vanilla ice cream')).toBe('frozen');
+    expect(guessGroceryCategory('Unsalted butter')).toBe('dairy_eggs');
+  });
+
+  it('falls back to other', () => {
+    expect(guessGroceryCategory('Paper towels')).toBe('other');
+  });
+});
+
+describe('recipeIngredients', () => {
+  it('scales quantities from the recipe servings to the servings wanted', () => {
+    expect(recipeIngredients(CHILI, 2)).toEqual([
+      { food_id: 'beans', name: 'Kidney beans', amount: '2 cups', quantity: 1, unit: 'cup', category: undefined },
+      { food_id: null, name: 'Ground beef', amount: '1 lb', quantity: 0.5, unit: 'lb', category: null },
+      { food_id: null, name: 'Onion', amount: '1', quantity: 0.5, unit: 'each', category: null },
+      { food_id: null, name: 'Chili powder', amount: 'to taste', quantity: null, unit: null, category: null },
+    ]);
+  });
+
+  it('takes categories from the saved foods the ingredients reference', () => {
+    const foods = [{ id: 'beans', category: 'pantry' }] as Parameters<typeof recipeIngredients>[2];
+    expect(recipeIngredients(CHILI, 4, foods)[0].category).toBe('pantry');
+  });
+});
+
+describe('buildGroceryList', () => {
+  it('merges ingredients with the same name or the same saved food', () => {
+    expect(buildGroceryList([
+      ingredient('Oats', '1 cup', { quantity: 1, unit: 'cup' }),
+      ingredient(' oats ', '1/2 cup', { quantity: 0.5, unit: 'cup' }),
+      ingredient('Rolled oats', '1/4 cup', { food_id: 'oats', quantity: 0.25, unit: 'cup' }),
+      ingredient('Oats, old-fashioned', '1/4 cup', { food_id: 'oats', quantity: 0.25, unit: 'cup' }),
+    ])).toEqual([
+      { food_id: null, name: 'Oats', amount: '1 1/2 cups', category: 'pantry' },
+      { food_id: 'oats', name: 'Rolled oats', amount: '1/2 cup', category: 'pantry' },
+    ]);
+  });
+
+  it('keeps volumes in ml only when every source used ml', () => {
+    expect(buildGroceryList([
+      ingredient('Milk', '250 ml', { quantity: 250, unit: 'ml' }),
+      ingredient('Milk', '100 ml', { quantity: 100, unit: 'ml' }),
+    ])[0].amount).toBe('350 ml');
+
+    expect(buildGroceryList([
+      ingredient('Milk', '250 ml', { quantity: 250, unit: 'ml' }),
+      ingredient('Milk', '1 cup', { quantity: 1, unit: 'cup' }),
+    ])[0].amount).toBe('2 1/4 cups');
+  });
+
+  it('uses spoons for small volumes', () => {
+    expect(buildGroceryList([
+      ingredient('Honey', '1 tbsp', { quantity: 1, unit: 'tbsp' }),
+      ingredient('Honey', '1 tbsp', { quantity: 1, unit: 'tbsp' }),
+    ])[0].amount).toBe('2 tbsp');
+    expect(buildGroceryList([ingredient('Salt', '1/2 tsp', { quantity: 0.5, unit: 'tsp' })])[0].amount).toBe('1/2 tsp');
+  });
+
+  it('keeps weights in grams only when every source used grams', () => {
+    expect(buildGroceryList([
+      ingredient('Rice', '100 g', { quantity: 100, unit: 'g' }),
+      ingredient('Rice', '50.4 g', { quantity: 50.4, unit: 'g' }),
+    ])[0].amount).toBe('151 g');
+
+    expect(buildGroceryList([
+      ingredient('Ground beef', '1 lb', { quantity: 1, unit: 'lb' }),
+      ingredient('Ground beef', '100 g', { quantity: 100, unit: 'g' }),
+    ])[0].amount).toBe('1 1/4 lb');
+
+    expect(buildGroceryList([
+      ingredient('Cheddar cheese', '4 oz', { quantity: 4, unit: 'oz' }),
+      ingredient('Cheddar cheese', '50 g', { quantity: 50, unit: 'g' }),
+    ])[0].amount).toBe('6 oz');
+  });
+
+  it('rounds pieces and packages up to whole ones', () => {
+    expect(buildGroceryList([
+      ingredient('Onion', '1 1/2', { quantity: 1.5, unit: 'each' }),
+      ingredient('Onion', '1', { quantity: 1, unit: 'each' }),
+      ingredient('Onion', '1/2 package', { quantity: 0.5, unit: 'package' }),
+    ])[0].amount).toBe('3 + 1 package');
+  });
+
+  it('lists amounts it cannot add up as they were written', () => {
+    expect(buildGroceryList([
+      ingredient('Salt', '1 tsp', { quantity: 1, unit: 'tsp' }),
+      ingredient('Salt', 'a pinch'),
+    ])[0].amount).toBe('1 tsp + a pinch');
+  });
+
+  it('sorts lines by aisle, then by name', () => {
+    const lines = buildGroceryList(recipeIngredients(CHILI, 4));
+    expect(lines.map(line => [line.category, line.name])).toEqual([
+      ['produce', 'Onion'],
+      ['meat_seafood', 'Ground beef'],
+      ['pantry', 'Kidney beans'],
+      ['other', 'Chili powder'],
+    ]);
+  });
+});
@@ -0,0 +1,245 @@
+import { Food, GROCERY_CATEGORIES, GroceryCategory, QuantityUnit, Recipe } from '@/lib/types';
+import { MassUnit, toCups, UNIT_TO_GRAMS } from './nutrition';
+import { formatAmount, parseAmount } from './quantity';
+
+/**
+ * One ingredient on its way into a grocery list
+ */
+export interface GroceryIngredient {
+  food_id?: string | null;
+  name: string;
+  amount: string;
+  quantity?: number | null;
+  unit?: QuantityUnit | null;
+  category?: GroceryCategory | null;
+}
+
+/**
+ * One line of a generated grocery list
+ */
+export interface GroceryLine {
+  food_id: string | null;
+  name: string;
+  amount: string;
+  category: GroceryCategory;
+}
+
+// Keywords used to shelve ingredients whose food has no category. Each matches
+// whole words, singular or plural; phrases are tried before single words.
+const CATEGORY_KEYWORDS: [GroceryCategory, string[]][] = [
+  ['frozen', ['frozen', 'ice cream']],
+  ['dairy_eggs', ['milk', 'buttermilk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream', 'egg', 'kefir', 'cottage']],
+  ['meat_seafood', [
+    'chicken', 'beef', 'steak', 'pork', 'turkey', 'lamb', 'bacon', 'sausage', 'ham', 'fish', 'salmon', 'tuna',
+    'shrimp', 'cod', 'tilapia',
+  ]],
+  ['bakery', ['bread', 'bagel', 'tortilla', 'bun', 'roll', 'pita', 'muffin', 'croissant']],
+  ['beverages', ['coffee', 'tea', 'juice', 'soda', 'sparkling', 'kombucha']],
+  ['produce', [
+    'apple', 'banana', 'berry', 'blueberry', 'strawberry', 'raspberry', 'blackberry', 'orange', 'lemon', 'lime',
+    'grape', 'melon', 'peach', 'pear', 'avocado', 'lettuce', 'spinach', 'kale', 'tomato', 'onion', 'garlic',
+    'pepper', 'carrot', 'celery', 'cucumber', 'broccoli', 'cauliflower', 'zucchini', 'squash', 'eggplant',
+    'potato', 'mushroom', 'cilantro', 'parsley', 'basil', 'ginger',
+  ]],
+  ['pantry', [
+    'peanut butter', 'almond butter', 'coconut milk', 'black pepper', 'chicken broth', 'chicken stock', 'beef broth',
+    'rice', 'pasta', 'oat', 'oatmeal', 'flour', 'sugar', 'oil', 'vinegar', 'salt', 'bean', 'lentil', 'quinoa',
+    'cereal', 'cracker', 'nut', 'almond', 'peanut', 'walnut', 'pecan', 'cashew', 'honey', 'syrup', 'sauce', 'broth',
+    'stock', 'spice', 'cinnamon', 'canned',
+  ]],
+];
+
+// "oat" matches "oats", "tomato" "tomatoes" and "berry" "berries"
+function matchesWord(word: string, keyword: string): boolean {
+  return word === keyword
+    || word === `${keyword}s`
+    || word === `${keyword}es`
+    || (keyword.endsWith('y') && word === `${keyword.slice(0, -1)}ies`);
+}
+
+// Only the last word of a phrase may be plural ("peanut butters" but not "peanuts butter")
+function containsKeyword(words: string[], keyword: string): boolean {
+  const parts = keyword.split(' ');
+  return words.some((_, start) => parts.every((part, i) => {
+    const word = words[start + i];
+    if (word === undefined) return false;
+    return i === parts.length - 1 ? matchesWord(word, part) : word === part;
+  }));
+}
+
+/**
+ * Guesses the aisle for an ingredient from its name
+ */
+export function guessGroceryCategory(name: string): GroceryCategory {
+  const words = name.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+
+  for (const phrases of [true, false]) {
+    const match = CATEGORY_KEYWORDS.find(([, keywords]) =>
+      keywords.some(keyword => keyword.includes(' ') === phrases && containsKeyword(words, keyword))
+    );
+    if (match) return match[0];
+  }
+  return 'other';
+}
+
+/**
+ * Scales a recipe's ingredients from its own servings to a target number of servings
+ * @param foods saved foods, used for the category of ingredients that reference them
+ */
+export function recipeIngredients(recipe: Recipe, servings: number, foods: Food[] = []): GroceryIngredient[] {
+  const factor = recipe.servings > 0 ? servings / recipe.servings : servings;
+  const categories = new Map(foods.map(food => [food.id, food.category]));
+
+  return (recipe.recipe_items || []).map(item => {
+    const parsed = item.quantity != null && item.unit
+      ? { quantity: item.quantity, unit: item.unit }
+      : parseAmount(item.amount);
+
+    return {
+      food_id: item.food_id || null,
+      name: item.food_name,
+      amount: item.amount,
+      quantity: parsed ? parsed.quantity * factor : null,
+      unit: parsed ? parsed.unit : null,
+      category: item.food_id ? categories.get(item.food_id) : null,
+    };
+  });
+}
+
+/**
+ * A number of servings of a saved food (its default amount is one serving)
+ */
+export function foodIngredient(food: Food, servings: number): GroceryIngredient {
+  const parsed = parseAmount(food.default_amount);
+  return {
+    food_id: food.id,
+    name: food.name,
+    amount: food.default_amount,
+    quantity: parsed ? parsed.quantity * servings : null,
+    unit: parsed ? parsed.unit : null,
+    category: food.category,
+  };
+}
+
+interface GroceryTotal {
+  food_id: string | null;
+  name: string;
+  category: GroceryCategory | null;
+  cups: number;
+  onlyMl: boolean;
+  grams: number;
+  onlyGrams: boolean;
+  counts: Map<QuantityUnit, number>;
+  unparsed: string[];
+}
+
+/**
+ * Rounds up to the nearest 1/steps (e.g., steps = 4 rounds up to a quarter)
+ */
+function roundUp(value: number, steps: number): number {
+  return Math.ceil(value * steps - 1e-9) / steps;
+}
+
+/**
+ * Formats a volume in a unit that's easy to measure or buy
+ */
+function formatVolume(cups: number, onlyMl: boolean): string {
+  if (onlyMl) return formatAmount(Math.ceil(cups / toCups(1, 'ml')!), 'ml');
+  if (cups >= 0.25) return formatAmount(roundUp(cups, 4), 'cup');
+  if (cups * 16 >= 1) return formatAmount(roundUp(cups * 16, 2), 'tbsp');
+  return formatAmount(roundUp(cups * 48, 4), 'tsp');
+}
+
+/**
+ * Formats a weight in grams, or in pounds and ounces if any source used them
+ */
+function formatMass(grams: number, onlyGrams: boolean): string {
+  if (onlyGrams) return formatAmount(Math.ceil(grams), 'g');
+  if (grams >= UNIT_TO_GRAMS.lb) return formatAmount(roundUp(grams / UNIT_TO_GRAMS.lb, 4), 'lb');
+  return formatAmount(roundUp(grams / UNIT_TO_GRAMS.oz, 2), 'oz');
+}
+
+/**
+ * Combines ingredients into grocery lines: identical foods are merged, volumes
+ * and weights are added up in a common unit, and lines are sorted by aisle
+ */
+export function buildGroceryList(ingredients: GroceryIngredient[]): GroceryLine[] {
+  const totals = new Map<string, GroceryTotal>();
+  // Ingredients with the same name are the same food, whether or not they reference a saved food
+  const keysByName = new Map<string, string>();
+
+  ingredients.forEach(ingredient => {
+    const name = ingredient.name.trim().toLowerCase().replace(/\s+/g, ' ');
+    // Prefixed so a food id can never equal another ingredient's name
+    const key = keysByName.get(name) ?? (ingredient.food_id ? `food:${ingredient.food_id}` : `name:${name}`);
+    keysByName.set(name, key);
+
+    let total = totals.get(key);
+    if (!total) {
+      total = {
+        food_id: ingredient.food_id || null,
+        name: ingredient.name.trim(),
+        category: null,
+        cups: 0,
+        onlyMl: true,
+        grams: 0,
+        onlyGrams: true,
+        counts: new Map(),
+        unparsed: [],
+      };
+      totals.set(key, total);
+    }
+    total.food_id = total.food_id || ingredient.food_id || null;
+    total.category = total.category || ingredient.category || null;
+
+    const { quantity, unit } = ingredient;
+    if (quantity == null || !unit) {
+      total.unparsed.push(ingredient.amount);
+      return;
+    }
+
+    const cups = toCups(quantity, unit);
+    if (cups !== null) {
+      total.cups += cups;
+      total.onlyMl = total.onlyMl && unit === 'ml';
+    } else if (unit in UNIT_TO_GRAMS) {
+      total.grams += quantity * UNIT_TO_GRAMS[unit as MassUnit];
+      total.onlyGrams = total.onlyGrams && unit === 'g';
+    } else {
+      total.counts.set(unit, (total.counts.get(unit) || 0) + quantity);
+    }
+  });
+
+  const categoryOrder = GROCERY_CATEGORIES.map(c => c.category);
+
+  return [...totals.values()]
+    .map(total => {
+      const parts: string[] = [];
+      if (total.cups > 0) parts.push(formatVolume(total.cups, total.onlyMl));
+      if (total.grams > 0) parts.push(formatMass(total.grams, total.onlyGrams));
+      total.counts.forEach((count, unit) => {
+        // Pieces and packages are bought whole
+        parts.push(formatAmount(unit === 'serving' ? roundUp(count, 4) : Math.ceil(count - 1e-9), unit));
+      });
+      parts.push(...total.unparsed);
+
+      return {
+        food_id: total.food_id,
+        name: total.name,
+        amount: parts.join(' + '),
+        category: total.category || guessGroceryCategory(total.name),
+      };
+    })
+    .sort((a, b) =>
+      categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category) || a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Groups lines by aisle in store-walk order, leaving out empty aisles
+ */
+export function groupByCategory<T extends { category: GroceryCategory }>(items: T[]) {
+  return GROCERY_CATEGORIES
+    .map(({ category, label }) => ({ category, label, items: items.filter(item => item.category === category) }))
+    .filter(group => group.items.length > 0);
+}
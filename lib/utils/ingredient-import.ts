@@ -0,0 +1,121 @@
+import { Food, NormalizedFood, NutrientVector, NutritionBasis, PortionWeights, QuantityUnit } from '@/lib/types';
+import { convertToBasis, getFoodPerServing, getPortionWeights, roundNutrients, scaleNutrients, toGrams, toNutrientVector } from './nutrition';
+import { formatAmount, parseAmount } from './quantity';
+
+/**
+ * A food a pasted ingredient line can be matched to, with nutrition per basis amount
+ */
+export interface IngredientMatch {
+  key: string;
+  source: 'food' | 'usda';
+  food_id: string | null;
+  name: string;
+  nutrition: NutrientVector;
+  basis: NutritionBasis;
+  weights: PortionWeights;
+}
+
+/**
+ * An imported ingredient, shaped like a recipe item
+ */
+export interface ImportedIngredient extends NutrientVector {
+  food_id: string | null;
+  food_name: string;
+  amount: string;
+  quantity: number;
+  unit: QuantityUnit;
+  grams: number | null;
+}
+
+// Foods saved before units were tracked hold per-cup values
+const DEFAULT_BASIS: NutritionBasis = { quantity: 1, unit: 'cup' };
+const PER_100G: NutritionBasis = { quantity: 100, unit: 'g' };
+
+/**
+ * Strips preparation notes so "onion, finely chopped (optional)" searches as "onion"
+ */
+export function ingredientSearchTerm(name: string): string {
+  return name.replace(/\(.*?\)/g, ' ').split(',')[0].replace(/\s+/g, ' ').trim();
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(word => word.length > 1)
+    // Treat "eggs" and "egg" alike
+    .map(word => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Ranks saved foods by how many of the ingredient's words their names share
+ * @returns matches with a score from 0 to 1, best first
+ */
+export function rankSavedFoods(term: string, foods: Food[]): { food: Food; score: number }[] {
+  const termWords = words(term);
+  if (termWords.length === 0) return [];
+
+  return foods
+    .map(food => {
+      const nameWords = new Set(words(food.name));
+      const shared = termWords.filter(word => nameWords.has(word)).length;
+      return { food, score: shared / Math.max(termWords.length, nameWords.size) };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.food.name.length - b.food.name.length);
+}
+
+/**
+ * Wraps a saved food as a match, using its default amount as the basis
+ */
+export function savedFoodMatch(food: Food): IngredientMatch {
+  return {
+    key: `food-${food.id}`,
+    source: 'food',
+    food_id: food.id,
+    name: food.name,
+    nutrition: getFoodPerServing(food),
+    basis: parseAmount(food.default_amount) ?? DEFAULT_BASIS,
+    weights: food.portion_grams || {},
+  };
+}
+
+/**
+ * Wraps a USDA search result as a match, with nutrition per 100g
+ */
+export function usdaMatch(food: NormalizedFood): IngredientMatch {
+  return {
+    key: food.id,
+    source: 'usda',
+    food_id: null,
+    name: food.description,
+    nutrition: toNutrientVector(food),
+    basis: PER_100G,
+    weights: getPortionWeights(food.portions || []),
+  };
+}
+
+/**
+ * Builds the recipe item for an amount of a matched food
+ * @returns null when the amount can't be converted to the food's basis (e.g., cups of a food with no cup weight)
+ */
+export function buildImportedIngredient(
+  match: IngredientMatch,
+  quantity: number,
+  unit: QuantityUnit
+): ImportedIngredient | null {
+  if (!(quantity > 0)) return null;
+  const factor = convertToBasis(quantity, unit, match.basis, match.weights);
+  if (factor === null) return null;
+
+  const grams = toGrams(quantity, unit, match.weights);
+  return {
+    food_id: match.food_id,
+    food_name: match.name,
+    amount: formatAmount(quantity, unit),
+    quantity,
+    unit,
+    grams: grams === null ? null : Math.round(grams * 10) / 10,
+    ...roundNutrients(scaleNutrients(match.nutrition, factor)),
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_REMAINING_CALORIES, MacroAmounts, SuggestionCandidate, getRemainingMacros, suggestMeals } from './meal-suggestions';
+
+const REMAINING: MacroAmounts = { calories: 500, protein: 30, carbs: 50, fat: 20, fiber: 10 };
+
+function candidate(id: string, perBasis: MacroAmounts, source: SuggestionCandidate['source'] = 'food'): SuggestionCandidate {
+  return {
+    source,
+    id,
+    name: id,
+    basis: source === 'food' ? { quantity: 100, unit: 'g' } : { quantity: 1, unit: 'serving' },
+    perBasis,
+  };
+}
+
+// Whole numbers, so totals come out the same whatever order items are added in
+const CANDIDATES = [
+  candidate('oats', { calories: 380, protein: 13, carbs: 68, fat: 7, fiber: 10 }),
+  candidate('eggs', { calories: 140, protein: 12, carbs: 1, fat: 10, fiber: 0 }),
+  candidate('banana', { calories: 90, protein: 1, carbs: 23, fat: 0, fiber: 3 }),
+  candidate('yogurt', { calories: 60, protein: 10, carbs: 4, fat: 0, fiber: 0 }),
+  candidate('chili', { calories: 320, protein: 22, carbs: 30, fat: 12, fiber: 9 }, 'recipe'),
+  candidate('water', { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }),
+];
+
+function describeSuggestions(remaining: MacroAmounts, candidates: SuggestionCandidate[]): string[] {
+  return suggestMeals(remaining, candidates).map(suggestion =>
+    suggestion.items.map(item => `${item.amount} ${item.candidate.name}`).join(', ')
+  );
+}
+
+describe('getRemainingMacros', () => {
+  it('subtracts what was eaten from the goals', () => {
+    expect(getRemainingMacros(
+      { calories: 2000, protein: 120, carbs: 250, fat: 70, fiber: 30 },
+      { calories: 1200, protein: 80, carbs: 150, fat: 40, fiber: 12 }
+    )).toEqual({ calories: 800, protein: 40, carbs: 100, fat: 30, fiber: 18 });
+  });
+
+  it('never goes below zero and treats missing amounts as zero', () => {
+    expect(getRemainingMacros(
+      { calories: 2000, protein: 120, carbs: 250, fat: 70, fiber: 30 },
+      { calories: 2300, protein: 80, carbs: null, fat: 70.5, fiber: undefined }
+    )).toEqual({ calories: 0, protein: 40, carbs: 250, fat: 0, fiber: 30 });
+  });
+});
+
+describe('suggestMeals', () => {
+  it('suggests nothing when too few calories are left', () => {
+    expect(suggestMeals({ ...REMAINING, calories: MIN_REMAINING_CALORIES - 1 }, CANDIDATES)).toEqual([]);
+    expect(suggestMeals({ ...REMAINING, calories: MIN_REMAINING_CALORIES }, CANDIDATES)).not.toEqual([]);
+  });
+
+  it('never goes more than 10% over the remaining calories', () => {
+    const suggestions = suggestMeals(REMAINING, CANDIDATES, { maxSuggestions: 10 });
+    expect(suggestions.length).toBeGreaterThan(0);
+    suggestions.forEach(suggestion => {
+      expect(suggestion.totals.calories).toBeLessThanOrEqual(REMAINING.calories * 1.1);
+    });
+  });
+
+  it('leaves out amounts that are over the calories on their own', () => {
+    const heavy = candidate('pizza', { calories: 400, protein: 30, carbs: 50, fat: 20, fiber: 10 });
+    const suggestions = suggestMeals({ ...REMAINING, calories: 300 }, [heavy], { maxSuggestions: 10 });
+    expect(suggestions.map(suggestion => suggestion.items.map(item => item.factor))).toEqual([[0.5]]);
+  });
+
+  it('skips foods without calories', () => {
+    const suggested = suggestMeals(REMAINING, CANDIDATES, { maxSuggestions: 10 })
+      .flatMap(suggestion => suggestion.items.map(item => item.candidate.id));
+    expect(suggested).not.toContain('water');
+  });
+
+  it('gives the same suggestions for the same input, whatever the candidate order', () => {
+    const first = describeSuggestions(REMAINING, CANDIDATES);
+    expect(describeSuggestions(REMAINING, CANDIDATES)).toEqual(first);
+    expect(describeSuggestions(REMAINING, [...CANDIDATES].reverse())).toEqual(first);
+  });
+
+  it('breaks ties between equally good candidates by id', () => {
+    const exact = { ...REMAINING };
+    const twins = [candidate('b', exact), candidate('a', exact)];
+
+    for (const candidates of [twins, [...twins].reverse()]) {
+      const suggestions = suggestMeals(REMAINING, candidates, { maxItems: 1 });
+      expect(suggestions.map(suggestion => suggestion.items.map(item => `${item.candidate.id}@${item.factor}`)))
+        .toEqual([['a@1'], ['b@1']]);
+      expect(suggestions[0].penalty).toBe(0);
+    }
+  });
+});
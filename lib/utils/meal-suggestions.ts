@@ -0,0 +1,236 @@
+import { DailyGoals, Food, NutritionBasis, Recipe } from '@/lib/types';
+import { getFoodPerServing, getRecipePerServing } from './nutrition';
+import { formatAmount, parseAmount } from './quantity';
+
+/** The nutrients suggestions aim for */
+export type SuggestionMacro = 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber';
+
+export type MacroAmounts = Record<SuggestionMacro, number>;
+
+export const SUGGESTION_MACROS: SuggestionMacro[] = ['calories', 'protein', 'carbs', 'fat', 'fiber'];
+
+/**
+ * A saved food or recipe that can go into a suggestion, with its nutrition per basis amount
+ */
+export interface SuggestionCandidate {
+  source: 'food' | 'recipe';
+  id: string;
+  name: string;
+  basis: NutritionBasis;
+  perBasis: MacroAmounts;
+}
+
+export interface SuggestedItem {
+  candidate: SuggestionCandidate;
+  // How many basis amounts (e.g., 1.5 for 1.5 cups of a per-cup food)
+  factor: number;
+  amount: string;
+  nutrients: MacroAmounts;
+}
+
+export interface MealSuggestion {
+  items: SuggestedItem[];
+  totals: MacroAmounts;
+  // How far the totals are from the remaining amounts; lower is a closer fit
+  penalty: number;
+}
+
+export interface SuggestionOptions {
+  maxItems?: number;
+  maxSuggestions?: number;
+}
+
+// Amounts tried for each candidate, in basis amounts
+const FACTORS = [0.5, 1, 1.5, 2, 3];
+
+// Partial combinations kept at each step of the search
+const BEAM_WIDTH = 25;
+
+// Calories are what matter most; fiber only has to be close
+const MACRO_WEIGHTS: MacroAmounts = { calories: 3, protein: 2, carbs: 1, fat: 1, fiber: 0.5 };
+
+// Going over the remaining amount counts more than falling short, except for fiber
+const OVERSHOOT_WEIGHTS: MacroAmounts = { calories: 2, protein: 1, carbs: 1.5, fat: 1.5, fiber: 0.25 };
+
+// Deviations are measured against the remaining amount, but never a smaller
+// one than this, so an almost-met goal doesn't blow up the penalty
+const MIN_SCALES: MacroAmounts = { calories: 100, protein: 10, carbs: 15, fat: 5, fiber: 5 };
+
+// A suggestion may go this far over the remaining calories
+const CALORIE_TOLERANCE = 1.1;
+
+/** Below this many calories left there is nothing worth suggesting */
+export const MIN_REMAINING_CALORIES = 50;
+
+function emptyMacros(): MacroAmounts {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+}
+
+function toMacros(values: Record<SuggestionMacro, number | null | undefined>): MacroAmounts {
+  const result = emptyMacros();
+  SUGGESTION_MACROS.forEach(key => { result[key] = Number(values[key]) || 0; });
+  return result;
+}
+
+function addMacros(a: MacroAmounts, b: MacroAmounts): MacroAmounts {
+  const result = emptyMacros();
+  SUGGESTION_MACROS.forEach(key => { result[key] = a[key] + b[key]; });
+  return result;
+}
+
+function scaleMacros(values: MacroAmounts, factor: number): MacroAmounts {
+  const result = emptyMacros();
+  SUGGESTION_MACROS.forEach(key => { result[key] = values[key] * factor; });
+  return result;
+}
+
+/**
+ * What's left of the day's goals after what has been eaten, never below zero
+ */
+export function getRemainingMacros(
+  goals: Pick<DailyGoals, SuggestionMacro>,
+  eaten: Record<SuggestionMacro, number | null | undefined>
+): MacroAmounts {
+  const goalAmounts = toMacros(goals);
+  const eatenAmounts = toMacros(eaten);
+  const result = emptyMacros();
+  SUGGESTION_MACROS.forEach(key => { result[key] = Math.max(goalAmounts[key] - eatenAmounts[key], 0); });
+  return result;
+}
+
+/**
+ * Makes a candidate from a saved food; its default amount is the basis
+ */
+export function foodCandidate(food: Food): SuggestionCandidate {
+  // Foods saved before units were tracked hold per-cup values
+  const basis = parseAmount(food.default_amount) ?? { quantity: 1, unit: 'cup' };
+  return {
+    source: 'food',
+    id: food.id,
+    name: food.name,
+    basis,
+    perBasis: toMacros(getFoodPerServing(food)),
+  };
+}
+
+/**
+ * Makes a candidate from a recipe, per serving
+ */
+export function recipeCandidate(recipe: Recipe): SuggestionCandidate {
+  return {
+    source: 'recipe',
+    id: recipe.id,
+    name: recipe.name,
+    basis: { quantity: 1, unit: 'serving' },
+    perBasis: toMacros(getRecipePerServing(recipe)),
+  };
+}
+
+/**
+ * Scores how far totals are from the remaining amounts (0 is an exact fit)
+ */
+export function scoreFit(totals: MacroAmounts, remaining: MacroAmounts): number {
+  return SUGGESTION_MACROS.reduce((sum, key) => {
+    const deviation = (totals[key] - remaining[key]) / Math.max(remaining[key], MIN_SCALES[key]);
+    const weight = MACRO_WEIGHTS[key] * (deviation > 0 ? OVERSHOOT_WEIGHTS[key] : 1);
+    return sum + weight * deviation * deviation;
+  }, 0);
+}
+
+function toItem(candidate: SuggestionCandidate, factor: number): SuggestedItem {
+  const quantity = Math.round(candidate.basis.quantity * factor * 100) / 100;
+  return {
+    candidate,
+    factor,
+    amount: formatAmount(quantity, candidate.basis.unit),
+    nutrients: scaleMacros(candidate.perBasis, factor),
+  };
+}
+
+// Identifies a combination regardless of the order its items were added in
+function combinationKey(items: SuggestedItem[]): string {
+  return items
+    .map(item => `${item.candidate.source}:${item.candidate.id}@${item.factor}`)
+    .sort()
+    .join('|');
+}
+
+function candidateSetKey(items: SuggestedItem[]): string {
+  return items
+    .map(item => `${item.candidate.source}:${item.candidate.id}`)
+    .sort()
+    .join('|');
+}
+
+function compareSuggestions(a: MealSuggestion, b: MealSuggestion): number {
+  return a.penalty - b.penalty || a.items.length - b.items.length || combinationKey(a.items).localeCompare(combinationKey(b.items));
+}
+
+/**
+ * Finds combinations of saved foods and recipes, with amounts, that come closest
+ * to the remaining macros without going much over the remaining calories.
+ *
+ * A beam search: combinations grow one item at a time, and only the closest
+ * fits at each size are grown further. Ties are broken by item ids, so the
+ * same inputs always give the same suggestions.
+ */
+export function suggestMeals(
+  remaining: MacroAmounts,
+  candidates: SuggestionCandidate[],
+  { maxItems = 3, maxSuggestions = 3 }: SuggestionOptions = {}
+): MealSuggestion[] {
+  if (remaining.calories < MIN_REMAINING_CALORIES) return [];
+
+  const calorieLimit = remaining.calories * CALORIE_TOLERANCE;
+  // Every amount of every candidate that fits in the remaining calories on its own
+  const options = candidates
+    .filter(candidate => candidate.perBasis.calories > 0)
+    .flatMap(candidate => FACTORS.map(factor => toItem(candidate, factor)))
+    .filter(item => item.nutrients.calories <= calorieLimit);
+
+  const emptyPenalty = scoreFit(emptyMacros(), remaining);
+  const found = new Map<string, MealSuggestion>();
+  let beam: MealSuggestion[] = [{ items: [], totals: emptyMacros(), penalty: emptyPenalty }];
+
+  for (let size = 1; size <= maxItems && beam.length > 0; size++) {
+    const grown = new Map<string, MealSuggestion>();
+
+    for (const partial of beam) {
+      const used = new Set(partial.items.map(item => `${item.candidate.source}:${item.candidate.id}`));
+      for (const option of options) {
+        if (used.has(`${option.candidate.source}:${option.candidate.id}`)) continue;
+
+        const totals = addMacros(partial.totals, option.nutrients);
+        if (totals.calories > calorieLimit) continue;
+
+        const items = [...partial.items, option];
+        const key = combinationKey(items);
+        if (grown.has(key)) continue;
+        grown.set(key, { items, totals, penalty: scoreFit(totals, remaining) });
+      }
+    }
+
+    beam = [...grown.values()].sort(compareSuggestions).slice(0, BEAM_WIDTH);
+    beam.forEach(suggestion => found.set(combinationKey(suggestion.items), suggestion));
+  }
+
+  // Keep suggestions that help, one per set of foods, each bringing something new
+  const suggestions: MealSuggestion[] = [];
+  const seenSets = new Set<string>();
+  const suggested = new Set<string>();
+
+  for (const suggestion of [...found.values()].sort(compareSuggestions)) {
+    if (suggestions.length >= maxSuggestions) break;
+    if (suggestion.penalty >= emptyPenalty) break;
+
+    const setKey = candidateSetKey(suggestion.items);
+    const keys = suggestion.items.map(item => `${item.candidate.source}:${item.candidate.id}`);
+    if (seenSets.has(setKey) || keys.every(key => suggested.has(key))) continue;
+
+    seenSets.add(setKey);
+    keys.forEach(key => suggested.add(key));
+    suggestions.push(suggestion);
+  }
+
+  return suggestions;
+}
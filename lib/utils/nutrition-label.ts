@@ -0,0 +1,100 @@
+import { Food, NutrientVector, NutritionLabel, PortionWeights } from '@/lib/types';
+import { formatAmount } from './quantity';
+import { roundNutrients, scaleNutrients, toCups } from './nutrition';
+
+export type LabelNutrientKey = Exclude<keyof NutritionLabel, 'serving_quantity' | 'serving_unit' | 'serving_grams' | 'servings_per_container'>;
+
+// Nutrient lines in the order they appear on a US Nutrition Facts label
+export const LABEL_LINES: { key: LabelNutrientKey; label: string; unit: 'g' | 'mg' | 'mcg' | null; indent: number; bold: boolean }[] = [
+  { key: 'calories', label: 'Calories', unit: null, indent: 0, bold: true },
+  { key: 'total_fat', label: 'Total Fat', unit: 'g', indent: 0, bold: true },
+  { key: 'saturated_fat', label: 'Saturated Fat', unit: 'g', indent: 1, bold: false },
+  { key: 'trans_fat', label: 'Trans Fat', unit: 'g', indent: 1, bold: false },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', indent: 0, bold: true },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', indent: 0, bold: true },
+  { key: 'total_carbs', label: 'Total Carbohydrate', unit: 'g', indent: 0, bold: true },
+  { key: 'fiber', label: 'Dietary Fiber', unit: 'g', indent: 1, bold: false },
+  { key: 'total_sugars', label: 'Total Sugars', unit: 'g', indent: 1, bold: false },
+  { key: 'added_sugars', label: 'Includes Added Sugars', unit: 'g', indent: 2, bold: false },
+  { key: 'protein', label: 'Protein', unit: 'g', indent: 0, bold: true },
+  { key: 'vitamin_d', label: 'Vitamin D', unit: 'mcg', indent: 0, bold: false },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', indent: 0, bold: false },
+  { key: 'iron', label: 'Iron', unit: 'mg', indent: 0, bold: false },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', indent: 0, bold: false },
+];
+
+export type LabelFoodFields = Pick<Food,
+  | 'default_amount' | 'portion_grams' | 'calories_per_serving' | 'protein_per_serving'
+  | 'carbs_per_serving' | 'fat_per_serving' | 'fiber_per_serving' | 'water_per_serving'
+  | 'sodium_per_serving' | 'sugar_per_serving' | 'saturated_fat_per_serving'
+  | 'potassium_per_serving' | 'cholesterol_per_serving'
+>;
+
+/**
+ * Formats a label's serving size as printed, e.g. "2/3 cup (55g)"
+ */
+export function formatLabelServing(label: NutritionLabel): string {
+  const household = formatAmount(label.serving_quantity, label.serving_unit);
+  return label.serving_unit === 'g' ? household : `${household} (${Math.round(label.serving_grams * 10) / 10}g)`;
+}
+
+/**
+ * Gets the gram weights a label implies: a cup from a volume serving, a piece
+ * from a serving counted in pieces, and a package from the servings per container
+ */
+export function getLabelPortionWeights(label: NutritionLabel): PortionWeights {
+  const { serving_quantity: quantity, serving_unit: unit, serving_grams: grams } = label;
+  const cups = toCups(quantity, unit);
+
+  return {
+    cup: cups ? grams / cups : null,
+    each: unit === 'each' ? grams / quantity : null,
+    package: unit === 'package'
+      ? grams / quantity
+      : label.servings_per_container ? grams * label.servings_per_container : null,
+  };
+}
+
+/**
+ * Gets a label's nutrition for one serving as a vector
+ */
+export function getLabelNutrients(label: NutritionLabel): NutrientVector {
+  return {
+    calories: label.calories,
+    protein: label.protein,
+    carbs: label.total_carbs,
+    fat: label.total_fat,
+    fiber: label.fiber,
+    water: 0,
+    sodium: label.sodium,
+    sugar: label.total_sugars,
+    saturated_fat: label.saturated_fat,
+    potassium: label.potassium,
+    cholesterol: label.cholesterol,
+  };
+}
+
+/**
+ * Converts a label to the columns of a saved food. Volume servings are stored
+ * per 1 cup, like USDA foods; other servings (pieces, grams, packages) as printed.
+ */
+export function labelToFoodFields(label: NutritionLabel): LabelFoodFields {
+  const cups = toCups(label.serving_quantity, label.serving_unit);
+  const nutrients = roundNutrients(scaleNutrients(getLabelNutrients(label), cups ? 1 / cups : 1));
+
+  return {
+    default_amount: cups ? formatAmount(1, 'cup') : formatAmount(label.serving_quantity, label.serving_unit),
+    portion_grams: getLabelPortionWeights(label),
+    calories_per_serving: nutrients.calories,
+    protein_per_serving: nutrients.protein,
+    carbs_per_serving: nutrients.carbs,
+    fat_per_serving: nutrients.fat,
+    fiber_per_serving: nutrients.fiber,
+    water_per_serving: nutrients.water,
+    sodium_per_serving: nutrients.sodium,
+    sugar_per_serving: nutrients.sugar,
+    saturated_fat_per_serving: nutrients.saturated_fat,
+    potassium_per_serving: nutrients.potassium,
+    cholesterol_per_serving: nutrients.cholesterol,
+  };
+}
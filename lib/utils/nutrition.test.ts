@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { NutrientVector } from '@/lib/types';
+import { convertToBasis, emptyNutrients, getPortionWeights, roundNutrients, scaleNutrients, toGrams } from './nutrition';
+
+const OATS: NutrientVector = {
+  ...emptyNutrients(),
+  calories: 307,
+  protein: 10.7,
+  carbs: 54.8,
+  fat: 5.3,
+  fiber: 8.2,
+  sodium: 4.9,
+  potassium: 293,
+};
+
+describe('toGrams', () => {
+  it('converts mass units directly', () => {
+    expect(toGrams(100, 'g')).toBe(100);
+    expect(toGrams(2, 'oz')).toBeCloseTo(56.699);
+    expect(toGrams(1, 'lb')).toBeCloseTo(453.592);
+  });
+
+  it('converts volumes through the cup weight', () => {
+    const weights = { cup: 240 };
+    expect(toGrams(0.5, 'cup', weights)).toBe(120);
+    expect(toGrams(2, 'tbsp', weights)).toBe(30);
+    expect(toGrams(3, 'tsp', weights)).toBe(15);
+    expect(toGrams(8, 'fl oz', weights)).toBe(240);
+    expect(toGrams(236.588, 'ml', weights)).toBeCloseTo(240);
+  });
+
+  it('converts pieces and packages through their weights', () => {
+    const weights = { each: 118, package: 454 };
+    expect(toGrams(2, 'each', weights)).toBe(236);
+    expect(toGrams(0.5, 'package', weights)).toBe(227);
+  });
+
+  it('returns null when the needed weight is unknown', () => {
+    expect(toGrams(1, 'cup')).toBeNull();
+    expect(toGrams(1, 'each', { cup: 240 })).toBeNull();
+    expect(toGrams(1, 'package', { package: null })).toBeNull();
+    expect(toGrams(1, 'serving', { cup: 240, each: 50 })).toBeNull();
+  });
+});
+
+describe('convertToBasis', () => {
+  it('divides quantities in the basis unit', () => {
+    expect(convertToBasis(150, 'g', { quantity: 100, unit: 'g' })).toBe(1.5);
+    expect(convertToBasis(2, 'serving', { quantity: 1, unit: 'serving' })).toBe(2);
+  });
+
+  it('relates volumes without any weights', () => {
+    expect(convertToBasis(2, 'tbsp', { quantity: 1, unit: 'cup' })).toBe(0.125);
+    expect(convertToBasis(1, 'cup', { quantity: 1, unit: 'tbsp' })).toBe(16);
+  });
+
+  it('relates volumes, masses and pieces through gram weights', () => {
+    const weights = { cup: 81, each: 50 };
+    expect(convertToBasis(81, 'g', { quantity: 1, unit: 'cup' }, weights)).toBe(1);
+    expect(convertToBasis(0.5, 'cup', { quantity: 100, unit: 'g' }, weights)).toBeCloseTo(0.405);
+    expect(convertToBasis(2, 'each', { quantity: 100, unit: 'g' }, weights)).toBe(1);
+  });
+
+  it('returns null when the units cannot be related', () => {
+    expect(convertToBasis(100, 'g', { quantity: 1, unit: 'cup' })).toBeNull();
+    expect(convertToBasis(1, 'each', { quantity: 1, unit: 'cup' }, { cup: 81 })).toBeNull();
+    expect(convertToBasis(1, 'cup', { quantity: 0, unit: 'cup' })).toBeNull();
+  });
+});
+
+describe('getPortionWeights', () => {
+  it('picks cup, piece and package weights from USDA portions', () => {
+    expect(getPortionWeights([
+      { measureUnit: 'cup, sliced', gramWeight: 150, amount: 1 },
+      { measureUnit: 'medium', gramWeight: 118, amount: 1 },
+      { measureUnit: 'package', gramWeight: 908, amount: 2 },
+    ])).toEqual({ cup: 150, each: 118, package: 454 });
+  });
+
+  it('derives the cup weight from tablespoons or teaspoons', () => {
+    expect(getPortionWeights([{ measureUnit: 'tbsp', gramWeight: 16, amount: 1 }]).cup).toBe(256);
+    expect(getPortionWeights([{ measureUnit: 'tsp', gramWeight: 10, amount: 2 }]).cup).toBe(240);
+  });
+
+  it('leaves unknown weights null', () => {
+    expect(getPortionWeights([])).toEqual({ cup: null, each: null, package: null });
+  });
+});
+
+describe('scaleNutrients and roundNutrients', () => {
+  it('scales every nutrient by the factor', () => {
+    const half = scaleNutrients(OATS, 0.5);
+    expect(half.calories).toBe(153.5);
+    expect(half.protein).toBeCloseTo(5.35);
+    expect(half.potassium).toBe(146.5);
+    expect(half.water).toBe(0);
+  });
+
+  it('rounds calories and milligrams to whole numbers and grams to one decimal', () => {
+    const rounded = roundNutrients(scaleNutrients(OATS, 1 / 3));
+    expect(rounded.calories).toBe(102);
+    expect(rounded.sodium).toBe(2);
+    expect(rounded.potassium).toBe(98);
+    expect(rounded.protein).toBe(3.6);
+    expect(rounded.carbs).toBe(18.3);
+    expect(rounded.fat).toBe(1.8);
+    expect(rounded.fiber).toBe(2.7);
+  });
+});
@@ -1,25 +1,18 @@
-import { MealItem, DailyGoals, Meal } from '@/lib/types';
+import { MealItem, DailyGoals, Meal, Food, Recipe, RecipeVersion, NutrientVector, NutrientKey, FoodPortion, PortionWeights, NutritionBasis } from '@/lib/types';
 
 /**
  * Calculates the total calories from an array of meal items
  */
 export function calculateTotalCalories(items: MealItem[]): number {
-  return items.reduce((total, item) => total + (item.calories || 0), 0);
+  return sumNutrients(items).calories;
 }
 
 /**
  * Calculates the total macros from an array of meal items
  */
 export function calculateTotalMacros(items: MealItem[]) {
-  return items.reduce(
-    (totals, item) => ({
-      carbs: totals.carbs + (item.carbs || 0),
-      fat: totals.fat + (item.fat || 0),
-      fiber: totals.fiber + (item.fiber || 0),
-      protein: totals.protein + (item.protein || 0),
-    }),
-    { carbs: 0, fat: 0, fiber: 0, protein: 0 }
-  );
+  const { carbs, fat, fiber, protein } = sumNutrients(items);
+  return { carbs, fat, fiber, protein };
 }
 
 /**
@@ -88,28 +81,275 @@ export function getDefaultDailyGoals(): DailyGoals {
 /**
  * Calculates daily totals from an array of meals
  */
-export function calculateDailyTotals(meals: Meal[]) {
-  let totals = {
-    calories: 0,
-    carbs: 0,
-    fat: 0,
-    fiber: 0,
-    protein: 0,
-    water: 0,
+export function calculateDailyTotals(meals: Meal[]): NutrientVector {
+  return sumNutrients(meals.flatMap(meal => meal.meal_items || []));
+}
+
+// ============================================================
+// Nutrient vectors
+// ============================================================
+
+export const NUTRIENT_KEYS: NutrientKey[] = [
+  'calories', 'protein', 'carbs', 'fat', 'fiber', 'water',
+  'sodium', 'sugar', 'saturated_fat', 'potassium', 'cholesterol',
+];
+
+export type MicronutrientKey = 'sodium' | 'sugar' | 'saturated_fat' | 'potassium' | 'cholesterol';
+
+// Display details for the micronutrients; limits turn red when exceeded, targets don't
+export const MICRONUTRIENTS: { key: MicronutrientKey; label: string; unit: 'mg' | 'g'; isLimit: boolean }[] = [
+  { key: 'sodium', label: 'Sodium', unit: 'mg', isLimit: true },
+  { key: 'sugar', label: 'Sugar', unit: 'g', isLimit: true },
+  { key: 'saturated_fat', label: 'Saturated Fat', unit: 'g', isLimit: true },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', isLimit: false },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', isLimit: true },
+];
+
+// Nutrients measured in mg, which are rounded to whole numbers
+const MILLIGRAM_KEYS: NutrientKey[] = ['sodium', 'potassium', 'cholesterol'];
+
+/**
+ * Returns a vector with every nutrient set to zero
+ */
+export function emptyNutrients(): NutrientVector {
+  return {
+    calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, water: 0,
+    sodium: 0, sugar: 0, saturated_fat: 0, potassium: 0, cholesterol: 0,
   };
+}
+
+/**
+ * Builds a vector from any object with nutrient fields, treating missing values as zero
+ */
+export function toNutrientVector(source: Partial<Record<NutrientKey, number | null>>): NutrientVector {
+  const result = emptyNutrients();
+  NUTRIENT_KEYS.forEach(key => {
+    result[key] = Number(source[key]) || 0;
+  });
+  return result;
+}
+
+/**
+ * Adds two nutrient vectors
+ */
+export function addNutrients(a: NutrientVector, b: NutrientVector): NutrientVector {
+  const result = emptyNutrients();
+  NUTRIENT_KEYS.forEach(key => {
+    result[key] = a[key] + b[key];
+  });
+  return result;
+}
+
+/**
+ * Sums items that carry nutrient fields (meal items, recipe items, ingredients)
+ */
+export function sumNutrients(items: Partial<Record<NutrientKey, number | null>>[]): NutrientVector {
+  return items.reduce<NutrientVector>((total, item) => addNutrients(total, toNutrientVector(item)), emptyNutrients());
+}
 
-  meals.forEach(meal => {
-    if (meal.meal_items) {
-      meal.meal_items.forEach(item => {
-        totals.calories += item.calories || 0;
-        totals.carbs += item.carbs || 0;
-        totals.fat += item.fat || 0;
-        totals.fiber += item.fiber || 0;
-        totals.protein += item.protein || 0;
-        totals.water += item.water || 0;
-      });
-    }
+/**
+ * Multiplies every nutrient by a factor
+ */
+export function scaleNutrients(vector: NutrientVector, factor: number): NutrientVector {
+  const result = emptyNutrients();
+  NUTRIENT_KEYS.forEach(key => {
+    result[key] = vector[key] * factor;
   });
+  return result;
+}
 
-  return totals;
+/**
+ * Divides a total across servings
+ */
+export function perServing(vector: NutrientVector, servings: number): NutrientVector {
+  if (servings <= 0) return emptyNutrients();
+  return scaleNutrients(vector, 1 / servings);
+}
+
+/**
+ * Rounds for storage and display: whole calories and mg, other nutrients to 1 decimal place
+ */
+export function roundNutrients(vector: NutrientVector): NutrientVector {
+  const result = emptyNutrients();
+  NUTRIENT_KEYS.forEach(key => {
+    result[key] = key === 'calories' || MILLIGRAM_KEYS.includes(key)
+      ? Math.round(vector[key])
+      : Math.round(vector[key] * 10) / 10;
+  });
+  return result;
+}
+
+/**
+ * Gets a saved food's nutrition for its default amount as a vector
+ */
+export function getFoodPerServing(food: Food): NutrientVector {
+  return toNutrientVector({
+    calories: food.calories_per_serving,
+    protein: food.protein_per_serving,
+    carbs: food.carbs_per_serving,
+    fat: food.fat_per_serving,
+    fiber: food.fiber_per_serving,
+    water: food.water_per_serving,
+    sodium: food.sodium_per_serving,
+    sugar: food.sugar_per_serving,
+    saturated_fat: food.saturated_fat_per_serving,
+    potassium: food.potassium_per_serving,
+    cholesterol: food.cholesterol_per_serving,
+  });
+}
+
+/**
+ * Gets a recipe's stored totals as a vector
+ */
+export function getRecipeTotals(recipe: Recipe | RecipeVersion): NutrientVector {
+  return toNutrientVector({
+    calories: recipe.total_calories,
+    protein: recipe.total_protein,
+    carbs: recipe.total_carbs,
+    fat: recipe.total_fat,
+    fiber: recipe.total_fiber,
+    water: recipe.total_water,
+    sodium: recipe.total_sodium,
+    sugar: recipe.total_sugar,
+    saturated_fat: recipe.total_saturated_fat,
+    potassium: recipe.total_potassium,
+    cholesterol: recipe.total_cholesterol,
+  });
+}
+
+/**
+ * Gets a recipe's nutrition for a weight of the finished dish
+ * @returns null when the recipe's cooked weight hasn't been recorded
+ */
+export function getRecipeNutrientsForGrams(recipe: Recipe | RecipeVersion, grams: number): NutrientVector | null {
+  if (!recipe.cooked_weight_grams) return null;
+  return scaleNutrients(getRecipeTotals(recipe), grams / recipe.cooked_weight_grams);
+}
+
+/**
+ * Gets rounded per-serving nutrition for a recipe
+ */
+export function getRecipePerServing(recipe: Recipe | RecipeVersion): NutrientVector {
+  return roundNutrients(perServing(getRecipeTotals(recipe), recipe.servings));
+}
+
+// ============================================================
+// Units and gram weights
+// ============================================================
+
+export type VolumeUnit = 'cup' | 'tbsp' | 'tsp' | 'ml' | 'fl oz';
+export type MassUnit = 'g' | 'oz' | 'lb';
+
+// Size of each volume unit in cups (US customary; 1 cup = 236.588 ml)
+export const UNIT_TO_CUPS: Record<VolumeUnit, number> = {
+  cup: 1,
+  tbsp: 1 / 16,
+  tsp: 1 / 48,
+  ml: 1 / 236.588,
+  'fl oz': 1 / 8,
+};
+
+// Size of each mass unit in grams
+export const UNIT_TO_GRAMS: Record<MassUnit, number> = {
+  g: 1,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+/**
+ * Converts a volume quantity to cups
+ * @returns null for units that are not volumes (g, each, package, serving)
+ */
+export function toCups(quantity: number, unit: string): number | null {
+  if (!(unit in UNIT_TO_CUPS)) return null;
+  return quantity * UNIT_TO_CUPS[unit as VolumeUnit];
+}
+
+/**
+ * Converts a quantity to grams: mass units directly, volumes via the food's
+ * cup weight, and pieces or packages via their per-piece weight
+ * @returns null when the needed gram weight is unknown
+ */
+export function toGrams(quantity: number, unit: string, weights: PortionWeights = {}): number | null {
+  if (unit in UNIT_TO_GRAMS) return quantity * UNIT_TO_GRAMS[unit as MassUnit];
+
+  const cups = toCups(quantity, unit);
+  if (cups !== null) return weights.cup ? cups * weights.cup : null;
+
+  if (unit === 'each' && weights.each) return quantity * weights.each;
+  if (unit === 'package' && weights.package) return quantity * weights.package;
+  return null;
+}
+
+/**
+ * Works out how many basis amounts a quantity is (e.g., 2 tbsp of a per-cup food is 0.125)
+ * @returns null when the units can't be related with the known gram weights
+ */
+export function convertToBasis(
+  quantity: number,
+  unit: string,
+  basis: NutritionBasis,
+  weights: PortionWeights = {}
+): number | null {
+  if (basis.quantity <= 0) return null;
+  if (unit === basis.unit) return quantity / basis.quantity;
+
+  // Volume to volume needs no food-specific weights
+  const cups = toCups(quantity, unit);
+  const basisCups = toCups(basis.quantity, basis.unit);
+  if (cups !== null && basisCups !== null) return cups / basisCups;
+
+  const grams = toGrams(quantity, unit, weights);
+  const basisGrams = toGrams(basis.quantity, basis.unit, weights);
+  if (grams !== null && basisGrams) return grams / basisGrams;
+
+  return null;
+}
+
+type PortionUnit = 'cup' | 'tbsp' | 'tsp' | 'each' | 'package';
+
+// USDA measure names that count as each unit
+const PORTION_MATCHERS: Record<PortionUnit, (measure: string) => boolean> = {
+  cup: (u) =>
+    u === 'cup' || u === 'cup, whole' || u === 'cup, sliced' ||
+    u === 'cup, chopped' || u === 'cup, diced' || u === 'cup, mashed' ||
+    u === 'cup, halves' || u === 'cup, pieces' || u === 'cup, shredded' ||
+    u.startsWith('1 cup') ||
+    (u.includes('cup') && !u.includes('undrained')),
+  tbsp: (u) => u === 'tbsp' || u === 'tablespoon' || u.startsWith('1 tbsp') || u.includes('tablespoon'),
+  tsp: (u) => u === 'tsp' || u === 'teaspoon' || u.startsWith('1 tsp') || u.includes('teaspoon'),
+  each: (u) =>
+    u === 'each' || u === 'piece' || u === 'item' || u === 'whole' || u === 'fruit' ||
+    u === 'medium' || u.startsWith('medium') || u.startsWith('1 medium') ||
+    u === 'slice' || u.startsWith('1 slice') || u === 'large' || u === 'small',
+  package: (u) => u.includes('package') || u.includes('container') || u === 'pkg',
+};
+
+/**
+ * Finds the gram weight of one unit (e.g., 1 cup) from USDA portions
+ */
+export function findPortionGrams(portions: FoodPortion[], unit: PortionUnit): number | null {
+  const match = portions.find(p => PORTION_MATCHERS[unit](p.measureUnit));
+  return match ? match.gramWeight / match.amount : null;
+}
+
+/**
+ * Collects the gram weights the item forms need from USDA portions,
+ * falling back to tbsp or tsp measures for the cup weight
+ */
+export function getPortionWeights(portions: FoodPortion[]): PortionWeights {
+  const tbsp = findPortionGrams(portions, 'tbsp');
+  const tsp = findPortionGrams(portions, 'tsp');
+  return {
+    cup: findPortionGrams(portions, 'cup') ?? (tbsp ? tbsp * 16 : tsp ? tsp * 48 : null),
+    each: findPortionGrams(portions, 'each'),
+    package: findPortionGrams(portions, 'package'),
+  };
+}
+
+/**
+ * Converts per-100g nutrition to the amount in a given weight
+ */
+export function nutrientsForGrams(per100g: NutrientVector, grams: number): NutrientVector {
+  return scaleNutrients(per100g, grams / 100);
 }
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { formatAmount, parseAmount, parseIngredientLine } from './quantity';
+
+describe('parseAmount', () => {
+  it('parses whole, decimal and fractional quantities', () => {
+    expect(parseAmount('2 cups')).toEqual({ quantity: 2, unit: 'cup' });
+    expect(parseAmount('0.5 tbsp')).toEqual({ quantity: 0.5, unit: 'tbsp' });
+    expect(parseAmount('.25 cup')).toEqual({ quantity: 0.25, unit: 'cup' });
+    expect(parseAmount('1 1/2 cups')).toEqual({ quantity: 1.5, unit: 'cup' });
+    expect(parseAmount('1/3 cup')).toEqual({ quantity: 0.333, unit: 'cup' });
+  });
+
+  it('understands unit aliases, case and spacing', () => {
+    expect(parseAmount('  100 Grams ')).toEqual({ quantity: 100, unit: 'g' });
+    expect(parseAmount('8 fl  oz')).toEqual({ quantity: 8, unit: 'fl oz' });
+    expect(parseAmount('2 lbs')).toEqual({ quantity: 2, unit: 'lb' });
+    expect(parseAmount('250 millilitres')).toEqual({ quantity: 250, unit: 'ml' });
+    expect(parseAmount('2 servings')).toEqual({ quantity: 2, unit: 'serving' });
+  });
+
+  it('treats a bare number as a count', () => {
+    expect(parseAmount('3')).toEqual({ quantity: 3, unit: 'each' });
+  });
+
+  it('returns null for text it does not recognise', () => {
+    expect(parseAmount('a handful')).toBeNull();
+    expect(parseAmount('2 bowls')).toBeNull();
+    expect(parseAmount('1/0 cup')).toBeNull();
+    expect(parseAmount('')).toBeNull();
+  });
+});
+
+describe('formatAmount', () => {
+  it('uses common fractions for volumes', () => {
+    expect(formatAmount(1.5, 'cup')).toBe('1 1/2 cups');
+    expect(formatAmount(0.25, 'cup')).toBe('1/4 cup');
+    expect(formatAmount(1, 'cup')).toBe('1 cup');
+    expect(formatAmount(0.333, 'tbsp')).toBe('1/3 tbsp');
+  });
+
+  it('falls back to decimals when no fraction fits', () => {
+    expect(formatAmount(1.15, 'cup')).toBe('1.15 cups');
+  });
+
+  it('rounds metric amounts to one decimal place', () => {
+    expect(formatAmount(123.456, 'g')).toBe('123.5 g');
+    expect(formatAmount(236.588, 'ml')).toBe('236.6 ml');
+  });
+
+  it('formats counts, packages and servings', () => {
+    expect(formatAmount(3, 'each')).toBe('3');
+    expect(formatAmount(1, 'package')).toBe('1 package');
+    expect(formatAmount(2, 'package')).toBe('2 packages');
+    expect(formatAmount(1, 'serving')).toBe('1 serving');
+    expect(formatAmount(1.5, 'serving')).toBe('1.5 servings');
+  });
+
+  it('round-trips through parseAmount', () => {
+    for (const amount of ['1 1/2 cups', '3/4 cup', '2 tbsp', '100 g', '8 oz', '2 packages']) {
+      const parsed = parseAmount(amount);
+      expect(parsed).not.toBeNull();
+      if (parsed) expect(formatAmount(parsed.quantity, parsed.unit)).toBe(amount);
+    }
+  });
+});
+
+describe('parseIngredientLine', () => {
+  it('splits a line into amount and food name', () => {
+    expect(parseIngredientLine('2 cups rolled oats')).toEqual({ quantity: 2, unit: 'cup', name: 'rolled oats' });
+    expect(parseIngredientLine('100 g chicken breast')).toEqual({ quantity: 100, unit: 'g', name: 'chicken breast' });
+    expect(parseIngredientLine('1 Tbsp. olive oil')).toEqual({ quantity: 1, unit: 'tbsp', name: 'olive oil' });
+  });
+
+  it('reads unicode and mixed fractions and drops "of"', () => {
+    expect(parseIngredientLine('1½ tbsp of honey')).toEqual({ quantity: 1.5, unit: 'tbsp', name: 'honey' });
+    expect(parseIngredientLine('¾ cup milk')).toEqual({ quantity: 0.75, unit: 'cup', name: 'milk' });
+    expect(parseIngredientLine('1 1/2 tsp salt')).toEqual({ quantity: 1.5, unit: 'tsp', name: 'salt' });
+  });
+
+  it('takes the lower end of a range', () => {
+    expect(parseIngredientLine('2-3 cloves garlic')).toEqual({ quantity: 2, unit: 'each', name: 'cloves garlic' });
+    expect(parseIngredientLine('1 to 2 cups milk')).toEqual({ quantity: 1, unit: 'cup', name: 'milk' });
+  });
+
+  it('counts lines without a unit', () => {
+    expect(parseIngredientLine('3 eggs')).toEqual({ quantity: 3, unit: 'each', name: 'eggs' });
+  });
+
+  it('strips bullets and list numbering', () => {
+    expect(parseIngredientLine('- 1 cup rice')).toEqual({ quantity: 1, unit: 'cup', name: 'rice' });
+    expect(parseIngredientLine('• 2 tbsp butter')).toEqual({ quantity: 2, unit: 'tbsp', name: 'butter' });
+    expect(parseIngredientLine('2. 1/2 cup sugar')).toEqual({ quantity: 0.5, unit: 'cup', name: 'sugar' });
+  });
+
+  it('keeps lines without an amount as a name', () => {
+    expect(parseIngredientLine('salt to taste')).toEqual({ quantity: null, unit: null, name: 'salt to taste' });
+  });
+
+  it('skips blank lines and headings', () => {
+    expect(parseIngredientLine('For the sauce:')).toBeNull();
+    expect(parseIngredientLine('   ')).toBeNull();
+  });
+});
@@ -0,0 +1,223 @@
+import { QuantityUnit } from '@/lib/types';
+
+export interface ParsedAmount {
+  quantity: number;
+  unit: QuantityUnit;
+}
+
+// Keep in sync with parse_amount() in supabase/migration-metric-units.sql
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+  cup: 'cup',
+  cups: 'cup',
+  c: 'cup',
+  tbsp: 'tbsp',
+  tbs: 'tbsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  ml: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  'fl oz': 'fl oz',
+  'fl. oz': 'fl oz',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  g: 'g',
+  gram: 'g',
+  grams: 'g',
+  oz: 'oz',
+  ounce: 'oz',
+  ounces: 'oz',
+  lb: 'lb',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  '': 'each',
+  each: 'each',
+  ea: 'each',
+  whole: 'each',
+  package: 'package',
+  packages: 'package',
+  pkg: 'package',
+  serving: 'serving',
+  servings: 'serving',
+};
+
+// Units offered in the meal and recipe item forms, in display order
+export const SERVING_UNITS = ['cup', 'tbsp', 'tsp', 'fl oz', 'ml', 'g', 'oz', 'lb', 'each', 'package'] as const;
+export type ServingUnit = typeof SERVING_UNITS[number];
+
+export const SERVING_UNIT_LABELS: Record<ServingUnit, string> = {
+  cup: 'Cups',
+  tbsp: 'Tbsp',
+  tsp: 'Tsp',
+  'fl oz': 'Fl oz',
+  ml: 'ml',
+  g: 'Grams',
+  oz: 'Ounces',
+  lb: 'Pounds',
+  each: 'Each',
+  package: 'Package',
+};
+
+const FRACTIONS: [number, string][] = [
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [1 / 2, '1/2'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+];
+
+/**
+ * Parses a display amount (e.g., "1 1/2 cups", "2 tbsp", "3") into a quantity and unit
+ * @returns null when the text is not a recognised amount
+ */
+export function parseAmount(amount: string): ParsedAmount | null {
+  const text = amount.trim().toLowerCase();
+  let quantity: number;
+  let unitText: string;
+
+  const fraction = text.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)\s*(.*)$/);
+  if (fraction) {
+    const denominator = Number(fraction[3]);
+    if (denominator === 0) return null;
+    quantity = Number(fraction[1] || 0) + Number(fraction[2]) / denominator;
+    unitText = fraction[4];
+  } else {
+    const decimal = text.match(/^(\d+(?:\.\d+)?|\.\d+)\s*(.*)$/);
+    if (!decimal) return null;
+    quantity = Number(decimal[1]);
+    unitText = decimal[2];
+  }
+
+  const unit = UNIT_ALIASES[unitText.replace(/\s+/g, ' ')];
+  if (!unit) return null;
+
+  return { quantity: Math.round(quantity * 1000) / 1000, unit };
+}
+
+/**
+ * Formats a quantity using common fractions where they fit (e.g., 1.5 -> "1 1/2")
+ */
+function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const remainder = quantity - whole;
+  if (remainder < 0.01) return `${whole}`;
+
+  const match = FRACTIONS.find(([value]) => Math.abs(remainder - value) < 0.01);
+  if (!match) return `${quantity}`;
+  return whole > 0 ? `${whole} ${match[1]}` : match[1];
+}
+
+/**
+ * Formats a quantity and unit as a display amount (e.g., "1 1/2 cups", "2 tbsp")
+ */
+export function formatAmount(quantity: number, unit: QuantityUnit): string {
+  if (unit === 'each') return `${quantity}`;
+  if (unit === 'package') return quantity === 1 ? '1 package' : `${quantity} packages`;
+  if (unit === 'serving') return quantity === 1 ? '1 serving' : `${quantity} servings`;
+
+  // Metric amounts read better as decimals than as fractions
+  if (unit === 'g' || unit === 'ml') return `${Math.round(quantity * 10) / 10} ${unit}`;
+
+  const text = formatQuantity(quantity);
+  if (unit === 'cup') return quantity <= 1 ? `${text} cup` : `${text} cups`;
+  return `${text} ${unit}`;
+}
+
+/**
+ * Scales an item's amount for a bigger or smaller batch (e.g., "1/2 cup" x 3 -> "1 1/2 cups")
+ */
+export function scaleAmount(
+  item: { amount: string; quantity?: number | null; unit?: QuantityUnit | null },
+  factor: number
+): string {
+  const parsed = item.quantity != null && item.unit
+    ? { quantity: item.quantity, unit: item.unit }
+    : parseAmount(item.amount);
+
+  if (!parsed) return factor === 1 ? item.amount : `${item.amount} × ${Math.round(factor * 100) / 100}`;
+  return formatAmount(Math.round(parsed.quantity * factor * 1000) / 1000, parsed.unit);
+}
+
+/**
+ * One line of a pasted ingredient list, split into amount and food name
+ */
+export interface ParsedIngredient {
+  quantity: number | null;
+  unit: QuantityUnit | null;
+  name: string;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅛': '1/8',
+};
+
+// Longest first, so "fl oz" wins over "fl" and "cups" over "c"
+const INGREDIENT_UNITS = Object.keys(UNIT_ALIASES)
+  .filter(alias => alias !== '')
+  .sort((a, b) => b.length - a.length);
+
+/**
+ * Reads a number written as "2", "1.5", "1/2" or "1 1/2"
+ */
+function parseQuantity(text: string): number | null {
+  const mixed = text.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    if (denominator === 0) return null;
+    return Number(mixed[1] || 0) + Number(mixed[2]) / denominator;
+  }
+  const value = Number(text);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Parses a pasted ingredient line (e.g., "2 cups rolled oats", "1½ tbsp of honey", "3 eggs")
+ * @returns null for blank lines and section headings like "For the sauce:"
+ */
+export function parseIngredientLine(line: string): ParsedIngredient | null {
+  let text = line
+    .trim()
+    // Bullets and list numbering ("- ", "• ", "1. ", "2) ")
+    .replace(/^(?:[-*•]+|\d+[.)])\s+/, '')
+    .replace(/(\d)?([½⅓⅔¼¾⅛])/g, (_, whole: string | undefined, fraction: string) =>
+      `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`
+    )
+    .trim();
+
+  if (!text || text.endsWith(':')) return null;
+
+  const number = '\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d+(?:\\.\\d+)?|\\.\\d+';
+  // A range ("2-3 cloves", "1 to 2 cups") counts as its lower end
+  const amount = text.match(new RegExp(`^(${number})(?:\\s*(?:-|–|to)\\s*(?:${number}))?\\s*(.*)$`, 'i'));
+  if (!amount) return { quantity: null, unit: null, name: text };
+
+  const quantity = parseQuantity(amount[1]);
+  if (quantity === null) return { quantity: null, unit: null, name: text };
+  text = amount[2];
+
+  const lower = text.toLowerCase();
+  const alias = INGREDIENT_UNITS.find(u => new RegExp(`^${u.replace('.', '\\.')}\\.?(?:\\s|$)`).test(lower));
+  let unit: QuantityUnit = 'each';
+  if (alias) {
+    unit = UNIT_ALIASES[alias];
+    text = text.slice(alias.length).replace(/^\.?\s*/, '');
+  }
+  text = text.replace(/^of\s+/i, '').trim();
+
+  return {
+    quantity: Math.round(quantity * 1000) / 1000,
+    unit,
+    name: text || line.trim(),
+  };
+}
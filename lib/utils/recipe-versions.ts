@@ -0,0 +1,74 @@
+import { MealItem, NutrientVector, RecipeVersion, RecipeVersionItem } from '@/lib/types';
+import { getRecipeNutrientsForGrams, getRecipeTotals, perServing, roundNutrients, scaleNutrients } from './nutrition';
+import { parseAmount } from './quantity';
+
+/**
+ * One ingredient difference between two recipe versions
+ */
+export interface IngredientChange {
+  type: 'added' | 'removed' | 'changed';
+  name: string;
+  before: string | null;
+  after: string | null;
+  calorieChange: number;
+}
+
+function ingredientKey(item: RecipeVersionItem): string {
+  return item.food_id || item.food_name.trim().toLowerCase();
+}
+
+/**
+ * Lists the ingredients added, removed or changed in amount between two versions
+ */
+export function diffVersionItems(before: RecipeVersionItem[], after: RecipeVersionItem[]): IngredientChange[] {
+  const previous = new Map(before.map(item => [ingredientKey(item), item]));
+  const changes: IngredientChange[] = [];
+
+  for (const item of after) {
+    const key = ingredientKey(item);
+    const old = previous.get(key);
+    previous.delete(key);
+
+    if (!old) {
+      changes.push({ type: 'added', name: item.food_name, before: null, after: item.amount, calorieChange: item.calories });
+    } else if (old.amount !== item.amount || old.calories !== item.calories) {
+      changes.push({
+        type: 'changed',
+        name: item.food_name,
+        before: old.amount,
+        after: item.amount,
+        calorieChange: item.calories - old.calories,
+      });
+    }
+  }
+
+  for (const old of previous.values()) {
+    changes.push({ type: 'removed', name: old.food_name, before: old.amount, after: null, calorieChange: -old.calories });
+  }
+
+  return changes;
+}
+
+/**
+ * Works out a logged recipe item's nutrition under a given version, from the
+ * servings or cooked grams it was logged as
+ * @returns null when the logged amount can't be carried over (e.g., grams of a version with no cooked weight)
+ */
+export function getLoggedRecipeNutrition(
+  version: RecipeVersion,
+  item: Pick<MealItem, 'amount' | 'quantity' | 'unit'>
+): NutrientVector | null {
+  const parsed = item.quantity != null && item.unit
+    ? { quantity: item.quantity, unit: item.unit }
+    : parseAmount(item.amount);
+  if (!parsed) return null;
+
+  if (parsed.unit === 'serving') {
+    return roundNutrients(scaleNutrients(perServing(getRecipeTotals(version), version.servings), parsed.quantity));
+  }
+  if (parsed.unit === 'g') {
+    const forGrams = getRecipeNutrientsForGrams(version, parsed.quantity);
+    return forGrams ? roundNutrients(forGrams) : null;
+  }
+  return null;
+}
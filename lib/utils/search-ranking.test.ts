@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { Food, NormalizedFood, Recipe } from '@/lib/types';
+import { editDistance, matchScore, rankSearchResults, tokenize, usageBoost } from './search-ranking';
+import { emptyNutrients } from './nutrition';
+
+const NOW = new Date('2024-06-15T12:00:00Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Ranking only reads names and usage
+function food(id: string, name: string, usage: Partial<Pick<Food, 'usage_count' | 'last_used_at'>> = {}): Food {
+  return { id, name, usage_count: 0, last_used_at: null, ...usage } as Food;
+}
+
+function recipe(id: string, name: string): Recipe {
+  return { id, name } as Recipe;
+}
+
+function usdaFood(fdcId: number, description: string): NormalizedFood {
+  return {
+    ...emptyNutrients(),
+    id: `usda-${fdcId}`,
+    fdcId,
+    description,
+    servingSize: 100,
+    servingSizeUnit: 'g',
+    portions: [],
+    source: 'USDA',
+  };
+}
+
+describe('tokenize', () => {
+  it('splits on punctuation and lowercases', () => {
+    expect(tokenize('Oats, rolled (dry)')).toEqual(['oats', 'rolled', 'dry']);
+    expect(tokenize('Crème fraîche 2%')).toEqual(['crème', 'fraîche', '2']);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts inserts, deletes and substitutions', () => {
+    expect(editDistance('chicken', 'chicken')).toBe(0);
+    expect(editDistance('chiken', 'chicken')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+
+  it('counts swapped adjacent letters as one edit', () => {
+    expect(editDistance('chikcen', 'chicken')).toBe(1);
+    expect(editDistance('bananna', 'banana')).toBe(1);
+  });
+});
+
+describe('matchScore', () => {
+  it('scores an exact name highest', () => {
+    expect(matchScore('Banana', 'banana')).toBe(1);
+  });
+
+  it('prefers a prefix while typing over a plural ending', () => {
+    expect(matchScore('banana', 'Bananas')).toBeCloseTo(0.9);
+    expect(matchScore('bananas', 'Banana')).toBeCloseTo(0.85);
+  });
+
+  it('tolerates typos in longer words only', () => {
+    expect(matchScore('chiken', 'Chicken')).toBeCloseTo(0.7);
+    expect(matchScore('chikcen', 'Chicken')).toBeCloseTo(0.7);
+    expect(matchScore('egs', 'Eggs')).toBe(0);
+  });
+
+  it('needs every query word to match, and favors names without extra words', () => {
+    expect(matchScore('chicken rice', 'Chicken breast')).toBe(0);
+    expect(matchScore('chicken', 'Chicken')).toBeGreaterThan(matchScore('chicken', 'Chicken breast'));
+  });
+});
+
+describe('usageBoost', () => {
+  it('is 1 for a food never logged', () => {
+    expect(usageBoost(food('f-new', 'Oats'), NOW)).toBe(1);
+  });
+
+  it('grows with how often and how recently a food was logged', () => {
+    expect(usageBoost({ usage_count: 3, last_used_at: daysAgo(2) }, NOW)).toBeCloseTo(1.3);
+    expect(usageBoost({ usage_count: 3, last_used_at: daysAgo(20) }, NOW)).toBeCloseTo(1.2);
+    expect(usageBoost({ usage_count: 3, last_used_at: daysAgo(60) }, NOW)).toBeCloseTo(1.1);
+  });
+
+  it('caps the boost from frequency', () => {
+    expect(usageBoost({ usage_count: 10000, last_used_at: daysAgo(1) }, NOW)).toBeCloseTo(1.5);
+  });
+});
+
+describe('rankSearchResults', () => {
+  const sources = {
+    foods: [food('f-chicken', 'Chicken breast'), food('f-kitchen', 'Kitchen sink cookies')],
+    recipes: [recipe('r-chickpea', 'Chickpea curry')],
+    usda: [usdaFood(1, 'Chicken, broilers or fryers, breast, meat only, raw')],
+  };
+
+  it('finds a name despite a typo, closest first', () => {
+    const results = rankSearchResults('chiken', sources, NOW);
+    expect(results[0]).toMatchObject({ source: 'food', name: 'Chicken breast' });
+    expect(results.map(result => result.name)).not.toContain('Kitchen sink cookies');
+  });
+
+  it('ranks a saved food above the same name from USDA and lists it once', () => {
+    const results = rankSearchResults('banana', {
+      foods: [food('f-banana', 'Banana')],
+      recipes: [],
+      usda: [usdaFood(2, 'BANANA'), usdaFood(3, 'Bananas, raw')],
+    }, NOW);
+
+    expect(results.map(result => [result.source, result.name])).toEqual([
+      ['food', 'Banana'],
+      ['usda', 'Bananas, raw'],
+    ]);
+  });
+
+  it('ranks often logged foods higher', () => {
+    const results = rankSearchResults('oats', {
+      foods: [
+        food('f-steel', 'Oats steel cut'),
+        food('f-rolled', 'Oats rolled', { usage_count: 7, last_used_at: daysAgo(1) }),
+      ],
+      recipes: [],
+      usda: [],
+    }, NOW);
+
+    expect(results.map(result => result.id)).toEqual(['f-rolled', 'f-steel']);
+  });
+
+  it('leaves out results below the minimum score', () => {
+    const results = rankSearchResults('oat', {
+      foods: [food('f-goat', 'Goat cheese')],
+      recipes: [],
+      usda: [usdaFood(4, 'Goat milk, whole, fluid, canned')],
+    }, NOW);
+
+    expect(results.map(result => result.name)).toEqual(['Goat cheese']);
+  });
+});
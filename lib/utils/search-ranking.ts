@@ -0,0 +1,152 @@
+import { Food, NormalizedFood, Recipe, SearchResult } from '@/lib/types';
+
+// Results scoring below this don't match the query closely enough to show
+const MIN_SCORE = 0.45;
+
+// On equal text matches, the user's own foods come before their recipes, then USDA
+const SOURCE_WEIGHTS: Record<SearchResult['source'], number> = {
+  food: 1,
+  recipe: 0.95,
+  usda: 0.85,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Splits text into lowercase words, ignoring punctuation ("Oats, rolled" -> ["oats", "rolled"])
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Counts the edits (insert, delete, substitute, swap adjacent letters) between two words
+ */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+// Typos allowed in a query word: none for short words, then one, then two
+function allowedTypos(word: string): number {
+  if (word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+// How well one query word matches one word of a name, from 0 to 1
+function scoreWord(queryWord: string, nameWord: string): number {
+  if (queryWord === nameWord) return 1;
+  // "chick" while typing "chicken"
+  if (nameWord.startsWith(queryWord)) return 0.9;
+  // Plurals and other small endings ("bananas" for "banana")
+  if (queryWord.startsWith(nameWord) && queryWord.length - nameWord.length <= 2) return 0.85;
+
+  const typos = allowedTypos(queryWord);
+  if (typos > 0) {
+    const distance = editDistance(queryWord, nameWord.slice(0, queryWord.length + typos));
+    if (distance <= typos) return 0.8 - 0.1 * distance;
+  }
+
+  if (queryWord.length >= 3 && nameWord.includes(queryWord)) return 0.6;
+  return 0;
+}
+
+/**
+ * Scores how well a name matches a search, from 0 to 1, tolerating typos.
+ * Every query word has to match some word of the name; names with fewer
+ * extra words score a little higher.
+ */
+export function matchScore(query: string, name: string): number {
+  const queryWords = tokenize(query);
+  const nameWords = tokenize(name);
+  if (queryWords.length === 0 || nameWords.length === 0) return 0;
+
+  let total = 0;
+  for (const queryWord of queryWords) {
+    const best = Math.max(...nameWords.map(nameWord => scoreWord(queryWord, nameWord)));
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  const coverage = Math.min(queryWords.length / nameWords.length, 1);
+  return (total / queryWords.length) * (0.85 + 0.15 * coverage);
+}
+
+/**
+ * Boost for a saved food the user logs often or logged recently, from 1 up to about 1.5
+ */
+export function usageBoost(food: Pick<Food, 'usage_count' | 'last_used_at'>, now: Date = new Date()): number {
+  const frequency = Math.min(Math.log2(1 + (food.usage_count || 0)) * 0.05, 0.3);
+
+  let recency = 0;
+  if (food.last_used_at) {
+    const daysAgo = (now.getTime() - new Date(food.last_used_at).getTime()) / DAY_MS;
+    if (daysAgo <= 7) recency = 0.2;
+    else if (daysAgo <= 30) recency = 0.1;
+  }
+
+  return 1 + frequency + recency;
+}
+
+// Results with the same name are the same food, whichever source they came from
+function dedupeKey(name: string): string {
+  return tokenize(name).join(' ');
+}
+
+/**
+ * Merges saved foods, recipes and USDA results into one list, best match first,
+ * keeping only the highest-ranked result for each name
+ */
+export function rankSearchResults(
+  query: string,
+  sources: { foods: Food[]; recipes: Recipe[]; usda: NormalizedFood[] },
+  now: Date = new Date()
+): SearchResult[] {
+  const scored: SearchResult[] = [
+    ...sources.foods.map((food): SearchResult => ({
+      source: 'food',
+      id: food.id,
+      name: food.name,
+      score: matchScore(query, food.name) * SOURCE_WEIGHTS.food * usageBoost(food, now),
+      food,
+    })),
+    ...sources.recipes.map((recipe): SearchResult => ({
+      source: 'recipe',
+      id: recipe.id,
+      name: recipe.name,
+      score: matchScore(query, recipe.name) * SOURCE_WEIGHTS.recipe,
+      recipe,
+    })),
+    // USDA's own order breaks ties between its results
+    ...sources.usda.map((usda, index): SearchResult => ({
+      source: 'usda',
+      id: usda.id,
+      name: usda.description,
+      score: matchScore(query, usda.description) * SOURCE_WEIGHTS.usda * (1 - index * 0.005),
+      usda,
+    })),
+  ];
+
+  const seen = new Set<string>();
+  return scored
+    .filter(result => result.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .filter(result => {
+      const key = dedupeKey(result.name);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,382 @@
+// Loads a downloaded USDA FoodData Central release into the fdc_foods table
+// (supabase/migration-fdc-foods.sql), so food search works without the USDA API.
+//
+// Usage:
+//   npm run import:fdc -- <source> [<source> ...] [--types foundation,sr_legacy,branded]
+//
+// Each source is either a JSON download (e.g. FoodData_Central_foundation_food_json_*.json,
+// ..._sr_legacy_food_json_*.json, ..._branded_food_json_*.json) or an unzipped CSV
+// release directory (containing food.csv, food_nutrient.csv, ...). JSON downloads are
+// streamed, so the multi-gigabyte Branded download works too. A CSV release is joined
+// in memory, with every selected food held at once: use the JSON download for Branded,
+// or --types to leave it out. Needs NEXT_PUBLIC_SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY, read from the environment or .env.local.
+
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+
+const BATCH_SIZE = 1000;
+
+const DATA_TYPES = {
+  'Foundation': 'foundation',
+  'foundation_food': 'foundation',
+  'SR Legacy': 'sr_legacy',
+  'sr_legacy_food': 'sr_legacy',
+  'Branded': 'branded',
+  'branded_food': 'branded',
+};
+
+// fdc_foods column -> FoodData Central nutrient ids, first one present wins.
+// Foundation foods often only report energy as Atwater factors (2047, 2048).
+const NUTRIENT_IDS = {
+  calories: [1008, 2047, 2048],
+  protein: [1003],
+  carbs: [1005],
+  fat: [1004],
+  fiber: [1079],
+  sodium: [1093],
+  sugar: [2000],
+  saturated_fat: [1258],
+  potassium: [1092],
+  cholesterol: [1253],
+};
+
+function parseArgs(argv) {
+  const sources = [];
+  let types = new Set(['foundation', 'sr_legacy', 'branded']);
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--types') {
+      types = new Set((argv[++i] || '').split(',').map(type => type.trim()).filter(Boolean));
+    } else {
+      sources.push(argv[i]);
+    }
+  }
+
+  return { sources, types };
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
+
+// amounts: Map of nutrient id -> amount per 100g
+function nutrientColumns(amounts) {
+  const columns = {};
+  for (const [column, ids] of Object.entries(NUTRIENT_IDS)) {
+    const id = ids.find(nutrientId => amounts.has(nutrientId));
+    columns[column] = id === undefined ? 0 : round(amounts.get(id));
+  }
+  return columns;
+}
+
+// Same shape as extractPortions in lib/usda.ts, so local and live results agree
+function toPortion(unitName, modifier, gramWeight, amount) {
+  const unit = unitName || modifier || '';
+  if (!unit || !(gramWeight > 0)) return null;
+
+  return {
+    measureUnit: unit.toLowerCase(),
+    gramWeight,
+    amount: amount || 1,
+    modifier: modifier ? modifier.toLowerCase() : undefined,
+  };
+}
+
+// Branded foods have no portions, only the label's household serving ("1 cup")
+function householdPortion(householdServing, servingSize, servingSizeUnit) {
+  if (!householdServing || (servingSizeUnit || '').toLowerCase() !== 'g') return null;
+  return toPortion(householdServing.trim(), null, Number(servingSize), 1);
+}
+
+function toRow({ fdcId, dataType, description, brandOwner, gtinUpc, amounts, portions, servingSize, servingSizeUnit }) {
+  return {
+    fdc_id: fdcId,
+    data_type: dataType,
+    description,
+    brand_owner: brandOwner || null,
+    gtin_upc: gtinUpc || null,
+    ...nutrientColumns(amounts),
+    serving_size: servingSize ? round(Number(servingSize)) : null,
+    serving_size_unit: servingSizeUnit || null,
+    portions: portions.filter(Boolean),
+  };
+}
+
+// ============================================================
+// JSON downloads
+// ============================================================
+
+/**
+ * Streams the food objects out of a FoodData Central JSON download, which is
+ * one object holding a single array: { "FoundationFoods": [ {...}, {...} ] }
+ */
+async function* readJsonFoods(file) {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let pieces = [];
+  let capturing = false;
+
+  for await (const chunk of createReadStream(file, { encoding: 'utf8' })) {
+    let start = capturing ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 2 && char === '{') {
+          capturing = true;
+          start = i;
+        }
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (capturing && depth === 2) {
+          pieces.push(chunk.slice(start, i + 1));
+          yield JSON.parse(pieces.join(''));
+          pieces = [];
+          capturing = false;
+          start = -1;
+        }
+      }
+    }
+
+    if (capturing) pieces.push(chunk.slice(start));
+  }
+}
+
+function rowFromJson(food) {
+  const dataType = DATA_TYPES[food.dataType];
+  if (!dataType) return null;
+
+  const amounts = new Map();
+  for (const n of food.foodNutrients || []) {
+    const id = n.nutrient?.id ?? n.nutrientId;
+    const amount = n.amount ?? n.value;
+    if (id !== undefined && typeof amount === 'number') amounts.set(Number(id), amount);
+  }
+
+  const portions = (food.foodPortions || []).map(p =>
+    toPortion(p.measureUnit?.name, p.modifier, p.gramWeight, p.amount)
+  );
+  portions.push(householdPortion(food.householdServingFullText, food.servingSize, food.servingSizeUnit));
+
+  return toRow({
+    fdcId: food.fdcId,
+    dataType,
+    description: food.description,
+    brandOwner: food.brandOwner,
+    gtinUpc: food.gtinUpc,
+    amounts,
+    portions,
+    servingSize: food.servingSize,
+    servingSizeUnit: food.servingSizeUnit,
+  });
+}
+
+async function* readJsonSource(file, types) {
+  for await (const food of readJsonFoods(file)) {
+    const row = rowFromJson(food);
+    if (row && types.has(row.data_type)) yield row;
+  }
+}
+
+// ============================================================
+// CSV release directories
+// ============================================================
+
+/**
+ * Streams the rows of a FoodData Central CSV file as objects keyed by header.
+ * Quoted fields may contain commas, doubled quotes and line breaks.
+ */
+async function* readCsv(file) {
+  let header = null;
+  let fields = [];
+  let field = '';
+  let inQuotes = false;
+  let afterQuote = false;
+
+  function* endRecord() {
+    fields.push(field);
+    field = '';
+    if (!header) {
+      header = fields;
+    } else if (fields.length > 1 || fields[0] !== '') {
+      yield Object.fromEntries(header.map((name, i) => [name, fields[i] ?? '']));
+    }
+    fields = [];
+  }
+
+  for await (const chunk of createReadStream(file, { encoding: 'utf8' })) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          afterQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        // A quote right after a closing quote is an escaped quote
+        if (afterQuote) field += '"';
+        inQuotes = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n') {
+        yield* endRecord();
+      } else if (char !== '\r') {
+        field += char;
+      }
+      afterQuote = false;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) yield* endRecord();
+}
+
+// food_nutrient.csv isn't ordered by food, so every selected food is kept in
+// memory until all the files have been read
+async function readCsvSource(dir, types) {
+  const csvPath = name => path.join(dir, name);
+  const optionalCsv = async function* (name) {
+    if (existsSync(csvPath(name))) yield* readCsv(csvPath(name));
+  };
+
+  const foods = new Map();
+  for await (const food of readCsv(csvPath('food.csv'))) {
+    const dataType = DATA_TYPES[food.data_type];
+    if (!dataType || !types.has(dataType)) continue;
+
+    foods.set(food.fdc_id, {
+      fdcId: Number(food.fdc_id),
+      dataType,
+      description: food.description,
+      amounts: new Map(),
+      portions: [],
+    });
+  }
+  console.log(`  ${foods.size} foods in food.csv`);
+
+  const wantedNutrients = new Set(Object.values(NUTRIENT_IDS).flat());
+  for await (const n of readCsv(csvPath('food_nutrient.csv'))) {
+    const food = foods.get(n.fdc_id);
+    const id = Number(n.nutrient_id);
+    if (food && wantedNutrients.has(id) && n.amount !== '') food.amounts.set(id, Number(n.amount));
+  }
+
+  const measureUnits = new Map();
+  for await (const unit of optionalCsv('measure_unit.csv')) {
+    measureUnits.set(unit.id, unit.name);
+  }
+
+  for await (const p of optionalCsv('food_portion.csv')) {
+    const food = foods.get(p.fdc_id);
+    if (!food) continue;
+    food.portions.push(toPortion(
+      measureUnits.get(p.measure_unit_id),
+      p.modifier,
+      Number(p.gram_weight),
+      Number(p.amount)
+    ));
+  }
+
+  for await (const b of optionalCsv('branded_food.csv')) {
+    const food = foods.get(b.fdc_id);
+    if (!food) continue;
+    food.brandOwner = b.brand_owner;
+    food.gtinUpc = b.gtin_upc;
+    food.servingSize = b.serving_size;
+    food.servingSizeUnit = b.serving_size_unit;
+    food.portions.push(householdPortion(b.household_serving_fulltext, b.serving_size, b.serving_size_unit));
+  }
+
+  return (function* () {
+    for (const food of foods.values()) yield toRow(food);
+  })();
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+async function upsertBatch(supabase, rows) {
+  const { error } = await supabase.from('fdc_foods').upsert(rows);
+  if (error) throw error;
+}
+
+async function importSource(supabase, source, types) {
+  console.log(`Importing ${source}`);
+  const rows = statSync(source).isDirectory()
+    ? await readCsvSource(source, types)
+    : readJsonSource(source, types);
+
+  let batch = [];
+  let count = 0;
+  for await (const row of rows) {
+    batch.push(row);
+    if (batch.length === BATCH_SIZE) {
+      await upsertBatch(supabase, batch);
+      count += batch.length;
+      batch = [];
+      console.log(`  ${count} foods imported`);
+    }
+  }
+  if (batch.length > 0) {
+    await upsertBatch(supabase, batch);
+    count += batch.length;
+  }
+
+  console.log(`  Done: ${count} foods imported from ${source}`);
+}
+
+async function main() {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No .env.local; use the environment as is
+  }
+
+  const { sources, types } = parseArgs(process.argv.slice(2));
+  if (sources.length === 0) {
+    console.error('Usage: npm run import:fdc -- <json file or csv directory> [...] [--types foundation,sr_legacy,branded]');
+    console.error('A CSV directory is loaded into memory whole; prefer the JSON download for Branded foods.');
+    process.exit(1);
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    console.error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+    process.exit(1);
+  }
+
+  const supabase = createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  for (const source of sources) {
+    await importSource(supabase, source, types);
+  }
+}
+
+main().catch(error => {
+  console.error('Import failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+-- Migration: Copy meals to another day in one transaction
+-- Run this in your Supabase SQL editor after migration-item-grams.sql
+--
+-- Copying meals from the browser took one request per meal, so a failure
+-- partway through left a partly copied day behind. This function copies them
+-- all or none.
+
+-- ============================================================
+-- 1. Copy meals
+-- ============================================================
+-- Runs with the caller's permissions, so RLS and the locked-day triggers apply.
+-- Meals go onto the end of the day's meals of the same type, in their original
+-- order; items are copied column for column, so new item columns come along.
+CREATE OR REPLACE FUNCTION copy_meals_to_daily_log(p_meal_ids UUID[], p_daily_log_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_meal meals;
+  v_new_meal_id UUID;
+  v_copied INTEGER := 0;
+BEGIN
+  FOR v_meal IN
+    SELECT * FROM meals WHERE id = ANY(p_meal_ids) ORDER BY meal_order, created_at
+  LOOP
+    INSERT INTO meals (daily_log_id, meal_type, meal_order, preparation_notes)
+    VALUES (
+      p_daily_log_id,
+      v_meal.meal_type,
+      COALESCE((
+        SELECT MAX(meal_order) FROM meals
+        WHERE daily_log_id = p_daily_log_id AND meal_type = v_meal.meal_type
+      ), 0) + 1,
+      v_meal.preparation_notes
+    )
+    RETURNING id INTO v_new_meal_id;
+
+    INSERT INTO meal_items
+    SELECT (jsonb_populate_record(
+      NULL::meal_items,
+      to_jsonb(meal_items) || jsonb_build_object(
+        'id', uuid_generate_v4(),
+        'meal_id', v_new_meal_id,
+        'created_at', NOW()
+      )
+    )).*
+    FROM meal_items
+    WHERE meal_id = v_meal.id
+    ORDER BY "order";
+
+    v_copied := v_copied + 1;
+  END LOOP;
+
+  RETURN v_copied;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,176 @@
+-- Migration: Maintain daily log totals in the database
+-- Run this in your Supabase SQL editor after migration-micronutrients.sql
+--
+-- total_* columns and water_intake on daily_logs are recalculated whenever a
+-- meal item or meal changes, so the browser no longer writes them. Water drunk
+-- outside of meal items (the +8 oz buttons) is kept in extra_water and added
+-- to water_intake.
+
+-- ============================================================
+-- 1. Water logged directly on the day
+-- ============================================================
+ALTER TABLE daily_logs
+ADD COLUMN IF NOT EXISTS extra_water DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Until now water_intake held item water plus anything added by hand; keep
+-- the hand-added part
+UPDATE daily_logs
+SET extra_water = GREATEST(daily_logs.water_intake - item_water.total, 0)
+FROM (
+  SELECT meals.daily_log_id, COALESCE(SUM(meal_items.water), 0) AS total
+  FROM meals
+  LEFT JOIN meal_items ON meal_items.meal_id = meals.id
+  GROUP BY meals.daily_log_id
+) AS item_water
+WHERE item_water.daily_log_id = daily_logs.id;
+
+UPDATE daily_logs
+SET extra_water = COALESCE(water_intake, 0)
+WHERE NOT EXISTS (SELECT 1 FROM meals WHERE meals.daily_log_id = daily_logs.id);
+
+-- ============================================================
+-- 2. Recalculate one day
+-- ============================================================
+-- SECURITY DEFINER so totals stay correct however the item was written
+-- (e.g. by a cascade); it only ever derives values from the day's own items.
+CREATE OR REPLACE FUNCTION recalculate_daily_log_totals(p_daily_log_id UUID)
+RETURNS VOID AS $$
+  UPDATE daily_logs
+  SET
+    total_calories = totals.calories,
+    total_protein = totals.protein,
+    total_carbs = totals.carbs,
+    total_fat = totals.fat,
+    total_fiber = totals.fiber,
+    total_sodium = totals.sodium,
+    total_sugar = totals.sugar,
+    total_saturated_fat = totals.saturated_fat,
+    total_potassium = totals.potassium,
+    total_cholesterol = totals.cholesterol,
+    water_intake = totals.water + daily_logs.extra_water
+  FROM (
+    SELECT
+      COALESCE(SUM(meal_items.calories), 0) AS calories,
+      ROUND(COALESCE(SUM(meal_items.protein), 0), 1) AS protein,
+      ROUND(COALESCE(SUM(meal_items.carbs), 0), 1) AS carbs,
+      ROUND(COALESCE(SUM(meal_items.fat), 0), 1) AS fat,
+      ROUND(COALESCE(SUM(meal_items.fiber), 0), 1) AS fiber,
+      ROUND(COALESCE(SUM(meal_items.water), 0), 1) AS water,
+      ROUND(COALESCE(SUM(meal_items.sodium), 0)) AS sodium,
+      ROUND(COALESCE(SUM(meal_items.sugar), 0), 1) AS sugar,
+      ROUND(COALESCE(SUM(meal_items.saturated_fat), 0), 1) AS saturated_fat,
+      ROUND(COALESCE(SUM(meal_items.potassium), 0)) AS potassium,
+      ROUND(COALESCE(SUM(meal_items.cholesterol), 0)) AS cholesterol
+    FROM meals
+    JOIN meal_items ON meal_items.meal_id = meals.id
+    WHERE meals.daily_log_id = p_daily_log_id
+  ) AS totals
+  WHERE daily_logs.id = p_daily_log_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 3. Triggers
+-- ============================================================
+-- These run as the function owner so recalculate_daily_log_totals can stay
+-- closed to direct calls from the app.
+CREATE OR REPLACE FUNCTION refresh_totals_for_meal_item()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_daily_log_id UUID;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    -- Misses when the meal itself is being deleted; the meals trigger covers that
+    SELECT daily_log_id INTO v_daily_log_id FROM meals WHERE id = OLD.meal_id;
+    IF FOUND THEN
+      PERFORM recalculate_daily_log_totals(v_daily_log_id);
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.meal_id IS DISTINCT FROM OLD.meal_id) THEN
+    SELECT daily_log_id INTO v_daily_log_id FROM meals WHERE id = NEW.meal_id;
+    IF FOUND THEN
+      PERFORM recalculate_daily_log_totals(v_daily_log_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_daily_totals_on_meal_item
+  AFTER INSERT OR UPDATE OR DELETE ON meal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_totals_for_meal_item();
+
+CREATE OR REPLACE FUNCTION refresh_totals_for_meal()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM recalculate_daily_log_totals(OLD.daily_log_id);
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM recalculate_daily_log_totals(NEW.daily_log_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_daily_totals_on_meal
+  AFTER DELETE OR UPDATE OF daily_log_id ON meals
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_totals_for_meal();
+
+-- Water added by hand changes water_intake straight away
+CREATE OR REPLACE FUNCTION apply_extra_water()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.water_intake := COALESCE(NEW.water_intake, 0) - COALESCE(OLD.extra_water, 0) + NEW.extra_water;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_daily_log_extra_water
+  BEFORE UPDATE OF extra_water ON daily_logs
+  FOR EACH ROW
+  WHEN (NEW.extra_water IS DISTINCT FROM OLD.extra_water)
+  EXECUTE FUNCTION apply_extra_water();
+
+-- ============================================================
+-- 4. One-off repair
+-- ============================================================
+-- Recalculates every log (or one user's logs) and returns how many totals
+-- were wrong. Not callable from the app.
+CREATE OR REPLACE FUNCTION repair_daily_log_totals(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_log RECORD;
+  v_before daily_logs%ROWTYPE;
+  v_after daily_logs%ROWTYPE;
+  v_repaired INTEGER := 0;
+BEGIN
+  FOR v_log IN
+    SELECT id FROM daily_logs WHERE p_user_id IS NULL OR user_id = p_user_id
+  LOOP
+    SELECT * INTO v_before FROM daily_logs WHERE id = v_log.id;
+    PERFORM recalculate_daily_log_totals(v_log.id);
+    SELECT * INTO v_after FROM daily_logs WHERE id = v_log.id;
+
+    IF (v_before.total_calories, v_before.total_protein, v_before.total_carbs, v_before.total_fat,
+        v_before.total_fiber, v_before.water_intake, v_before.total_sodium, v_before.total_sugar,
+        v_before.total_saturated_fat, v_before.total_potassium, v_before.total_cholesterol)
+      IS DISTINCT FROM
+       (v_after.total_calories, v_after.total_protein, v_after.total_carbs, v_after.total_fat,
+        v_after.total_fiber, v_after.water_intake, v_after.total_sodium, v_after.total_sugar,
+        v_after.total_saturated_fat, v_after.total_potassium, v_after.total_cholesterol)
+    THEN
+      v_repaired := v_repaired + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_repaired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION recalculate_daily_log_totals(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION repair_daily_log_totals(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Fix every existing log now
+SELECT repair_daily_log_totals() AS logs_repaired;
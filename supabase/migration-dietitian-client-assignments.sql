@@ -0,0 +1,198 @@
+-- Migration: Explicit dietitian–client assignments
+-- Run this in your Supabase SQL editor after migration-lock-and-client-notes.sql
+--
+-- Replaces the "any dietitian can see every client" policies with access that
+-- is granted per client through an invite the client has accepted.
+
+-- ============================================================
+-- 1. Assignment table
+-- ============================================================
+CREATE TYPE assignment_status AS ENUM ('pending', 'active', 'revoked');
+
+CREATE TABLE dietitian_clients (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  dietitian_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status assignment_status NOT NULL DEFAULT 'pending',
+  invited_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (dietitian_id <> client_id)
+);
+
+-- Only one open (pending or active) relationship per dietitian/client pair
+CREATE UNIQUE INDEX idx_dietitian_clients_open_pair
+  ON dietitian_clients(dietitian_id, client_id)
+  WHERE status <> 'revoked';
+
+-- A client has at most one active dietitian
+CREATE UNIQUE INDEX idx_dietitian_clients_active_client
+  ON dietitian_clients(client_id)
+  WHERE status = 'active';
+
+CREATE INDEX idx_dietitian_clients_dietitian_id ON dietitian_clients(dietitian_id);
+CREATE INDEX idx_dietitian_clients_client_id ON dietitian_clients(client_id);
+
+CREATE TRIGGER update_dietitian_clients_updated_at
+  BEFORE UPDATE ON dietitian_clients
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Denormalized pointer so the UI can show a client's dietitian without a join
+ALTER TABLE user_profiles
+ADD COLUMN dietitian_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- 2. Helper used by every "assigned dietitian" policy
+-- ============================================================
+CREATE OR REPLACE FUNCTION is_dietitian_of(p_client_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM dietitian_clients
+    WHERE dietitian_clients.dietitian_id = auth.uid()
+    AND dietitian_clients.client_id = p_client_id
+    AND dietitian_clients.status = 'active'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 3. Status transitions
+-- ============================================================
+-- pending -> active   (client accepts)
+-- pending -> revoked  (client declines or dietitian cancels)
+-- active  -> revoked  (either party ends the relationship)
+CREATE OR REPLACE FUNCTION validate_dietitian_client_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.dietitian_id <> OLD.dietitian_id OR NEW.client_id <> OLD.client_id THEN
+    RAISE EXCEPTION 'Assignments cannot be moved to another dietitian or client';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'revoked' THEN
+    RAISE EXCEPTION 'A revoked assignment cannot be reopened; send a new invite';
+  END IF;
+
+  IF NEW.status = 'active' THEN
+    IF OLD.status <> 'pending' OR auth.uid() <> NEW.client_id THEN
+      RAISE EXCEPTION 'Only the invited client can accept an invite';
+    END IF;
+    NEW.responded_at = NOW();
+  ELSIF NEW.status = 'revoked' THEN
+    IF OLD.status = 'pending' AND auth.uid() = NEW.client_id THEN
+      NEW.responded_at = NOW();
+    END IF;
+    NEW.revoked_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_dietitian_client_update
+  BEFORE UPDATE ON dietitian_clients
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_dietitian_client_update();
+
+-- Keep user_profiles.dietitian_id in step with the active assignment
+CREATE OR REPLACE FUNCTION sync_profile_dietitian()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE user_profiles
+  SET dietitian_id = (
+    SELECT dietitian_id FROM dietitian_clients
+    WHERE client_id = NEW.client_id
+    AND status = 'active'
+  )
+  WHERE user_id = NEW.client_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_profile_dietitian
+  AFTER INSERT OR UPDATE OF status ON dietitian_clients
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_profile_dietitian();
+
+-- ============================================================
+-- 4. RLS POLICIES: dietitian_clients
+-- ============================================================
+ALTER TABLE dietitian_clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parties can view their assignments"
+  ON dietitian_clients FOR SELECT
+  USING (auth.uid() = dietitian_id OR auth.uid() = client_id);
+
+CREATE POLICY "Dietitians can invite clients"
+  ON dietitian_clients FOR INSERT
+  WITH CHECK (
+    auth.uid() = dietitian_id
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.role = 'dietitian'
+    )
+  );
+
+CREATE POLICY "Parties can respond to or revoke assignments"
+  ON dietitian_clients FOR UPDATE
+  USING (auth.uid() = dietitian_id OR auth.uid() = client_id);
+
+-- ============================================================
+-- 5. Rewrite client-data policies to require an active assignment
+-- ============================================================
+DROP POLICY IF EXISTS "Dietitians can view client weeks" ON weeks;
+DROP POLICY IF EXISTS "Dietitians can view client daily logs" ON daily_logs;
+DROP POLICY IF EXISTS "Dietitians can view client meals" ON meals;
+DROP POLICY IF EXISTS "Dietitians can view client meal items" ON meal_items;
+DROP POLICY IF EXISTS "Dietitians can view client weight logs" ON weight_logs;
+
+CREATE POLICY "Assigned dietitians can view client weeks"
+  ON weeks FOR SELECT
+  USING (is_dietitian_of(user_id));
+
+CREATE POLICY "Assigned dietitians can view client daily logs"
+  ON daily_logs FOR SELECT
+  USING (is_dietitian_of(user_id));
+
+CREATE POLICY "Assigned dietitians can view client meals"
+  ON meals FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_logs
+      WHERE daily_logs.id = meals.daily_log_id
+      AND is_dietitian_of(daily_logs.user_id)
+    )
+  );
+
+CREATE POLICY "Assigned dietitians can view client meal items"
+  ON meal_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM meals
+      JOIN daily_logs ON daily_logs.id = meals.daily_log_id
+      WHERE meals.id = meal_items.meal_id
+      AND is_dietitian_of(daily_logs.user_id)
+    )
+  );
+
+CREATE POLICY "Assigned dietitians can view client weight logs"
+  ON weight_logs FOR SELECT
+  USING (is_dietitian_of(user_id));
+
+-- ============================================================
+-- 6. Backfill (optional)
+-- ============================================================
+-- If you had a single dietitian before this migration, keep their access by
+-- activating an assignment to every existing client:
+--
+-- INSERT INTO dietitian_clients (dietitian_id, client_id, status, responded_at)
+-- SELECT d.user_id, c.user_id, 'active', NOW()
+-- FROM user_profiles d, user_profiles c
+-- WHERE d.role = 'dietitian' AND c.role = 'client';
@@ -0,0 +1,68 @@
+-- Migration: Local copy of USDA FoodData Central
+-- Run this in your Supabase SQL editor after migration-usda-cache.sql
+--
+-- Filled by scripts/import-fdc.mjs from a downloaded FoodData Central release
+-- (Foundation, SR Legacy and Branded foods). /api/food-search searches it with
+-- full-text ranking when FOOD_SEARCH_SOURCE=local, and falls back to it when
+-- the USDA API can't be reached, so search works with no network or API key.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+CREATE TABLE fdc_foods (
+  fdc_id BIGINT PRIMARY KEY,
+  data_type TEXT NOT NULL CHECK (data_type IN ('foundation', 'sr_legacy', 'branded')),
+  description TEXT NOT NULL,
+  brand_owner TEXT,
+  gtin_upc TEXT,
+  -- Nutrients per 100g, as in NormalizedFood
+  calories DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  protein DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  carbs DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  fat DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  fiber DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sodium DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sugar DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  saturated_fat DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  potassium DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  cholesterol DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  serving_size DECIMAL(10, 2),
+  serving_size_unit TEXT,
+  portions JSONB NOT NULL DEFAULT '[]',  -- FoodPortion[]
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', description), 'A') ||
+    setweight(to_tsvector('english', COALESCE(brand_owner, '')), 'B')
+  ) STORED,
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_fdc_foods_search_vector ON fdc_foods USING GIN(search_vector);
+
+-- ============================================================
+-- 2. Ranked search
+-- ============================================================
+-- Best text match first. Foundation and SR Legacy entries are generic foods
+-- with portion data, so they are boosted over branded products; shorter
+-- descriptions ("Bananas, raw") win ties over long ones.
+CREATE OR REPLACE FUNCTION search_fdc_foods(p_query TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS SETOF fdc_foods AS $$
+  SELECT fdc_foods.*
+  FROM fdc_foods, websearch_to_tsquery('english', p_query) AS query
+  WHERE fdc_foods.search_vector @@ query
+  ORDER BY
+    ts_rank_cd(fdc_foods.search_vector, query, 1) *
+      CASE fdc_foods.data_type WHEN 'foundation' THEN 1.5 WHEN 'sr_legacy' THEN 1.3 ELSE 1 END DESC,
+    length(fdc_foods.description),
+    fdc_foods.fdc_id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+-- Public reference data: anyone may read it, only the importer (service role) writes
+ALTER TABLE fdc_foods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read FoodData Central foods"
+  ON fdc_foods FOR SELECT
+  USING (true);
@@ -0,0 +1,20 @@
+-- Migration: Barcodes on saved foods
+-- Run this in your Supabase SQL editor after migration-fdc-foods.sql
+--
+-- foods.upc holds the barcode of a packaged food as a 14-digit GTIN (UPC-A and
+-- EAN-13 codes zero-padded, see lib/utils/barcode.ts), so a scanned or typed
+-- barcode resolves straight to the user's own entry before asking USDA.
+
+-- ============================================================
+-- 1. Saved foods
+-- ============================================================
+ALTER TABLE foods
+ADD COLUMN upc TEXT CHECK (upc IS NULL OR upc ~ '^[0-9]{14}$');
+
+-- One saved food per barcode for each user
+CREATE UNIQUE INDEX idx_foods_user_upc ON foods(user_id, upc) WHERE upc IS NOT NULL;
+
+-- ============================================================
+-- 2. Imported FoodData Central foods
+-- ============================================================
+CREATE INDEX idx_fdc_foods_gtin_upc ON fdc_foods(gtin_upc) WHERE gtin_upc IS NOT NULL;
@@ -0,0 +1,107 @@
+-- Migration: Maintain food usage stats from logged meal items
+-- Run this in your Supabase SQL editor after migration-nutrition-labels.sql
+--
+-- foods.usage_count and foods.last_used_at are recalculated whenever a meal
+-- item linked to the food is logged, moved to another food or deleted, so the
+-- browser never writes them. Items logged before meal items were linked to
+-- foods are matched to the user's foods by name.
+
+-- ============================================================
+-- 1. Recalculate one food
+-- ============================================================
+-- SECURITY DEFINER so the stats stay correct however the item was written
+-- (e.g. copied from another day); it only counts the food's own items.
+CREATE OR REPLACE FUNCTION recalculate_food_usage(p_food_id UUID)
+RETURNS VOID AS $$
+  UPDATE foods
+  SET
+    usage_count = usage.item_count,
+    last_used_at = usage.last_logged
+  FROM (
+    SELECT COUNT(*)::INTEGER AS item_count, MAX(created_at) AS last_logged
+    FROM meal_items
+    WHERE food_id = p_food_id
+  ) AS usage
+  WHERE foods.id = p_food_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 2. Trigger
+-- ============================================================
+CREATE OR REPLACE FUNCTION refresh_usage_for_meal_item()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.food_id IS NOT NULL THEN
+    PERFORM recalculate_food_usage(OLD.food_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.food_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.food_id IS DISTINCT FROM OLD.food_id) THEN
+    PERFORM recalculate_food_usage(NEW.food_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_food_usage_on_meal_item
+  AFTER INSERT OR UPDATE OF food_id OR DELETE ON meal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_usage_for_meal_item();
+
+REVOKE EXECUTE ON FUNCTION recalculate_food_usage(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 3. Foods recently logged at a meal type
+-- ============================================================
+-- Runs as the caller, so RLS limits it to logs they can read
+CREATE OR REPLACE FUNCTION get_recent_foods_for_meal_type(
+  p_user_id UUID,
+  p_meal_type TEXT,
+  p_limit INTEGER DEFAULT 6
+)
+RETURNS SETOF foods AS $$
+  SELECT foods.*
+  FROM foods
+  JOIN (
+    SELECT meal_items.food_id, MAX(meal_items.created_at) AS last_logged
+    FROM meal_items
+    JOIN meals ON meals.id = meal_items.meal_id
+    JOIN daily_logs ON daily_logs.id = meals.daily_log_id
+    WHERE daily_logs.user_id = p_user_id
+      AND meals.meal_type = p_meal_type
+      AND meal_items.food_id IS NOT NULL
+    GROUP BY meal_items.food_id
+  ) AS recent ON recent.food_id = foods.id
+  WHERE foods.user_id = p_user_id
+  ORDER BY recent.last_logged DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_meal_items_food_id ON meal_items(food_id);
+
+-- ============================================================
+-- 4. Link existing items and fill in the stats
+-- ============================================================
+-- Linking an item to its food isn't a change to what was eaten, so locked days are let through
+ALTER TABLE meal_items DISABLE TRIGGER prevent_locked_meal_item_changes;
+
+UPDATE meal_items
+SET food_id = matches.food_id
+FROM (
+  SELECT DISTINCT ON (meal_items.id) meal_items.id AS item_id, foods.id AS food_id
+  FROM meal_items
+  JOIN meals ON meals.id = meal_items.meal_id
+  JOIN daily_logs ON daily_logs.id = meals.daily_log_id
+  JOIN foods ON foods.user_id = daily_logs.user_id
+    AND LOWER(foods.name) = LOWER(meal_items.food_name)
+  WHERE meal_items.food_id IS NULL
+    AND meal_items.recipe_id IS NULL
+  ORDER BY meal_items.id, foods.created_at
+) AS matches
+WHERE meal_items.id = matches.item_id;
+
+ALTER TABLE meal_items ENABLE TRIGGER prevent_locked_meal_item_changes;
+
+-- The update above refreshed every food with a linked item; this covers the rest
+SELECT recalculate_food_usage(id) FROM foods;
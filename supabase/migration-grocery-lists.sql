@@ -0,0 +1,67 @@
+-- Migration: Grocery lists
+-- Run this in your Supabase SQL editor after migration-meal-planner.sql
+--
+-- A grocery list is generated in the app from recipes (scaled to a number of
+-- servings) and saved foods, then stored so it can be checked off while
+-- shopping. `sources` records what the list was built from.
+
+-- ============================================================
+-- 1. Aisle for saved foods
+-- ============================================================
+-- NULL lets the app guess the aisle from the food's name
+ALTER TABLE foods
+ADD COLUMN category TEXT
+CHECK (category IN ('produce', 'meat_seafood', 'dairy_eggs', 'bakery', 'pantry', 'frozen', 'beverages', 'other'));
+
+-- ============================================================
+-- 2. Lists and their items
+-- ============================================================
+CREATE TABLE grocery_lists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sources JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE grocery_list_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  list_id UUID NOT NULL REFERENCES grocery_lists(id) ON DELETE CASCADE,
+  food_id UUID REFERENCES foods(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  amount TEXT NOT NULL DEFAULT '',
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('produce', 'meat_seafood', 'dairy_eggs', 'bakery', 'pantry', 'frozen', 'beverages', 'other')),
+  checked BOOLEAN NOT NULL DEFAULT false,
+  "order" INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_grocery_lists_user_id ON grocery_lists(user_id);
+CREATE INDEX idx_grocery_list_items_list_id ON grocery_list_items(list_id);
+
+CREATE TRIGGER update_grocery_lists_updated_at
+  BEFORE UPDATE ON grocery_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- 3. RLS Policies
+-- ============================================================
+ALTER TABLE grocery_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE grocery_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own grocery lists"
+  ON grocery_lists FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own grocery list items"
+  ON grocery_list_items FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM grocery_lists
+      WHERE grocery_lists.id = grocery_list_items.list_id
+      AND grocery_lists.user_id = auth.uid()
+    )
+  );
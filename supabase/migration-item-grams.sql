@@ -0,0 +1,71 @@
+-- Migration: Gram weights for items logged before weights were stored
+-- Run this in your Supabase SQL editor after migration-food-usage.sql
+--
+-- meal_items.grams was only written for new items, so sums over
+-- meal_item_quantities.grams left out everything logged earlier. This fills it
+-- in for items in a mass unit, and for cups, spoons, pieces and packages when
+-- the saved food the item was logged from knows those weights (portion_grams).
+-- Items without a food_id are matched to the owner's food by name.
+
+-- ============================================================
+-- 1. Grams for a quantity
+-- ============================================================
+-- Mirrors toGrams in lib/utils/nutrition.ts; NULL when the weight is unknown
+CREATE OR REPLACE FUNCTION item_grams(p_quantity DECIMAL, p_unit TEXT, p_weights JSONB)
+RETURNS DECIMAL AS $$
+  SELECT ROUND(p_quantity * CASE p_unit
+    WHEN 'g' THEN 1
+    WHEN 'oz' THEN 28.3495
+    WHEN 'lb' THEN 453.592
+    WHEN 'cup' THEN (p_weights->>'cup')::DECIMAL
+    WHEN 'tbsp' THEN (p_weights->>'cup')::DECIMAL / 16
+    WHEN 'tsp' THEN (p_weights->>'cup')::DECIMAL / 48
+    WHEN 'fl oz' THEN (p_weights->>'cup')::DECIMAL / 8
+    WHEN 'ml' THEN (p_weights->>'cup')::DECIMAL / 236.588
+    WHEN 'each' THEN (p_weights->>'each')::DECIMAL
+    WHEN 'package' THEN (p_weights->>'package')::DECIMAL
+  END, 2);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================
+-- 2. Backfill
+-- ============================================================
+-- Adding a weight isn't a change to what was eaten, so locked days are let through
+ALTER TABLE meal_items DISABLE TRIGGER prevent_locked_meal_item_changes;
+
+UPDATE meal_items
+SET grams = weighed.grams
+FROM (
+  SELECT DISTINCT ON (meal_items.id)
+    meal_items.id AS item_id,
+    item_grams(meal_items.quantity, meal_items.unit, foods.portion_grams) AS grams
+  FROM meal_items
+  JOIN meals ON meals.id = meal_items.meal_id
+  JOIN daily_logs ON daily_logs.id = meals.daily_log_id
+  LEFT JOIN foods ON foods.id = meal_items.food_id
+    OR (meal_items.food_id IS NULL
+      AND foods.user_id = daily_logs.user_id
+      AND LOWER(foods.name) = LOWER(meal_items.food_name))
+  WHERE meal_items.grams IS NULL
+    AND meal_items.quantity IS NOT NULL
+  ORDER BY meal_items.id, foods.created_at
+) AS weighed
+WHERE meal_items.id = weighed.item_id
+AND weighed.grams IS NOT NULL;
+
+ALTER TABLE meal_items ENABLE TRIGGER prevent_locked_meal_item_changes;
+
+UPDATE recipe_items
+SET grams = item_grams(recipe_items.quantity, recipe_items.unit, foods.portion_grams)
+FROM foods
+WHERE foods.id = recipe_items.food_id
+AND recipe_items.grams IS NULL
+AND recipe_items.quantity IS NOT NULL
+AND item_grams(recipe_items.quantity, recipe_items.unit, foods.portion_grams) IS NOT NULL;
+
+-- Items still without a weight, by unit (run again any time)
+SELECT unit, COUNT(*) AS items
+FROM meal_items
+WHERE grams IS NULL AND quantity IS NOT NULL
+GROUP BY unit
+ORDER BY items DESC;
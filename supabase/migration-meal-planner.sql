@@ -0,0 +1,59 @@
+-- Migration: Weekly meal planner
+-- Run this in your Supabase SQL editor after migration-meal-templates.sql
+--
+-- Planned entries sit on top of the existing weeks: each one schedules a
+-- saved food, a recipe or a meal template for a day and meal type. Nutrition
+-- is copied in when the entry is planned, so planned totals stay stable if the
+-- food or recipe is edited later. Logging an entry as eaten copies it into
+-- meal_items and records the meal it went into.
+
+-- ============================================================
+-- 1. Planned entries
+-- ============================================================
+CREATE TABLE meal_plan_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  week_id UUID NOT NULL REFERENCES weeks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_date DATE NOT NULL,
+  meal_type TEXT NOT NULL CHECK (meal_type IN ('breakfast', 'lunch', 'snack', 'dinner', 'bt_snack')),
+  food_id UUID REFERENCES foods(id) ON DELETE SET NULL,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL,
+  -- A planned template has nothing to log once the template is gone
+  template_id UUID REFERENCES meal_templates(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  amount TEXT,
+  quantity DECIMAL(10, 3),
+  unit TEXT CHECK (unit IN ('cup', 'tbsp', 'tsp', 'ml', 'fl oz', 'g', 'oz', 'lb', 'each', 'package', 'serving')),
+  calories INTEGER NOT NULL DEFAULT 0,
+  carbs DECIMAL(10, 2) DEFAULT 0,
+  fat DECIMAL(10, 2) DEFAULT 0,
+  fiber DECIMAL(10, 2) DEFAULT 0,
+  protein DECIMAL(10, 2) DEFAULT 0,
+  water DECIMAL(10, 2) DEFAULT 0,
+  sodium DECIMAL(10, 2) DEFAULT 0,
+  sugar DECIMAL(10, 2) DEFAULT 0,
+  saturated_fat DECIMAL(10, 2) DEFAULT 0,
+  potassium DECIMAL(10, 2) DEFAULT 0,
+  cholesterol DECIMAL(10, 2) DEFAULT 0,
+  "order" INTEGER DEFAULT 0,
+  logged_meal_id UUID REFERENCES meals(id) ON DELETE SET NULL,
+  logged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (num_nonnulls(food_id, recipe_id, template_id) <= 1)
+);
+
+CREATE INDEX idx_meal_plan_entries_user_date ON meal_plan_entries(user_id, plan_date);
+CREATE INDEX idx_meal_plan_entries_week_id ON meal_plan_entries(week_id);
+
+-- ============================================================
+-- 2. RLS Policies
+-- ============================================================
+ALTER TABLE meal_plan_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own meal plan"
+  ON meal_plan_entries FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Assigned dietitians can view client meal plans"
+  ON meal_plan_entries FOR SELECT
+  USING (is_dietitian_of(user_id));
@@ -0,0 +1,77 @@
+-- Migration: Saved meal templates
+-- Run this in your Supabase SQL editor after migration-micronutrients.sql
+--
+-- A template is a combination a client re-logs as a whole ("oatmeal + banana
+-- + coffee"). Unlike a recipe it has no servings: its items are copied into a
+-- meal exactly as they were saved.
+
+-- ============================================================
+-- 1. Tables
+-- ============================================================
+CREATE TABLE meal_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  meal_type TEXT NOT NULL CHECK (meal_type IN ('breakfast', 'lunch', 'snack', 'dinner', 'bt_snack')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE meal_template_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES meal_templates(id) ON DELETE CASCADE,
+  food_id UUID REFERENCES foods(id) ON DELETE SET NULL,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL,
+  food_name TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  quantity DECIMAL(10, 3),
+  unit TEXT CHECK (unit IN ('cup', 'tbsp', 'tsp', 'ml', 'fl oz', 'g', 'oz', 'lb', 'each', 'package', 'serving')),
+  grams DECIMAL(10, 2),
+  calories INTEGER NOT NULL,
+  carbs DECIMAL(10, 2),
+  fat DECIMAL(10, 2),
+  fiber DECIMAL(10, 2),
+  protein DECIMAL(10, 2),
+  water DECIMAL(10, 2) DEFAULT 0,
+  sodium DECIMAL(10, 2) DEFAULT 0,
+  sugar DECIMAL(10, 2) DEFAULT 0,
+  saturated_fat DECIMAL(10, 2) DEFAULT 0,
+  potassium DECIMAL(10, 2) DEFAULT 0,
+  cholesterol DECIMAL(10, 2) DEFAULT 0,
+  notes TEXT,
+  "order" INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_meal_templates_user_id ON meal_templates(user_id);
+CREATE INDEX idx_meal_template_items_template_id ON meal_template_items(template_id);
+
+CREATE TRIGGER update_meal_templates_updated_at
+  BEFORE UPDATE ON meal_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER fill_meal_template_item_quantity
+  BEFORE INSERT OR UPDATE OF amount ON meal_template_items
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_item_quantity();
+
+-- ============================================================
+-- 2. RLS Policies
+-- ============================================================
+ALTER TABLE meal_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meal_template_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own meal templates"
+  ON meal_templates FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own meal template items"
+  ON meal_template_items FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM meal_templates
+      WHERE meal_templates.id = meal_template_items.template_id
+      AND meal_templates.user_id = auth.uid()
+    )
+  );
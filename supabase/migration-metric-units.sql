@@ -0,0 +1,147 @@
+-- Migration: Metric and weight units for meal and recipe items
+-- Run this in your Supabase SQL editor after migration-structured-quantities.sql
+--
+-- Adds ml, fl oz, g, oz and lb as item units, and stores the gram weights of a
+-- saved food's cup, piece and package so the item forms can convert between them.
+
+-- ============================================================
+-- 1. Allowed units
+-- ============================================================
+ALTER TABLE meal_items DROP CONSTRAINT meal_items_unit_check;
+ALTER TABLE recipe_items DROP CONSTRAINT recipe_items_unit_check;
+
+ALTER TABLE meal_items
+ADD CONSTRAINT meal_items_unit_check
+CHECK (unit IN ('cup', 'tbsp', 'tsp', 'ml', 'fl oz', 'g', 'oz', 'lb', 'each', 'package', 'serving'));
+
+ALTER TABLE recipe_items
+ADD CONSTRAINT recipe_items_unit_check
+CHECK (unit IN ('cup', 'tbsp', 'tsp', 'ml', 'fl oz', 'g', 'oz', 'lb', 'each', 'package', 'serving'));
+
+-- ============================================================
+-- 2. Portion gram weights on saved foods
+-- ============================================================
+-- e.g. {"cup": 81, "each": null, "package": null}. Nutrition on the food is
+-- for its default_amount, which may now be a weight such as "100 g".
+ALTER TABLE foods
+ADD COLUMN portion_grams JSONB;
+
+-- ============================================================
+-- 3. Amount parser
+-- ============================================================
+-- Mirrors parseAmount in lib/utils/quantity.ts
+CREATE OR REPLACE FUNCTION parse_amount(p_amount TEXT, OUT quantity DECIMAL, OUT unit TEXT)
+AS $$
+DECLARE
+  v_text TEXT := lower(trim(p_amount));
+  v_match TEXT[];
+  v_quantity DECIMAL;
+  v_unit TEXT;
+BEGIN
+  v_match := regexp_match(v_text, '^(?:(\d+)\s+)?(\d+)/(\d+)\s*(.*)$');
+  IF v_match IS NOT NULL THEN
+    IF v_match[3]::DECIMAL = 0 THEN
+      RETURN;
+    END IF;
+    v_quantity := COALESCE(v_match[1]::DECIMAL, 0) + v_match[2]::DECIMAL / v_match[3]::DECIMAL;
+    v_unit := v_match[4];
+  ELSE
+    v_match := regexp_match(v_text, '^(\d+(?:\.\d+)?|\.\d+)\s*(.*)$');
+    IF v_match IS NULL THEN
+      RETURN;
+    END IF;
+    v_quantity := v_match[1]::DECIMAL;
+    v_unit := v_match[2];
+  END IF;
+
+  v_unit := regexp_replace(v_unit, '\s+', ' ', 'g');
+
+  unit := CASE
+    WHEN v_unit IN ('cup', 'cups', 'c') THEN 'cup'
+    WHEN v_unit IN ('tbsp', 'tbs', 'tablespoon', 'tablespoons') THEN 'tbsp'
+    WHEN v_unit IN ('tsp', 'teaspoon', 'teaspoons') THEN 'tsp'
+    WHEN v_unit IN ('ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres') THEN 'ml'
+    WHEN v_unit IN ('fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces') THEN 'fl oz'
+    WHEN v_unit IN ('g', 'gram', 'grams') THEN 'g'
+    WHEN v_unit IN ('oz', 'ounce', 'ounces') THEN 'oz'
+    WHEN v_unit IN ('lb', 'lbs', 'pound', 'pounds') THEN 'lb'
+    WHEN v_unit IN ('', 'each', 'ea', 'whole') THEN 'each'
+    WHEN v_unit IN ('package', 'packages', 'pkg') THEN 'package'
+    WHEN v_unit IN ('serving', 'servings') THEN 'serving'
+  END;
+
+  IF unit IS NOT NULL THEN
+    quantity := ROUND(v_quantity, 3);
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Grams for a quantity in a mass unit; NULL for units that need a food's weights
+CREATE OR REPLACE FUNCTION mass_unit_grams(p_quantity DECIMAL, p_unit TEXT)
+RETURNS DECIMAL AS $$
+  SELECT ROUND(p_quantity * CASE p_unit
+    WHEN 'g' THEN 1
+    WHEN 'oz' THEN 28.3495
+    WHEN 'lb' THEN 453.592
+  END, 2);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same rules as before, plus weights for items whose unit is a mass
+CREATE OR REPLACE FUNCTION fill_item_quantity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parsed RECORD;
+BEGIN
+  IF NEW.amount IS NOT NULL AND (
+    NEW.quantity IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.amount IS DISTINCT FROM OLD.amount AND NEW.quantity IS NOT DISTINCT FROM OLD.quantity)
+  ) THEN
+    SELECT * INTO v_parsed FROM parse_amount(NEW.amount);
+    NEW.quantity := v_parsed.quantity;
+    NEW.unit := v_parsed.unit;
+    -- A re-typed amount makes any stored weight stale
+    IF TG_OP = 'UPDATE' THEN
+      NEW.grams := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.grams IS NULL AND NEW.quantity IS NOT NULL THEN
+    NEW.grams := mass_unit_grams(NEW.quantity, NEW.unit);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================
+-- 4. Backfill items written in metric or weight units
+-- ============================================================
+-- Amounts like "150 g" or "8 oz" were left unparsed by the first migration.
+UPDATE meal_items
+SET quantity = parsed.quantity, unit = parsed.unit
+FROM (
+  SELECT meal_items.id, p.quantity, p.unit
+  FROM meal_items
+  CROSS JOIN LATERAL parse_amount(meal_items.amount) AS p
+  WHERE meal_items.quantity IS NULL
+) AS parsed
+WHERE meal_items.id = parsed.id
+AND parsed.quantity IS NOT NULL;
+
+UPDATE recipe_items
+SET quantity = parsed.quantity, unit = parsed.unit
+FROM (
+  SELECT recipe_items.id, p.quantity, p.unit
+  FROM recipe_items
+  CROSS JOIN LATERAL parse_amount(recipe_items.amount) AS p
+  WHERE recipe_items.quantity IS NULL
+) AS parsed
+WHERE recipe_items.id = parsed.id
+AND parsed.quantity IS NOT NULL;
+
+UPDATE meal_items
+SET grams = mass_unit_grams(quantity, unit)
+WHERE grams IS NULL AND unit IN ('g', 'oz', 'lb');
+
+UPDATE recipe_items
+SET grams = mass_unit_grams(quantity, unit)
+WHERE grams IS NULL AND unit IN ('g', 'oz', 'lb');
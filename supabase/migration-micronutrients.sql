@@ -0,0 +1,51 @@
+-- Migration: Sodium, sugar, saturated fat, potassium and cholesterol
+-- Run this in your Supabase SQL editor
+--
+-- Sodium, potassium and cholesterol are in mg; sugar and saturated fat in g.
+-- Goals for these live in user_profiles.daily_goals as optional keys
+-- (sodium, sugar, saturated_fat, potassium, cholesterol), so no change is
+-- needed there.
+
+-- ============================================================
+-- 1. Saved foods (per serving)
+-- ============================================================
+ALTER TABLE foods
+ADD COLUMN IF NOT EXISTS sodium_per_serving DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS sugar_per_serving DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS saturated_fat_per_serving DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS potassium_per_serving DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS cholesterol_per_serving DECIMAL(10, 2);
+
+-- ============================================================
+-- 2. Meal and recipe items
+-- ============================================================
+ALTER TABLE meal_items
+ADD COLUMN IF NOT EXISTS sodium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS sugar DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS saturated_fat DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS potassium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cholesterol DECIMAL(10, 2) DEFAULT 0;
+
+ALTER TABLE recipe_items
+ADD COLUMN IF NOT EXISTS sodium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS sugar DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS saturated_fat DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS potassium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cholesterol DECIMAL(10, 2) DEFAULT 0;
+
+-- ============================================================
+-- 3. Recipe and daily totals
+-- ============================================================
+ALTER TABLE recipes
+ADD COLUMN IF NOT EXISTS total_sodium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_sugar DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_saturated_fat DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_potassium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_cholesterol DECIMAL(10, 2) DEFAULT 0;
+
+ALTER TABLE daily_logs
+ADD COLUMN IF NOT EXISTS total_sodium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_sugar DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_saturated_fat DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_potassium DECIMAL(10, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_cholesterol DECIMAL(10, 2) DEFAULT 0;
@@ -0,0 +1,88 @@
+-- Migration: Attach notes and replies to a day, meal or meal item
+-- Run this in your Supabase SQL editor after migration-note-threads.sql
+
+-- ============================================================
+-- 1. Reference columns
+-- ============================================================
+-- All three are optional. A meal item reference implies its meal, and a meal
+-- reference implies its day; the trigger below fills in the wider columns.
+ALTER TABLE dietitian_notes
+ADD COLUMN log_date DATE,
+ADD COLUMN meal_id UUID REFERENCES meals(id) ON DELETE SET NULL,
+ADD COLUMN meal_item_id UUID REFERENCES meal_items(id) ON DELETE SET NULL;
+
+ALTER TABLE note_replies
+ADD COLUMN log_date DATE,
+ADD COLUMN meal_id UUID REFERENCES meals(id) ON DELETE SET NULL,
+ADD COLUMN meal_item_id UUID REFERENCES meal_items(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_dietitian_notes_client_log_date ON dietitian_notes(client_id, log_date);
+CREATE INDEX idx_dietitian_notes_meal_id ON dietitian_notes(meal_id);
+CREATE INDEX idx_dietitian_notes_meal_item_id ON dietitian_notes(meal_item_id);
+CREATE INDEX idx_note_replies_meal_id ON note_replies(meal_id);
+CREATE INDEX idx_note_replies_meal_item_id ON note_replies(meal_item_id);
+
+-- ============================================================
+-- 2. Fill in and validate references
+-- ============================================================
+-- Referenced meals must belong to the client who owns the thread. When a
+-- meal or item is later deleted its column is nulled, but log_date is kept so
+-- the note still points at the right day.
+CREATE OR REPLACE FUNCTION resolve_note_reference()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_thread_client UUID;
+  v_log_owner UUID;
+  v_log_date DATE;
+  v_meal_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'note_replies' THEN
+    SELECT client_id INTO v_thread_client
+    FROM dietitian_notes
+    WHERE id = NEW.note_id;
+  ELSE
+    v_thread_client := NEW.client_id;
+  END IF;
+
+  -- Lookups can miss while a meal and its items are being cascade-deleted;
+  -- in that case keep whatever is already on the row.
+  IF NEW.meal_item_id IS NOT NULL THEN
+    SELECT meal_id INTO v_meal_id
+    FROM meal_items
+    WHERE id = NEW.meal_item_id;
+
+    IF FOUND THEN
+      NEW.meal_id := v_meal_id;
+    END IF;
+  END IF;
+
+  IF NEW.meal_id IS NOT NULL THEN
+    SELECT daily_logs.user_id, daily_logs.log_date INTO v_log_owner, v_log_date
+    FROM meals
+    JOIN daily_logs ON daily_logs.id = meals.daily_log_id
+    WHERE meals.id = NEW.meal_id;
+
+    IF NOT FOUND THEN
+      RETURN NEW;
+    END IF;
+
+    IF v_log_owner IS DISTINCT FROM v_thread_client THEN
+      RAISE EXCEPTION 'Notes can only reference meals logged by the client in this thread';
+    END IF;
+
+    NEW.log_date := v_log_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER resolve_dietitian_note_reference
+  BEFORE INSERT OR UPDATE OF log_date, meal_id, meal_item_id ON dietitian_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION resolve_note_reference();
+
+CREATE TRIGGER resolve_note_reply_reference
+  BEFORE INSERT OR UPDATE OF log_date, meal_id, meal_item_id ON note_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION resolve_note_reference();
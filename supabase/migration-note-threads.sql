@@ -0,0 +1,103 @@
+-- Migration: Per-client note threads
+-- Run this in your Supabase SQL editor after migration-dietitian-client-assignments.sql
+--
+-- Every note now belongs to one client's thread. Only that client and their
+-- assigned dietitian can read the thread or reply to it.
+
+-- ============================================================
+-- 1. Thread owner column
+-- ============================================================
+ALTER TABLE dietitian_notes
+ADD COLUMN client_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_dietitian_notes_client_id ON dietitian_notes(client_id);
+
+-- Notes written by clients belong to their own thread
+UPDATE dietitian_notes
+SET client_id = author_id
+WHERE client_id IS NULL
+AND EXISTS (
+  SELECT 1 FROM user_profiles
+  WHERE user_profiles.user_id = dietitian_notes.author_id
+  AND user_profiles.role = 'client'
+);
+
+-- Notes written by a dietitian with exactly one active client go to that client.
+-- Anything left with a NULL client_id stays visible to its author only.
+UPDATE dietitian_notes
+SET client_id = (
+  SELECT client_id FROM dietitian_clients
+  WHERE dietitian_clients.dietitian_id = dietitian_notes.author_id
+  AND dietitian_clients.status = 'active'
+)
+WHERE client_id IS NULL
+AND (
+  SELECT COUNT(*) FROM dietitian_clients
+  WHERE dietitian_clients.dietitian_id = dietitian_notes.author_id
+  AND dietitian_clients.status = 'active'
+) = 1;
+
+-- ============================================================
+-- 2. Helper: is the current user a participant in a client's thread?
+-- ============================================================
+CREATE OR REPLACE FUNCTION can_access_note_thread(p_client_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT auth.uid() = p_client_id OR is_dietitian_of(p_client_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 3. RLS POLICIES: dietitian_notes
+-- ============================================================
+DROP POLICY IF EXISTS "Authenticated users can read notes" ON dietitian_notes;
+DROP POLICY IF EXISTS "Authenticated users can create notes" ON dietitian_notes;
+DROP POLICY IF EXISTS "Users can update own notes" ON dietitian_notes;
+
+CREATE POLICY "Thread participants can read notes"
+  ON dietitian_notes FOR SELECT
+  USING (
+    can_access_note_thread(client_id)
+    OR (client_id IS NULL AND auth.uid() = author_id)
+  );
+
+CREATE POLICY "Thread participants can create notes"
+  ON dietitian_notes FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_id
+    AND can_access_note_thread(client_id)
+  );
+
+CREATE POLICY "Users can update own notes"
+  ON dietitian_notes FOR UPDATE
+  USING (auth.uid() = author_id)
+  WITH CHECK (
+    auth.uid() = author_id
+    AND can_access_note_thread(client_id)
+  );
+
+-- ============================================================
+-- 4. RLS POLICIES: note_replies
+-- ============================================================
+-- The subquery on dietitian_notes is itself filtered by the policies above,
+-- so a reply is visible exactly when its note is.
+DROP POLICY IF EXISTS "Authenticated users can read replies" ON note_replies;
+DROP POLICY IF EXISTS "Authenticated users can create replies" ON note_replies;
+
+CREATE POLICY "Thread participants can read replies"
+  ON note_replies FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM dietitian_notes
+      WHERE dietitian_notes.id = note_replies.note_id
+    )
+  );
+
+CREATE POLICY "Thread participants can create replies"
+  ON note_replies FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_id
+    AND EXISTS (
+      SELECT 1 FROM dietitian_notes
+      WHERE dietitian_notes.id = note_replies.note_id
+      AND can_access_note_thread(dietitian_notes.client_id)
+    )
+  );
@@ -0,0 +1,12 @@
+-- Migration: Nutrition Facts labels on saved foods
+-- Run this in your Supabase SQL editor after migration-food-barcodes.sql
+--
+-- Foods entered from a package label keep the whole label (serving size in
+-- household units and grams, and every nutrient line) in nutrition_label. The
+-- usual columns are filled from it too: default_amount and the *_per_serving
+-- values per 1 cup for volume servings (otherwise per the printed serving), and
+-- portion_grams with the cup, piece and package weights the label implies, so
+-- logging in grams, pieces or cups scales correctly.
+
+ALTER TABLE foods
+ADD COLUMN nutrition_label JSONB;
@@ -0,0 +1,30 @@
+-- Migration: Recipe water, cooked weight and fractional servings
+-- Run this in your Supabase SQL editor after migration-grocery-lists.sql
+--
+-- The recipe forms already write recipe_items.water and recipes.total_water;
+-- this makes sure the columns exist. cooked_weight_grams is the weight of the
+-- finished dish, so a portion can be logged by weight ("350 g of a 1.4 kg pot").
+
+-- ============================================================
+-- 1. Water on recipes and their ingredients
+-- ============================================================
+ALTER TABLE recipe_items
+ADD COLUMN IF NOT EXISTS water DECIMAL(10, 2) DEFAULT 0;
+
+ALTER TABLE recipes
+ADD COLUMN IF NOT EXISTS total_water DECIMAL(10, 2) DEFAULT 0;
+
+UPDATE recipes
+SET total_water = COALESCE((
+  SELECT SUM(recipe_items.water)
+  FROM recipe_items
+  WHERE recipe_items.recipe_id = recipes.id
+), 0)
+WHERE total_water IS NULL OR total_water = 0;
+
+-- ============================================================
+-- 2. Cooked weight
+-- ============================================================
+ALTER TABLE recipes
+ADD COLUMN cooked_weight_grams DECIMAL(10, 2)
+CHECK (cooked_weight_grams IS NULL OR cooked_weight_grams > 0);
@@ -0,0 +1,77 @@
+-- Migration: Recipes shared by a dietitian with their clients
+-- Run this in your Supabase SQL editor after migration-recipe-versions.sql
+--
+-- A dietitian's own recipes are their library. Sharing one with a client lets
+-- the client view and log it, but only the dietitian can edit it. can_copy only
+-- decides whether the app offers to copy it into the client's own recipes; it
+-- isn't enforced here, since a client who can see a recipe can always retype it.
+-- Shares stop working once the assignment ends.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+CREATE TABLE recipe_shares (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recipe_id UUID NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  dietitian_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  can_copy BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (recipe_id, client_id)
+);
+
+CREATE INDEX idx_recipe_shares_client_id ON recipe_shares(client_id);
+
+-- ============================================================
+-- 2. Helpers
+-- ============================================================
+-- SECURITY DEFINER so the recipes policies below can look at recipe_shares
+-- (and recipe_shares at recipes) without the policies recursing
+CREATE OR REPLACE FUNCTION is_recipe_shared_with_me(p_recipe_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM recipe_shares
+    JOIN dietitian_clients
+      ON dietitian_clients.dietitian_id = recipe_shares.dietitian_id
+      AND dietitian_clients.client_id = recipe_shares.client_id
+    WHERE recipe_shares.recipe_id = p_recipe_id
+    AND recipe_shares.client_id = auth.uid()
+    AND dietitian_clients.status = 'active'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION owns_recipe(p_recipe_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM recipes
+    WHERE id = p_recipe_id
+    AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- 3. RLS POLICIES
+-- ============================================================
+ALTER TABLE recipe_shares ENABLE ROW LEVEL SECURITY;
+
+-- A dietitian can only share their own recipes, and only with active clients
+CREATE POLICY "Dietitians can manage own recipe shares"
+  ON recipe_shares FOR ALL
+  USING (auth.uid() = dietitian_id)
+  WITH CHECK (
+    auth.uid() = dietitian_id
+    AND is_dietitian_of(client_id)
+    AND owns_recipe(recipe_id)
+  );
+
+CREATE POLICY "Clients can view recipes shared with them"
+  ON recipe_shares FOR SELECT
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Clients can view shared recipes"
+  ON recipes FOR SELECT
+  USING (is_recipe_shared_with_me(id));
+
+CREATE POLICY "Clients can view shared recipe items"
+  ON recipe_items FOR SELECT
+  USING (is_recipe_shared_with_me(recipe_id));
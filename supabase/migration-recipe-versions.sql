@@ -0,0 +1,193 @@
+-- Migration: Recipe versions
+-- Run this in your Supabase SQL editor after migration-recipe-scaling.sql
+--
+-- recipes and recipe_items stay the editable working copy. Every save also
+-- snapshots them into a numbered version, and logged meal items point at the
+-- version they were logged with, so editing a recipe no longer makes past logs
+-- and the recipe drift apart silently.
+
+-- ============================================================
+-- 1. Tables
+-- ============================================================
+CREATE TABLE recipe_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recipe_id UUID NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  servings INTEGER NOT NULL,
+  cooked_weight_grams DECIMAL(10, 2),
+  notes TEXT,
+  total_calories INTEGER DEFAULT 0,
+  total_carbs DECIMAL(10, 2) DEFAULT 0,
+  total_fat DECIMAL(10, 2) DEFAULT 0,
+  total_fiber DECIMAL(10, 2) DEFAULT 0,
+  total_protein DECIMAL(10, 2) DEFAULT 0,
+  total_water DECIMAL(10, 2) DEFAULT 0,
+  total_sodium DECIMAL(10, 2) DEFAULT 0,
+  total_sugar DECIMAL(10, 2) DEFAULT 0,
+  total_saturated_fat DECIMAL(10, 2) DEFAULT 0,
+  total_potassium DECIMAL(10, 2) DEFAULT 0,
+  total_cholesterol DECIMAL(10, 2) DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (recipe_id, version_number)
+);
+
+CREATE TABLE recipe_version_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  version_id UUID NOT NULL REFERENCES recipe_versions(id) ON DELETE CASCADE,
+  food_id UUID REFERENCES foods(id) ON DELETE SET NULL,
+  food_name TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  quantity DECIMAL(10, 3),
+  unit TEXT CHECK (unit IN ('cup', 'tbsp', 'tsp', 'ml', 'fl oz', 'g', 'oz', 'lb', 'each', 'package', 'serving')),
+  grams DECIMAL(10, 2),
+  calories INTEGER NOT NULL,
+  carbs DECIMAL(10, 2),
+  fat DECIMAL(10, 2),
+  fiber DECIMAL(10, 2),
+  protein DECIMAL(10, 2),
+  water DECIMAL(10, 2) DEFAULT 0,
+  sodium DECIMAL(10, 2) DEFAULT 0,
+  sugar DECIMAL(10, 2) DEFAULT 0,
+  saturated_fat DECIMAL(10, 2) DEFAULT 0,
+  potassium DECIMAL(10, 2) DEFAULT 0,
+  cholesterol DECIMAL(10, 2) DEFAULT 0,
+  "order" INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_recipe_version_items_version_id ON recipe_version_items(version_id);
+
+ALTER TABLE recipes
+ADD COLUMN current_version_id UUID REFERENCES recipe_versions(id) ON DELETE SET NULL;
+
+-- The version a logged recipe was eaten as; templates keep it so re-logging
+-- a template logs the same version
+ALTER TABLE meal_items
+ADD COLUMN recipe_version_id UUID REFERENCES recipe_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE meal_template_items
+ADD COLUMN recipe_version_id UUID REFERENCES recipe_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_meal_items_recipe_version_id ON meal_items(recipe_version_id);
+
+-- ============================================================
+-- 2. RLS Policies
+-- ============================================================
+-- Versions are written by create_recipe_version() and never edited
+ALTER TABLE recipe_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_version_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recipe versions"
+  ON recipe_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM recipes
+      WHERE recipes.id = recipe_versions.recipe_id
+      AND recipes.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create own recipe versions"
+  ON recipe_versions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM recipes
+      WHERE recipes.id = recipe_versions.recipe_id
+      AND recipes.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own recipe version items"
+  ON recipe_version_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM recipe_versions
+      JOIN recipes ON recipes.id = recipe_versions.recipe_id
+      WHERE recipe_versions.id = recipe_version_items.version_id
+      AND recipes.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create own recipe version items"
+  ON recipe_version_items FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM recipe_versions
+      JOIN recipes ON recipes.id = recipe_versions.recipe_id
+      WHERE recipe_versions.id = recipe_version_items.version_id
+      AND recipes.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================
+-- 3. Snapshot the working copy
+-- ============================================================
+-- Runs with the caller's permissions, so only a recipe's owner can version it.
+-- The recipe row is locked so two saves can't take the same version number.
+CREATE OR REPLACE FUNCTION create_recipe_version(p_recipe_id UUID)
+RETURNS recipe_versions AS $$
+DECLARE
+  v_recipe recipes;
+  v_version recipe_versions;
+BEGIN
+  SELECT * INTO v_recipe FROM recipes WHERE id = p_recipe_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe not found';
+  END IF;
+
+  INSERT INTO recipe_versions (
+    recipe_id, version_number, name, servings, cooked_weight_grams, notes,
+    total_calories, total_carbs, total_fat, total_fiber, total_protein, total_water,
+    total_sodium, total_sugar, total_saturated_fat, total_potassium, total_cholesterol
+  )
+  VALUES (
+    v_recipe.id,
+    COALESCE((SELECT MAX(version_number) FROM recipe_versions WHERE recipe_id = v_recipe.id), 0) + 1,
+    v_recipe.name, v_recipe.servings, v_recipe.cooked_weight_grams, v_recipe.notes,
+    v_recipe.total_calories, v_recipe.total_carbs, v_recipe.total_fat, v_recipe.total_fiber,
+    v_recipe.total_protein, v_recipe.total_water, v_recipe.total_sodium, v_recipe.total_sugar,
+    v_recipe.total_saturated_fat, v_recipe.total_potassium, v_recipe.total_cholesterol
+  )
+  RETURNING * INTO v_version;
+
+  INSERT INTO recipe_version_items (
+    version_id, food_id, food_name, amount, quantity, unit, grams,
+    calories, carbs, fat, fiber, protein, water,
+    sodium, sugar, saturated_fat, potassium, cholesterol, "order"
+  )
+  SELECT
+    v_version.id, food_id, food_name, amount, quantity, unit, grams,
+    calories, carbs, fat, fiber, protein, water,
+    sodium, sugar, saturated_fat, potassium, cholesterol, "order"
+  FROM recipe_items
+  WHERE recipe_id = v_recipe.id;
+
+  UPDATE recipes SET current_version_id = v_version.id WHERE id = v_recipe.id;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================
+-- 4. Backfill
+-- ============================================================
+-- Existing recipes start at version 1. What past logs were eaten as isn't
+-- known, so they are pinned to it too.
+SELECT create_recipe_version(id) FROM recipes;
+
+-- Pinning isn't a change to what was eaten, so locked days are let through
+ALTER TABLE meal_items DISABLE TRIGGER prevent_locked_meal_item_changes;
+
+UPDATE meal_items
+SET recipe_version_id = recipes.current_version_id
+FROM recipes
+WHERE meal_items.recipe_id = recipes.id;
+
+ALTER TABLE meal_items ENABLE TRIGGER prevent_locked_meal_item_changes;
+
+UPDATE meal_template_items
+SET recipe_version_id = recipes.current_version_id
+FROM recipes
+WHERE meal_template_items.recipe_id = recipes.id;
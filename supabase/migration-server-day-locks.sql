@@ -0,0 +1,257 @@
+-- Migration: Enforce locked days in the database
+-- Run this in your Supabase SQL editor after migration-daily-totals-triggers.sql
+--
+-- A locked day's meals and items can no longer be changed through the API.
+-- Locking and unlocking is recorded in day_lock_events, and a dietitian can
+-- require that only they unlock a client's locked days. Days locked under that
+-- rule keep it after the assignment ends.
+
+-- ============================================================
+-- 1. Lock audit table
+-- ============================================================
+CREATE TABLE day_lock_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  daily_log_id UUID NOT NULL REFERENCES daily_logs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('locked', 'unlocked')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_day_lock_events_daily_log_id ON day_lock_events(daily_log_id, created_at DESC);
+
+ALTER TABLE day_lock_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY "Users can view lock history of own days"
+  ON day_lock_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Assigned dietitians can view client lock history"
+  ON day_lock_events FOR SELECT
+  USING (is_dietitian_of(user_id));
+
+-- ============================================================
+-- 2. Dietitian-only unlocking
+-- ============================================================
+ALTER TABLE dietitian_clients
+ADD COLUMN dietitian_unlock_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Both parties may update an assignment, but only the dietitian sets this rule
+CREATE OR REPLACE FUNCTION validate_unlock_rule_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.dietitian_unlock_only IS DISTINCT FROM OLD.dietitian_unlock_only
+    AND auth.uid() IS DISTINCT FROM NEW.dietitian_id THEN
+    RAISE EXCEPTION 'Only the dietitian can change who may unlock days';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_unlock_rule_change
+  BEFORE UPDATE OF dietitian_unlock_only ON dietitian_clients
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_unlock_rule_change();
+
+-- The dietitian whose rule currently covers a client's days, if any
+CREATE OR REPLACE FUNCTION unlock_dietitian_of(p_client_id UUID)
+RETURNS UUID AS $$
+  SELECT dietitian_id FROM dietitian_clients
+  WHERE client_id = p_client_id
+  AND status = 'active'
+  AND dietitian_unlock_only
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Recorded when a day is locked while the rule applies, so a client can't end
+-- the assignment and then unlock the day themselves
+ALTER TABLE daily_logs
+ADD COLUMN unlock_dietitian_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- 3. Locked days are read-only
+-- ============================================================
+-- Nested calls (pg_trigger_depth() > 1) are cascades, such as an account
+-- being deleted, and are let through. Weeks, the one parent a client may
+-- delete, are checked on their own below.
+CREATE OR REPLACE FUNCTION assert_day_unlocked(p_daily_log_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM daily_logs WHERE id = p_daily_log_id AND is_locked) THEN
+    RAISE EXCEPTION 'This day is locked; unlock it before making changes';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION prevent_locked_meal_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM assert_day_unlocked(OLD.daily_log_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM assert_day_unlocked(NEW.daily_log_id);
+    RETURN NEW;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_locked_meal_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON meals
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_meal_changes();
+
+CREATE OR REPLACE FUNCTION prevent_locked_meal_item_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_daily_log_id UUID;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    SELECT daily_log_id INTO v_daily_log_id FROM meals WHERE id = OLD.meal_id;
+    PERFORM assert_day_unlocked(v_daily_log_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    SELECT daily_log_id INTO v_daily_log_id FROM meals WHERE id = NEW.meal_id;
+    PERFORM assert_day_unlocked(v_daily_log_id);
+    RETURN NEW;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_locked_meal_item_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON meal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_meal_item_changes();
+
+-- On the day itself: totals kept by triggers may still change, anything the
+-- user entered may not, and unlocking follows the dietitian-only rule, either
+-- the current one or the one recorded when the day was locked.
+-- Totals written directly (pg_trigger_depth() = 1) by a signed-in user are
+-- refused; the SQL editor and service role (auth.uid() IS NULL) may repair them.
+CREATE OR REPLACE FUNCTION validate_daily_log_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_locked AND pg_trigger_depth() = 1 THEN
+      RAISE EXCEPTION 'This day is locked; unlock it before deleting';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.is_locked AND NEW.is_locked THEN
+    IF (NEW.user_id, NEW.week_id, NEW.log_date, NEW.extra_water)
+      IS DISTINCT FROM (OLD.user_id, OLD.week_id, OLD.log_date, OLD.extra_water) THEN
+      RAISE EXCEPTION 'This day is locked; unlock it before making changes';
+    END IF;
+
+    IF pg_trigger_depth() = 1 AND auth.uid() IS NOT NULL
+      AND (NEW.water_intake, NEW.total_calories, NEW.total_protein, NEW.total_carbs,
+           NEW.total_fat, NEW.total_fiber, NEW.total_sodium, NEW.total_sugar,
+           NEW.total_saturated_fat, NEW.total_potassium, NEW.total_cholesterol)
+      IS DISTINCT FROM
+          (OLD.water_intake, OLD.total_calories, OLD.total_protein, OLD.total_carbs,
+           OLD.total_fat, OLD.total_fiber, OLD.total_sodium, OLD.total_sugar,
+           OLD.total_saturated_fat, OLD.total_potassium, OLD.total_cholesterol) THEN
+      RAISE EXCEPTION 'This day is locked; unlock it before making changes';
+    END IF;
+  END IF;
+
+  IF NOT OLD.is_locked AND NEW.is_locked THEN
+    NEW.unlock_dietitian_id := unlock_dietitian_of(NEW.user_id);
+  ELSIF OLD.is_locked AND NOT NEW.is_locked THEN
+    -- auth.uid() is NULL for the SQL editor and service role, which may always unlock
+    IF auth.uid() IS NOT NULL
+      AND (OLD.unlock_dietitian_id IS NOT NULL OR unlock_dietitian_of(NEW.user_id) IS NOT NULL)
+      AND auth.uid() IS DISTINCT FROM OLD.unlock_dietitian_id
+      AND NOT is_dietitian_of(NEW.user_id) THEN
+      RAISE EXCEPTION 'Only your dietitian can unlock this day';
+    END IF;
+    NEW.unlock_dietitian_id := NULL;
+  ELSE
+    -- Only locking and unlocking set it
+    NEW.unlock_dietitian_id := OLD.unlock_dietitian_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_daily_log_lock
+  BEFORE UPDATE OR DELETE ON daily_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_daily_log_lock();
+
+-- Deleting a week cascades to its days, which would otherwise pass as a
+-- trusted cascade; refuse it while any of them is locked
+CREATE OR REPLACE FUNCTION prevent_locked_week_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1
+    AND EXISTS (SELECT 1 FROM daily_logs WHERE week_id = OLD.id AND is_locked) THEN
+    RAISE EXCEPTION 'This week has locked days; unlock them before deleting it';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_locked_week_delete
+  BEFORE DELETE ON weeks
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_week_delete();
+
+-- ============================================================
+-- 4. Audit lock changes
+-- ============================================================
+CREATE OR REPLACE FUNCTION record_day_lock_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO day_lock_events (daily_log_id, user_id, actor_id, action)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    auth.uid(),
+    CASE WHEN NEW.is_locked THEN 'locked' ELSE 'unlocked' END
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_day_lock_event
+  AFTER UPDATE OF is_locked ON daily_logs
+  FOR EACH ROW
+  WHEN (OLD.is_locked IS DISTINCT FROM NEW.is_locked)
+  EXECUTE FUNCTION record_day_lock_event();
+
+-- ============================================================
+-- 5. Lock and unlock through one function
+-- ============================================================
+-- Dietitians have no UPDATE policy on client logs, so this is how they
+-- unlock (or lock) an assigned client's day. Clients can use it too, and a
+-- former dietitian can still unlock the days recorded as theirs.
+CREATE OR REPLACE FUNCTION set_daily_log_lock(p_daily_log_id UUID, p_locked BOOLEAN)
+RETURNS daily_logs AS $$
+DECLARE
+  v_log daily_logs;
+BEGIN
+  SELECT * INTO v_log FROM daily_logs WHERE id = p_daily_log_id;
+
+  IF NOT FOUND OR (v_log.user_id <> auth.uid() AND NOT is_dietitian_of(v_log.user_id)
+    AND NOT (NOT p_locked AND v_log.unlock_dietitian_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Day not found';
+  END IF;
+
+  UPDATE daily_logs
+  SET is_locked = p_locked
+  WHERE id = p_daily_log_id
+  RETURNING * INTO v_log;
+
+  RETURN v_log;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,182 @@
+-- Migration: Structured quantities on meal and recipe items
+-- Run this in your Supabase SQL editor
+--
+-- Items keep their display string in `amount`, and gain a numeric quantity,
+-- a unit and (when the food's gram weight is known) the weight in grams.
+
+-- ============================================================
+-- 1. Quantity columns
+-- ============================================================
+ALTER TABLE meal_items
+ADD COLUMN quantity DECIMAL(10, 3),
+ADD COLUMN unit TEXT,
+ADD COLUMN grams DECIMAL(10, 2);
+
+ALTER TABLE recipe_items
+ADD COLUMN quantity DECIMAL(10, 3),
+ADD COLUMN unit TEXT,
+ADD COLUMN grams DECIMAL(10, 2);
+
+ALTER TABLE meal_items
+ADD CONSTRAINT meal_items_unit_check
+CHECK (unit IN ('cup', 'tbsp', 'tsp', 'each', 'package', 'serving'));
+
+ALTER TABLE recipe_items
+ADD CONSTRAINT recipe_items_unit_check
+CHECK (unit IN ('cup', 'tbsp', 'tsp', 'each', 'package', 'serving'));
+
+-- ============================================================
+-- 2. Amount parser
+-- ============================================================
+-- Mirrors parseAmount in lib/utils/quantity.ts. Understands the strings the
+-- item forms have always written: "1 1/2 cups", "1/4 cup", "2 tbsp", "3",
+-- "2 packages", "1 serving". Returns NULLs for anything else.
+CREATE OR REPLACE FUNCTION parse_amount(p_amount TEXT, OUT quantity DECIMAL, OUT unit TEXT)
+AS $$
+DECLARE
+  v_text TEXT := lower(trim(p_amount));
+  v_match TEXT[];
+  v_quantity DECIMAL;
+  v_unit TEXT;
+BEGIN
+  v_match := regexp_match(v_text, '^(?:(\d+)\s+)?(\d+)/(\d+)\s*(.*)$');
+  IF v_match IS NOT NULL THEN
+    IF v_match[3]::DECIMAL = 0 THEN
+      RETURN;
+    END IF;
+    v_quantity := COALESCE(v_match[1]::DECIMAL, 0) + v_match[2]::DECIMAL / v_match[3]::DECIMAL;
+    v_unit := v_match[4];
+  ELSE
+    v_match := regexp_match(v_text, '^(\d+(?:\.\d+)?|\.\d+)\s*(.*)$');
+    IF v_match IS NULL THEN
+      RETURN;
+    END IF;
+    v_quantity := v_match[1]::DECIMAL;
+    v_unit := v_match[2];
+  END IF;
+
+  unit := CASE
+    WHEN v_unit IN ('cup', 'cups', 'c') THEN 'cup'
+    WHEN v_unit IN ('tbsp', 'tbs', 'tablespoon', 'tablespoons') THEN 'tbsp'
+    WHEN v_unit IN ('tsp', 'teaspoon', 'teaspoons') THEN 'tsp'
+    WHEN v_unit IN ('', 'each', 'ea', 'whole') THEN 'each'
+    WHEN v_unit IN ('package', 'packages', 'pkg') THEN 'package'
+    WHEN v_unit IN ('serving', 'servings') THEN 'serving'
+  END;
+
+  IF unit IS NOT NULL THEN
+    quantity := ROUND(v_quantity, 3);
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fill quantity/unit from amount when a writer only sends the display string,
+-- or changes the display string without touching the quantity
+CREATE OR REPLACE FUNCTION fill_item_quantity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parsed RECORD;
+BEGIN
+  IF NEW.amount IS NOT NULL AND (
+    NEW.quantity IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.amount IS DISTINCT FROM OLD.amount AND NEW.quantity IS NOT DISTINCT FROM OLD.quantity)
+  ) THEN
+    SELECT * INTO v_parsed FROM parse_amount(NEW.amount);
+    NEW.quantity := v_parsed.quantity;
+    NEW.unit := v_parsed.unit;
+    -- A re-typed amount makes any stored weight stale
+    IF TG_OP = 'UPDATE' THEN
+      NEW.grams := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER fill_meal_item_quantity
+  BEFORE INSERT OR UPDATE OF amount ON meal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_item_quantity();
+
+CREATE TRIGGER fill_recipe_item_quantity
+  BEFORE INSERT OR UPDATE OF amount ON recipe_items
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_item_quantity();
+
+-- ============================================================
+-- 3. Backfill existing items
+-- ============================================================
+UPDATE meal_items
+SET quantity = parsed.quantity, unit = parsed.unit
+FROM (
+  SELECT meal_items.id, p.quantity, p.unit
+  FROM meal_items
+  CROSS JOIN LATERAL parse_amount(meal_items.amount) AS p
+  WHERE meal_items.quantity IS NULL
+) AS parsed
+WHERE meal_items.id = parsed.id
+AND parsed.quantity IS NOT NULL;
+
+UPDATE recipe_items
+SET quantity = parsed.quantity, unit = parsed.unit
+FROM (
+  SELECT recipe_items.id, p.quantity, p.unit
+  FROM recipe_items
+  CROSS JOIN LATERAL parse_amount(recipe_items.amount) AS p
+  WHERE recipe_items.quantity IS NULL
+) AS parsed
+WHERE recipe_items.id = parsed.id
+AND parsed.quantity IS NOT NULL;
+
+-- ============================================================
+-- 4. Report of amounts that could not be parsed
+-- ============================================================
+-- Meal notes are stored as items with an amount of '-' and are left out.
+CREATE VIEW unparsed_item_amounts
+WITH (security_invoker = true) AS
+SELECT 'meal_items' AS source, id, food_name, amount
+FROM meal_items
+WHERE quantity IS NULL AND amount <> '-'
+UNION ALL
+SELECT 'recipe_items' AS source, id, food_name, amount
+FROM recipe_items
+WHERE quantity IS NULL;
+
+-- ============================================================
+-- 5. Quantities by day and week
+-- ============================================================
+-- One row per logged item with its owner and date, for summing real amounts.
+-- grams of items logged before it was stored is filled in by
+-- migration-item-grams.sql.
+-- Example, grams of oats per week:
+--
+-- SELECT weeks.start_date, SUM(meal_item_quantities.grams) AS grams
+-- FROM meal_item_quantities
+-- JOIN weeks ON weeks.id = meal_item_quantities.week_id
+-- WHERE meal_item_quantities.food_name ILIKE '%oats%'
+-- GROUP BY weeks.start_date
+-- ORDER BY weeks.start_date;
+CREATE VIEW meal_item_quantities
+WITH (security_invoker = true) AS
+SELECT
+  meal_items.id AS meal_item_id,
+  daily_logs.user_id,
+  daily_logs.week_id,
+  daily_logs.log_date,
+  meals.meal_type,
+  meal_items.food_id,
+  meal_items.recipe_id,
+  meal_items.food_name,
+  meal_items.amount,
+  meal_items.quantity,
+  meal_items.unit,
+  meal_items.grams
+FROM meal_items
+JOIN meals ON meals.id = meal_items.meal_id
+JOIN daily_logs ON daily_logs.id = meals.daily_log_id;
+
+-- Show what still needs attention (run again any time)
+SELECT source, amount, COUNT(*) AS items
+FROM unparsed_item_amounts
+GROUP BY source, amount
+ORDER BY items DESC;
@@ -0,0 +1,32 @@
+-- Migration: Server-side cache of USDA FoodData Central results
+-- Run this in your Supabase SQL editor after migration-recipe-shares.sql
+--
+-- /api/food-search keeps normalized USDA foods and the results of each search
+-- here, refreshes them after a week, and serves them when the USDA API is down
+-- or no key is configured. Only the server writes these tables, using the
+-- service role key (SUPABASE_SERVICE_ROLE_KEY), so RLS has no user policies.
+
+-- ============================================================
+-- 1. Tables
+-- ============================================================
+CREATE TABLE usda_food_cache (
+  fdc_id BIGINT PRIMARY KEY,
+  description TEXT NOT NULL,
+  food JSONB NOT NULL,              -- NormalizedFood, nutrients per 100g
+  portions JSONB,                   -- FoodPortion[] from the detail endpoint
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  portions_fetched_at TIMESTAMPTZ   -- NULL until the detail endpoint is called
+);
+
+-- Results of one search, keyed by the normalized query (trimmed, lowercase)
+CREATE TABLE usda_search_cache (
+  query TEXT PRIMARY KEY,
+  fdc_ids BIGINT[] NOT NULL DEFAULT '{}',
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================
+-- 2. RLS
+-- ============================================================
+ALTER TABLE usda_food_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usda_search_cache ENABLE ROW LEVEL SECURITY;